@@ -0,0 +1,20 @@
+import { IUser } from "../models/user.model";
+
+/**
+ * @summary Augments the Express Request interface with the authenticated user and session.
+ * @description The `isAuthenticated` middleware loads the user from the Redis session cache
+ * and attaches it to the request, together with the ID of the session the access token was issued for,
+ * so the controllers that run after it can read `req.user` and `req.sessionId`.
+ * The JSON body parser also keeps the raw body in `req.rawBody`, which is needed to verify signed webhook callbacks.
+ * The `requestId` middleware attaches the ID of the request to `req.id`, which is sent back with errors.
+ */
+declare global {
+    namespace Express {
+        interface Request {
+            user?: IUser;
+            sessionId?: string;
+            rawBody?: Buffer;
+            id?: string;
+        }
+    }
+}
@@ -2,7 +2,23 @@ import express, { NextFunction, Request, Response } from 'express';
 import cors from 'cors';
 import cookieParser from "cookie-parser";
 import { ErrorMiddleware } from "./middleware/error";
+import { requestId } from "./middleware/requestId";
+import ErrorHandle from "./utils/ErrorHandle";
+import { LocalStorageDriver, storage } from "./utils/storage";
 import userRouter from "./routes/user.route";
+import courseRouter from "./routes/course.route";
+import orderRouter from "./routes/order.route";
+import progressRouter from "./routes/progress.route";
+import adminRouter from "./routes/admin.route";
+import analyticsRouter from "./routes/analytics.route";
+import notificationRouter from "./routes/notification.route";
+import mailRouter from "./routes/mail.route";
+import twoFactorRouter from "./routes/twoFactor.route";
+import videoRouter from "./routes/video.route";
+import certificateRouter from "./routes/certificate.route";
+import quizRouter from "./routes/quiz.route";
+import couponRouter from "./routes/coupon.route";
+import instructorRouter from "./routes/instructor.route";
 
 /**
  * @summary  Used to load environment variables from a .env file into the process.env object in Node.js.
@@ -15,13 +31,30 @@ require('dotenv').config();
  */
 export const app = express();
 
+/**
+ * @summary Gives every request an ID, which is sent back in the X-Request-Id header and in error responses.
+ */
+app.use(requestId);
+
 /**
  * @summary Middleware function in the Express.js framework for Node.js,
  * used to parse incoming requests with JSON payloads,
  * the limit option allows you to specify the maximum size of the request body in bytes,
- * in this case, the limit is set to 50 megabytes
+ * in this case, the limit is set to 50 megabytes.
+ * The verify option keeps the raw body on the request, so the signature of payment webhook callbacks can be checked.
+ */
+app.use(express.json({
+    limit: '50mb',
+    verify: (req: Request, res: Response, buf: Buffer) => {
+        req.rawBody = buf;
+    }
+}));
+
+/**
+ * @summary Middleware function used to parse the Cookie header and populate req.cookies,
+ * so the access and refresh tokens set by sendToken can be read by the authentication middleware.
  */
-app.use(express.json({limit: '50mb'}));
+app.use(cookieParser());
 
 /**
  * @summary Used in the context of an Express.js application to enable CORS (Cross-Origin Resource Sharing).
@@ -30,11 +63,83 @@ app.use(express.json({limit: '50mb'}));
  */
 app.use(cors({ origin: process.env.ORIGIN }));
 
+/**
+ * @summary When files are stored on the local disk, serve them as static files under the public URL of the storage driver.
+ */
+if (storage instanceof LocalStorageDriver) {
+    app.use(storage.publicUrl, express.static(storage.root));
+}
+
 /**
  * @summary Mount the userRouter on "/api/v1", all routes defined in userRouter will be prefixed with "/api/v1"
  */
 app.use("/api/v1", userRouter);
 
+/**
+ * @summary Mount the courseRouter on "/api/v1", all routes defined in courseRouter will be prefixed with "/api/v1"
+ */
+app.use("/api/v1", courseRouter);
+
+/**
+ * @summary Mount the orderRouter on "/api/v1", all routes defined in orderRouter will be prefixed with "/api/v1"
+ */
+app.use("/api/v1", orderRouter);
+
+/**
+ * @summary Mount the progressRouter on "/api/v1", all routes defined in progressRouter will be prefixed with "/api/v1"
+ */
+app.use("/api/v1", progressRouter);
+
+/**
+ * @summary Mount the adminRouter on "/api/v1", all routes defined in adminRouter will be prefixed with "/api/v1"
+ */
+app.use("/api/v1", adminRouter);
+
+/**
+ * @summary Mount the analyticsRouter on "/api/v1", all routes defined in analyticsRouter will be prefixed with "/api/v1"
+ */
+app.use("/api/v1", analyticsRouter);
+
+/**
+ * @summary Mount the notificationRouter on "/api/v1", all routes defined in notificationRouter will be prefixed with "/api/v1"
+ */
+app.use("/api/v1", notificationRouter);
+
+/**
+ * @summary Mount the mailRouter on "/api/v1", all routes defined in mailRouter will be prefixed with "/api/v1"
+ */
+app.use("/api/v1", mailRouter);
+
+/**
+ * @summary Mount the twoFactorRouter on "/api/v1", all routes defined in twoFactorRouter will be prefixed with "/api/v1"
+ */
+app.use("/api/v1", twoFactorRouter);
+
+/**
+ * @summary Mount the videoRouter on "/api/v1", all routes defined in videoRouter will be prefixed with "/api/v1"
+ */
+app.use("/api/v1", videoRouter);
+
+/**
+ * @summary Mount the certificateRouter on "/api/v1", all routes defined in certificateRouter will be prefixed with "/api/v1"
+ */
+app.use("/api/v1", certificateRouter);
+
+/**
+ * @summary Mount the quizRouter on "/api/v1", all routes defined in quizRouter will be prefixed with "/api/v1"
+ */
+app.use("/api/v1", quizRouter);
+
+/**
+ * @summary Mount the couponRouter on "/api/v1", all routes defined in couponRouter will be prefixed with "/api/v1"
+ */
+app.use("/api/v1", couponRouter);
+
+/**
+ * @summary Mount the instructorRouter on "/api/v1", all routes defined in instructorRouter will be prefixed with "/api/v1"
+ */
+app.use("/api/v1", instructorRouter);
+
 /**
  * @summary Creates a new route
  * for GET requests to the /test endpoint
@@ -53,9 +158,7 @@ app.get('/test', (req:Request, res:Response, next:NextFunction) => {
  * and an appropriate response would be sent to the client.
  */
 app.all('*', (req:Request, res:Response, next:NextFunction) => {
-    const err = new Error(`Route ${req.originalUrl} does not exist`) as any;
-    err.statusCode = 404;
-    next(err);
+    next(new ErrorHandle(`Route ${req.originalUrl} does not exist`, 404, { code: 'ROUTE_NOT_FOUND' }));
 });
 
 /**
@@ -0,0 +1,271 @@
+import { Request, Response, NextFunction } from 'express';
+import ErrorHandle from "../utils/ErrorHandle";
+import { CatchAsyncError } from "../middleware/catchAsyncErrors";
+import userModel from "../models/user.model";
+import auditLogModel from "../models/auditLog.model";
+import { recordAudit } from "../utils/audit";
+import { revokeAllSessions, updateCachedUser } from "../utils/session";
+
+/**
+ * @function escapeRegex
+ * @description Function to escape the characters of a string that have a special meaning in a regular expression,
+ * so a search term is always matched literally.
+ * @param {string} value - The string to escape.
+ * @returns {string} - The escaped string.
+ */
+const escapeRegex = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * @function getAllUsers
+ * @description Function to list the users, newest first, with pagination.
+ * The list can be searched by name or email, and filtered by role and by whether the user is verified.
+ * @param {Request} req - The request object, expected to contain the page, limit, search and filters in the query string.
+ * @param {Response} res - The response object.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>}
+ */
+export const getAllUsers = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        const page = Number(req.query.page) || 1;
+        const limit = Number(req.query.limit) || 20;
+        const { search, role, isVerified } = req.query;
+
+        const filter: { [key: string]: any } = {};
+
+        if (search) {
+            const pattern = new RegExp(escapeRegex(String(search)), 'i');
+            filter.$or = [{ name: pattern }, { email: pattern }];
+        }
+
+        if (role) {
+            filter.role = role;
+        }
+
+        if (isVerified !== undefined) {
+            filter.isVerified = isVerified;
+        }
+
+        const [users, total] = await Promise.all([
+            userModel.find(filter).sort({ createdAt: -1 }).skip((page - 1) * limit).limit(limit),
+            userModel.countDocuments(filter),
+        ]);
+
+        res.status(200).json({
+            success: true,
+            users,
+            page,
+            limit,
+            total,
+            pages: Math.ceil(total / limit),
+        });
+    }
+    catch (error:any) {
+        return next(error);
+    }
+});
+
+/**
+ * @interface IUpdateUserRoleRequest
+ * @description Interface for the update user role request body.
+ * @property {string} role - The new role of the user.
+ */
+interface IUpdateUserRoleRequest {
+    role: string;
+}
+
+/**
+ * @function updateUserRole
+ * @description Function to change the role of a user.
+ * Admins cannot change their own role, so there is always at least one admin left.
+ * The cached user data is updated, so the new role applies to the user's next request, and the change is written to the audit log.
+ * @param {Request} req - The request object, expected to contain the user ID in the params and the role in the body.
+ * @param {Response} res - The response object.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>}
+ */
+export const updateUserRole = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        const { role } = req.body as IUpdateUserRoleRequest;
+
+        if (req.params.id === String(req.user?._id)) {
+            return next(new ErrorHandle("You cannot change your own role.", 400));
+        }
+
+        const user = await userModel.findById(req.params.id);
+
+        if (!user) {
+            return next(new ErrorHandle("User not found.", 404));
+        }
+
+        const before = { role: user.role };
+
+        user.role = role;
+        await user.save();
+        await updateCachedUser(user);
+
+        await recordAudit({
+            actor: req.user?._id,
+            action: 'user.role.update',
+            target: user._id,
+            targetType: 'User',
+            before,
+            after: { role: user.role },
+        });
+
+        res.status(200).json({
+            success: true,
+            user,
+        });
+    }
+    catch (error:any) {
+        return next(error);
+    }
+});
+
+/**
+ * @interface IUpdateUserSuspensionRequest
+ * @description Interface for the update user suspension request body.
+ * @property {boolean} suspended - Whether the account should be suspended.
+ */
+interface IUpdateUserSuspensionRequest {
+    suspended: boolean;
+}
+
+/**
+ * @function updateUserSuspension
+ * @description Function to suspend or unsuspend the account of a user.
+ * A suspended user cannot log in, and every session of the user is revoked, so they are logged out of every device right away.
+ * Admins cannot suspend themselves. The change is written to the audit log.
+ * @param {Request} req - The request object, expected to contain the user ID in the params and the suspension state in the body.
+ * @param {Response} res - The response object.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>}
+ */
+export const updateUserSuspension = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        const { suspended } = req.body as IUpdateUserSuspensionRequest;
+
+        if (req.params.id === String(req.user?._id)) {
+            return next(new ErrorHandle("You cannot suspend your own account.", 400));
+        }
+
+        const user = await userModel.findById(req.params.id);
+
+        if (!user) {
+            return next(new ErrorHandle("User not found.", 404));
+        }
+
+        const before = { isSuspended: user.isSuspended };
+
+        user.isSuspended = suspended;
+        await user.save();
+
+        if (suspended) {
+            await revokeAllSessions(String(user._id));
+        }
+
+        await recordAudit({
+            actor: req.user?._id,
+            action: suspended ? 'user.suspend' : 'user.unsuspend',
+            target: user._id,
+            targetType: 'User',
+            before,
+            after: { isSuspended: user.isSuspended },
+        });
+
+        res.status(200).json({
+            success: true,
+            user,
+        });
+    }
+    catch (error:any) {
+        return next(error);
+    }
+});
+
+/**
+ * @function deleteUser
+ * @description Function to delete a user.
+ * Every session of the user is revoked and the cached user data is deleted from Redis.
+ * Admins cannot delete themselves. The deleted values are written to the audit log.
+ * @param {Request} req - The request object, expected to contain the user ID in the params.
+ * @param {Response} res - The response object.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>}
+ */
+export const deleteUser = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        if (req.params.id === String(req.user?._id)) {
+            return next(new ErrorHandle("You cannot delete your own account.", 400));
+        }
+
+        const user = await userModel.findByIdAndDelete(req.params.id);
+
+        if (!user) {
+            return next(new ErrorHandle("User not found.", 404));
+        }
+
+        await revokeAllSessions(String(user._id));
+
+        await recordAudit({
+            actor: req.user?._id,
+            action: 'user.delete',
+            target: user._id,
+            targetType: 'User',
+            before: {
+                name: user.name,
+                email: user.email,
+                role: user.role,
+                isVerified: user.isVerified,
+                isSuspended: user.isSuspended,
+            },
+            after: null,
+        });
+
+        res.status(200).json({
+            success: true,
+            message: "User has been deleted.",
+        });
+    }
+    catch (error:any) {
+        return next(error);
+    }
+});
+
+/**
+ * @function getAuditLogs
+ * @description Function to list the audit log entries, newest first, with pagination.
+ * The list can be filtered by the record the actions were taken on.
+ * @param {Request} req - The request object, expected to contain the page, limit and target in the query string.
+ * @param {Response} res - The response object.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>}
+ */
+export const getAuditLogs = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        const page = Number(req.query.page) || 1;
+        const limit = Number(req.query.limit) || 20;
+        const filter = req.query.target ? { target: req.query.target } : {};
+
+        const [logs, total] = await Promise.all([
+            auditLogModel.find(filter)
+                .populate('actor', 'name email')
+                .sort({ createdAt: -1 })
+                .skip((page - 1) * limit)
+                .limit(limit),
+            auditLogModel.countDocuments(filter),
+        ]);
+
+        res.status(200).json({
+            success: true,
+            logs,
+            page,
+            limit,
+            total,
+            pages: Math.ceil(total / limit),
+        });
+    }
+    catch (error:any) {
+        return next(error);
+    }
+});
@@ -0,0 +1,143 @@
+import { Request, Response, NextFunction } from 'express';
+import { CatchAsyncError } from "../middleware/catchAsyncErrors";
+import userModel from "../models/user.model";
+import courseModel from "../models/course.model";
+import orderModel from "../models/order.model";
+import { generateLast12MonthsData } from "../utils/analytics.generator";
+import { countActiveSessions } from "../utils/session";
+import { redis } from "../utils/redis";
+
+/**
+ * @summary The number of seconds the analytics are cached in Redis, set by the `ANALYTICS_CACHE_TTL` environment variable.
+ */
+const analyticsCacheTtl = parseInt(process.env.ANALYTICS_CACHE_TTL || '600', 10);
+
+/**
+ * @function getCachedAnalytics
+ * @description Function to get analytics from the Redis cache, computing and caching them when they are not there.
+ * The aggregations scan whole collections, so the admin dashboard reuses their results until the cache expires.
+ * @param {string} name - The name of the analytics, used in the cache key.
+ * @param {Function} generate - The function that computes the analytics.
+ * @returns {Promise<T>} - The analytics.
+ */
+const getCachedAnalytics = async <T>(name: string, generate: () => Promise<T>): Promise<T> => {
+    const key = `analytics:${name}`;
+    const cached = await redis.get(key);
+
+    if (cached) {
+        return JSON.parse(cached) as T;
+    }
+
+    const data = await generate();
+
+    if (analyticsCacheTtl > 0) {
+        await redis.set(key, JSON.stringify(data), 'EX', analyticsCacheTtl);
+    }
+
+    return data;
+};
+
+/**
+ * @function getUserAnalytics
+ * @description Function to get the number of new users in each of the last 12 months.
+ * @param {Request} req - The request object.
+ * @param {Response} res - The response object.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>}
+ */
+export const getUserAnalytics = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        const users = await getCachedAnalytics('users', () => generateLast12MonthsData(userModel));
+
+        res.status(200).json({
+            success: true,
+            users,
+        });
+    }
+    catch (error:any) {
+        return next(error);
+    }
+});
+
+/**
+ * @function getCourseAnalytics
+ * @description Function to get the number of new courses in each of the last 12 months.
+ * @param {Request} req - The request object.
+ * @param {Response} res - The response object.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>}
+ */
+export const getCourseAnalytics = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        const courses = await getCachedAnalytics('courses', () => generateLast12MonthsData(courseModel));
+
+        res.status(200).json({
+            success: true,
+            courses,
+        });
+    }
+    catch (error:any) {
+        return next(error);
+    }
+});
+
+/**
+ * @function getOrderAnalytics
+ * @description Function to get the number of paid orders in each of the last 12 months.
+ * @param {Request} req - The request object.
+ * @param {Response} res - The response object.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>}
+ */
+export const getOrderAnalytics = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        const orders = await getCachedAnalytics('orders', () => generateLast12MonthsData(orderModel, { status: 'paid' }));
+
+        res.status(200).json({
+            success: true,
+            orders,
+        });
+    }
+    catch (error:any) {
+        return next(error);
+    }
+});
+
+/**
+ * @function getUserOverview
+ * @description Function to get the number of verified and unverified users, their ratios, and the number of active sessions.
+ * @param {Request} req - The request object.
+ * @param {Response} res - The response object.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>}
+ */
+export const getUserOverview = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        const overview = await getCachedAnalytics('overview', async () => {
+            const [verified, unverified, activeSessions] = await Promise.all([
+                userModel.countDocuments({ isVerified: true }),
+                userModel.countDocuments({ isVerified: false }),
+                countActiveSessions(),
+            ]);
+
+            const total = verified + unverified;
+
+            return {
+                total,
+                verified,
+                unverified,
+                verifiedRatio: total ? verified / total : 0,
+                unverifiedRatio: total ? unverified / total : 0,
+                activeSessions,
+            };
+        });
+
+        res.status(200).json({
+            success: true,
+            overview,
+        });
+    }
+    catch (error:any) {
+        return next(error);
+    }
+});
@@ -0,0 +1,97 @@
+import { Request, Response, NextFunction } from 'express';
+import ErrorHandle from "../utils/ErrorHandle";
+import { CatchAsyncError } from "../middleware/catchAsyncErrors";
+import certificateModel from "../models/certificate.model";
+import { getVerifyUrl, renderCertificate } from "../utils/certificate";
+
+/**
+ * @function getMyCertificates
+ * @description Function to list the certificates of the authenticated user, newest first.
+ * @param {Request} req - The request object.
+ * @param {Response} res - The response object.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>}
+ */
+export const getMyCertificates = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        const certificates = await certificateModel.find({ userId: String(req.user?._id) })
+            .sort({ completedAt: -1 });
+
+        res.status(200).json({
+            success: true,
+            certificates: certificates.map(certificate => ({
+                ...certificate.toObject(),
+                verifyUrl: getVerifyUrl(certificate.serial),
+            })),
+        });
+    }
+    catch (error:any) {
+        return next(error);
+    }
+});
+
+/**
+ * @function downloadCertificate
+ * @description Function to download the PDF of a certificate of the authenticated user.
+ * Certificates of other users are reported as not found, so their serials cannot be probed.
+ * @param {Request} req - The request object, expected to contain the serial of the certificate in the params.
+ * @param {Response} res - The response object.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>}
+ */
+export const downloadCertificate = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        const certificate = await certificateModel.findOne({
+            serial: req.params.serial,
+            userId: String(req.user?._id),
+        });
+
+        if (!certificate) {
+            return next(new ErrorHandle("Certificate not found.", 404, { code: 'CERTIFICATE_NOT_FOUND' }));
+        }
+
+        const pdf = await renderCertificate(certificate, req.user?.locale);
+
+        res.status(200)
+            .set('Content-Type', 'application/pdf')
+            .set('Content-Disposition', `attachment; filename="certificate-${certificate.serial}.pdf"`)
+            .send(pdf);
+    }
+    catch (error:any) {
+        return next(error);
+    }
+});
+
+/**
+ * @function verifyCertificate
+ * @description Function to confirm that a certificate is genuine, from its serial.
+ * It is public, so anyone the certificate is shown to, such as an employer, can check it.
+ * It only sends what is printed on the certificate.
+ * @param {Request} req - The request object, expected to contain the serial of the certificate in the params.
+ * @param {Response} res - The response object.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>}
+ */
+export const verifyCertificate = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        const certificate = await certificateModel.findOne({ serial: req.params.serial });
+
+        if (!certificate) {
+            return next(new ErrorHandle("No certificate has been issued with this serial.", 404, { code: 'CERTIFICATE_NOT_FOUND' }));
+        }
+
+        res.status(200).json({
+            success: true,
+            valid: true,
+            certificate: {
+                serial: certificate.serial,
+                name: certificate.name,
+                courseTitle: certificate.courseTitle,
+                completedAt: certificate.completedAt,
+            },
+        });
+    }
+    catch (error:any) {
+        return next(error);
+    }
+});
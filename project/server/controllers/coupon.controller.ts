@@ -0,0 +1,431 @@
+import { Request, Response, NextFunction } from 'express';
+import ErrorHandle from "../utils/ErrorHandle";
+import { CatchAsyncError } from "../middleware/catchAsyncErrors";
+import couponModel, { ICoupon } from "../models/coupon.model";
+import couponUsageModel from "../models/couponUsage.model";
+import courseModel, { isPublished } from "../models/course.model";
+import orderModel from "../models/order.model";
+import userModel from "../models/user.model";
+import { recordAudit } from "../utils/audit";
+import { CouponError, checkCoupon, findCoupon } from "../utils/coupon";
+
+/**
+ * @summary The fields of a coupon that admins can set. The number of uses is only changed by checkouts.
+ */
+const couponFields = ['code', 'description', 'type', 'value', 'startsAt', 'expiresAt', 'maxUses', 'maxUsesPerUser', 'courses', 'active'];
+
+/**
+ * @function pickCouponFields
+ * @description Function to keep the fields of a request body that admins can set on a coupon.
+ * @param {any} body - The request body.
+ * @returns {Partial<ICoupon>} - The fields of the coupon.
+ */
+const pickCouponFields = (body: any): Partial<ICoupon> => {
+    const fields: { [field: string]: any } = {};
+
+    couponFields.forEach(field => {
+        if (body[field] !== undefined) {
+            fields[field] = body[field];
+        }
+    });
+
+    return fields as Partial<ICoupon>;
+};
+
+/**
+ * @function escapeRegex
+ * @description Function to escape the characters of a string that have a special meaning in a regular expression,
+ * so a search term is always matched literally.
+ * @param {string} value - The string to escape.
+ * @returns {string} - The escaped string.
+ */
+const escapeRegex = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * @interface IPreviewCouponRequest
+ * @description Interface for the preview coupon request body.
+ * @property {string} code - The code of the coupon.
+ * @property {string} courseId - The ID of the course to apply the coupon to.
+ */
+interface IPreviewCouponRequest {
+    code: string;
+    courseId: string;
+}
+
+/**
+ * @function previewCoupon
+ * @description Function to check a coupon against a course, and get the price of the course with it, before checking out.
+ * Nothing is reserved: the limits of the coupon are checked again, atomically, when the order is created.
+ * @param {Request} req - The request object, expected to contain the coupon code and the course ID in the body.
+ * @param {Response} res - The response object.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>}
+ */
+export const previewCoupon = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        const { code, courseId } = req.body as IPreviewCouponRequest;
+
+        const course = await courseModel.findById(courseId).select('price estimatedPrice sale status');
+
+        if (!course || !isPublished(course)) {
+            return next(new ErrorHandle("Course not found.", 404));
+        }
+
+        const coupon = await findCoupon(code);
+        const quote = checkCoupon(coupon, courseId, course.currentPrice);
+
+        if (coupon.maxUsesPerUser) {
+            const usage = await couponUsageModel.findOne({ couponId: String(coupon._id), userId: String(req.user?._id) });
+
+            if (usage && usage.uses >= coupon.maxUsesPerUser) {
+                return next(new ErrorHandle("You have already used this coupon.", 409, { code: 'COUPON_USER_LIMIT_REACHED' }));
+            }
+        }
+
+        res.status(200).json({
+            success: true,
+            coupon: { code: coupon.code, type: coupon.type, value: coupon.value, expiresAt: coupon.expiresAt },
+            ...quote,
+        });
+    }
+    catch (error:any) {
+        if (error instanceof CouponError) {
+            return next(new ErrorHandle(error.message, error.statusCode, { code: error.code }));
+        }
+
+        return next(error);
+    }
+});
+
+/**
+ * @function createCoupon
+ * @description Function to create a coupon. The code is stored in upper case, and must not be used by another coupon.
+ * The creation is written to the audit log.
+ * @param {Request} req - The request object, expected to contain the coupon data in the body.
+ * @param {Response} res - The response object.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>}
+ */
+export const createCoupon = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        const coupon = await couponModel.create(pickCouponFields(req.body));
+
+        await recordAudit({
+            actor: req.user?._id,
+            action: 'coupon.create',
+            target: coupon._id,
+            targetType: 'Coupon',
+            after: coupon.toObject(),
+        });
+
+        res.status(201).json({
+            success: true,
+            coupon,
+        });
+    }
+    catch (error:any) {
+        return next(error);
+    }
+});
+
+/**
+ * @function getAllCoupons
+ * @description Function to list the coupons, newest first, with pagination.
+ * The list can be searched by the beginning of the code, and filtered by whether the coupon is active.
+ * @param {Request} req - The request object, expected to contain the page, limit, search and filters in the query string.
+ * @param {Response} res - The response object.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>}
+ */
+export const getAllCoupons = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        const page = Number(req.query.page) || 1;
+        const limit = Number(req.query.limit) || 20;
+        const { search, active } = req.query;
+
+        const filter: { [key: string]: any } = {};
+
+        if (search) {
+            filter.code = new RegExp('^' + escapeRegex(String(search)), 'i');
+        }
+
+        if (active !== undefined) {
+            filter.active = active;
+        }
+
+        const [coupons, total] = await Promise.all([
+            couponModel.find(filter).sort({ createdAt: -1 }).skip((page - 1) * limit).limit(limit),
+            couponModel.countDocuments(filter),
+        ]);
+
+        res.status(200).json({
+            success: true,
+            coupons,
+            page,
+            limit,
+            total,
+            pages: Math.ceil(total / limit),
+        });
+    }
+    catch (error:any) {
+        return next(error);
+    }
+});
+
+/**
+ * @function getCoupon
+ * @description Function to get a coupon.
+ * @param {Request} req - The request object, expected to contain the coupon ID in the params.
+ * @param {Response} res - The response object.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>}
+ */
+export const getCoupon = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        const coupon = await couponModel.findById(req.params.couponId);
+
+        if (!coupon) {
+            return next(new ErrorHandle("Coupon not found.", 404));
+        }
+
+        res.status(200).json({
+            success: true,
+            coupon,
+        });
+    }
+    catch (error:any) {
+        return next(error);
+    }
+});
+
+/**
+ * @function updateCoupon
+ * @description Function to update a coupon, such as to extend it or to deactivate it.
+ * Lowering a limit below the current uses does not cancel the orders that already hold the coupon, it only stops new ones.
+ * The change is written to the audit log.
+ * @param {Request} req - The request object, expected to contain the coupon ID in the params and the coupon data in the body.
+ * @param {Response} res - The response object.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>}
+ */
+export const updateCoupon = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        const coupon = await couponModel.findById(req.params.couponId);
+
+        if (!coupon) {
+            return next(new ErrorHandle("Coupon not found.", 404));
+        }
+
+        const before = coupon.toObject();
+
+        coupon.set(pickCouponFields(req.body));
+        await coupon.save();
+
+        await recordAudit({
+            actor: req.user?._id,
+            action: 'coupon.update',
+            target: coupon._id,
+            targetType: 'Coupon',
+            before,
+            after: coupon.toObject(),
+        });
+
+        res.status(200).json({
+            success: true,
+            coupon,
+        });
+    }
+    catch (error:any) {
+        return next(error);
+    }
+});
+
+/**
+ * @function deleteCoupon
+ * @description Function to delete a coupon, with the per-user usage counts.
+ * Orders that used the coupon keep its code, so the redemptions still show up in the orders.
+ * The deleted values are written to the audit log.
+ * @param {Request} req - The request object, expected to contain the coupon ID in the params.
+ * @param {Response} res - The response object.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>}
+ */
+export const deleteCoupon = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        const coupon = await couponModel.findByIdAndDelete(req.params.couponId);
+
+        if (!coupon) {
+            return next(new ErrorHandle("Coupon not found.", 404));
+        }
+
+        await couponUsageModel.deleteMany({ couponId: String(coupon._id) });
+
+        await recordAudit({
+            actor: req.user?._id,
+            action: 'coupon.delete',
+            target: coupon._id,
+            targetType: 'Coupon',
+            before: coupon.toObject(),
+        });
+
+        res.status(200).json({
+            success: true,
+            message: "Coupon has been deleted.",
+        });
+    }
+    catch (error:any) {
+        return next(error);
+    }
+});
+
+/**
+ * @function buildDateFilter
+ * @description Function to build the filter of the creation date of the orders of a report, from the `from` and `to` query parameters.
+ * @param {Request} req - The request object.
+ * @returns {object} - The Mongoose filter.
+ */
+const buildDateFilter = (req: Request): object => {
+    const { from, to } = req.query;
+
+    if (!from && !to) {
+        return {};
+    }
+
+    return {
+        createdAt: {
+            ...(from && { $gte: new Date(String(from)) }),
+            ...(to && { $lte: new Date(String(to)) }),
+        },
+    };
+};
+
+/**
+ * @function getCouponsReport
+ * @description Function to report the redemptions of every coupon: the number of paid orders, the revenue and the discount given.
+ * The report can be limited to the orders created in a date range.
+ * @param {Request} req - The request object, expected to contain the optional date range in the query string.
+ * @param {Response} res - The response object.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>}
+ */
+export const getCouponsReport = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        const totals = await orderModel.aggregate([
+            { $match: { 'coupon.couponId': { $exists: true }, status: 'paid', ...buildDateFilter(req) } },
+            {
+                $group: {
+                    _id: '$coupon.couponId',
+                    code: { $last: '$coupon.code' },
+                    redemptions: { $sum: 1 },
+                    revenue: { $sum: '$amount' },
+                    discount: { $sum: '$discount' },
+                },
+            },
+            { $sort: { redemptions: -1 } },
+        ]);
+
+        res.status(200).json({
+            success: true,
+            coupons: totals.map(total => ({
+                couponId: total._id,
+                code: total.code,
+                redemptions: total.redemptions,
+                revenue: total.revenue,
+                discount: total.discount,
+            })),
+        });
+    }
+    catch (error:any) {
+        return next(error);
+    }
+});
+
+/**
+ * @function getCouponRedemptions
+ * @description Function to report the redemptions of a coupon.
+ * It sends the number of orders, the revenue and the discount by order status, the paid redemptions by course,
+ * and the orders that used the coupon, newest first, with pagination and the name and email of their buyers.
+ * The report can be limited to the orders created in a date range.
+ * @param {Request} req - The request object, expected to contain the coupon ID in the params, and the page, limit and date range in the query string.
+ * @param {Response} res - The response object.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>}
+ */
+export const getCouponRedemptions = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        const page = Number(req.query.page) || 1;
+        const limit = Number(req.query.limit) || 20;
+
+        const coupon = await couponModel.findById(req.params.couponId);
+
+        if (!coupon) {
+            return next(new ErrorHandle("Coupon not found.", 404));
+        }
+
+        const filter = { 'coupon.couponId': String(coupon._id), ...buildDateFilter(req) };
+
+        const [byStatus, byCourse, orders, total] = await Promise.all([
+            orderModel.aggregate([
+                { $match: filter },
+                { $group: { _id: '$status', count: { $sum: 1 }, revenue: { $sum: '$amount' }, discount: { $sum: '$discount' } } },
+            ]),
+            orderModel.aggregate([
+                { $match: { ...filter, status: 'paid' } },
+                { $group: { _id: '$courseId', count: { $sum: 1 }, revenue: { $sum: '$amount' }, discount: { $sum: '$discount' } } },
+                { $sort: { count: -1 } },
+            ]),
+            orderModel.find(filter).sort({ createdAt: -1 }).skip((page - 1) * limit).limit(limit),
+            orderModel.countDocuments(filter),
+        ]);
+
+        const [courses, users] = await Promise.all([
+            courseModel.find({ _id: { $in: byCourse.map(item => item._id).concat(orders.map(order => order.courseId)) } }).select('title'),
+            userModel.find({ _id: { $in: orders.map(order => order.userId) } }).select('name email'),
+        ]);
+
+        const summary: { [status: string]: { count: number, revenue: number, discount: number } } = {};
+
+        byStatus.forEach(item => {
+            summary[item._id] = { count: item.count, revenue: item.revenue, discount: item.discount };
+        });
+
+        const courseTitle = (courseId: string) => courses.find(course => String(course._id) === courseId)?.title || null;
+
+        res.status(200).json({
+            success: true,
+            coupon,
+            summary,
+            courses: byCourse.map(item => ({
+                courseId: item._id,
+                title: courseTitle(item._id),
+                count: item.count,
+                revenue: item.revenue,
+                discount: item.discount,
+            })),
+            redemptions: orders.map(order => {
+                const user = users.find(item => String(item._id) === order.userId);
+
+                return {
+                    orderId: order._id,
+                    status: order.status,
+                    user: user ? { _id: user._id, name: user.name, email: user.email } : null,
+                    courseId: order.courseId,
+                    courseTitle: courseTitle(order.courseId),
+                    originalAmount: order.originalAmount,
+                    discount: order.discount,
+                    amount: order.amount,
+                    currency: order.currency,
+                    createdAt: order.createdAt,
+                    paidAt: order.paidAt,
+                };
+            }),
+            page,
+            limit,
+            total,
+            pages: Math.ceil(total / limit),
+        });
+    }
+    catch (error:any) {
+        return next(error);
+    }
+});
@@ -0,0 +1,448 @@
+import { Request, Response, NextFunction } from 'express';
+import ErrorHandle from "../utils/ErrorHandle";
+import { CatchAsyncError } from "../middleware/catchAsyncErrors";
+import courseModel, { ICourse, isPublished, lessonContentFields, publishedCourseFilter } from "../models/course.model";
+import { canManageCourse, getCourseLockError, isEnrolled } from "../utils/course";
+import { ICourseSearchParams, InvalidCursorError, invalidateCourseSearch, searchCatalogue } from "../utils/courseSearch";
+import { createNotification } from "../utils/notification";
+
+/**
+ * @summary The fields of a course that are set by the publication workflow, and not by the course data of a request.
+ */
+const workflowFields = ['status', 'reviewNote', 'purchased', 'ratings', 'reviewCount'];
+
+/**
+ * @function pickCourseData
+ * @description Function to remove the fields set by the publication workflow from the course data of a request.
+ * Only admins can choose the instructor of a course.
+ * @param {any} body - The request body.
+ * @param {boolean} isAdmin - Whether the user is an admin.
+ * @returns {Partial<ICourse>} - The course data.
+ */
+const pickCourseData = (body: any, isAdmin: boolean): Partial<ICourse> => {
+    const data = { ...body };
+
+    workflowFields.forEach(field => delete data[field]);
+
+    if (!isAdmin) {
+        delete data.instructor;
+    }
+
+    return data;
+};
+
+/**
+ * @function createCourse
+ * @description Function to create a new course.
+ * It creates the course with the data from the request body and sends it in the response.
+ * A course created by an instructor is owned by them, and starts as a draft that has to be approved before it is published.
+ * A course created by an admin is published right away.
+ * The cached course searches are invalidated, so the change shows up in the search results right away.
+ * If the data does not match the Course schema, the Mongoose validation error is passed to the next middleware function.
+ * @param {Request} req - The request object, expected to contain the course data in the body.
+ * @param {Response} res - The response object.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>}
+ */
+export const createCourse = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        const isAdmin = req.user?.role === 'admin';
+
+        const course = await courseModel.create({
+            ...pickCourseData(req.body, isAdmin),
+            ...(!isAdmin && { instructor: String(req.user?._id) }),
+            status: isAdmin ? 'published' : 'draft',
+        });
+        await invalidateCourseSearch();
+
+        res.status(201).json({
+            success: true,
+            course,
+        });
+    }
+    catch (error:any) {
+        return next(error);
+    }
+});
+
+/**
+ * @function updateCourse
+ * @description Function to update an existing course.
+ * It updates the course with the data from the request body, running the schema validators, and sends the updated course in the response.
+ * Instructors can only update the drafts they own, see `getCourseLockError`.
+ * The publication state is not changed by an update, see `submitCourse`, `approveCourse`, `rejectCourse` and `unpublishCourse`.
+ * The cached course searches are invalidated, so the change shows up in the search results right away.
+ * If the course does not exist, it passes a 404 error to the next middleware function.
+ * @param {Request} req - The request object, expected to contain the course ID in the params and the course data in the body.
+ * @param {Response} res - The response object.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>}
+ */
+export const updateCourse = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        const existing = await courseModel.findById(req.params.id);
+
+        if (!existing) {
+            return next(new ErrorHandle("Course not found.", 404));
+        }
+
+        if (!canManageCourse(req.user, existing)) {
+            return next(new ErrorHandle("You can only edit your own courses.", 403, { code: 'NOT_COURSE_OWNER' }));
+        }
+
+        const lockError = getCourseLockError(req.user, existing);
+
+        if (lockError) {
+            return next(lockError);
+        }
+
+        const course = await courseModel.findByIdAndUpdate(
+            req.params.id,
+            { $set: pickCourseData(req.body, req.user?.role === 'admin') },
+            { new: true, runValidators: true }
+        );
+
+        await invalidateCourseSearch();
+
+        res.status(200).json({
+            success: true,
+            course,
+        });
+    }
+    catch (error:any) {
+        return next(error);
+    }
+});
+
+/**
+ * @function deleteCourse
+ * @description Function to delete a course.
+ * Instructors can only delete the drafts they own, since published courses may have been bought.
+ * The cached course searches are invalidated, so the course disappears from the search results right away.
+ * If the course does not exist, it passes a 404 error to the next middleware function.
+ * @param {Request} req - The request object, expected to contain the course ID in the params.
+ * @param {Response} res - The response object.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>}
+ */
+export const deleteCourse = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        const course = await courseModel.findById(req.params.id);
+
+        if (!course) {
+            return next(new ErrorHandle("Course not found.", 404));
+        }
+
+        if (!canManageCourse(req.user, course)) {
+            return next(new ErrorHandle("You can only delete your own courses.", 403, { code: 'NOT_COURSE_OWNER' }));
+        }
+
+        if (course.status !== 'draft' && req.user?.role !== 'admin') {
+            return next(new ErrorHandle("Only draft courses can be deleted.", 409, { code: 'COURSE_NOT_DRAFT' }));
+        }
+
+        await course.deleteOne();
+        await invalidateCourseSearch();
+
+        res.status(200).json({
+            success: true,
+            message: "Course has been deleted.",
+        });
+    }
+    catch (error:any) {
+        return next(error);
+    }
+});
+
+/**
+ * @function getAllCourses
+ * @description Function to list the published courses of the catalogue.
+ * The lesson content, such as video URLs and links, is never included in the list.
+ * @param {Request} req - The request object.
+ * @param {Response} res - The response object.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>}
+ */
+export const getAllCourses = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        const courses = await courseModel.find(publishedCourseFilter)
+            .select(lessonContentFields)
+            .sort({ createdAt: -1 });
+
+        res.status(200).json({
+            success: true,
+            courses,
+        });
+    }
+    catch (error:any) {
+        return next(error);
+    }
+});
+
+/**
+ * @function searchCourses
+ * @description Function to search the course catalogue by keywords, with filters on level, price and rating.
+ * It sends a page of courses, the cursor of the next page, and the facet counts of the keywords.
+ * The lesson content is never included in the results.
+ * @param {Request} req - The request object, expected to contain the search parameters in the query string.
+ * @param {Response} res - The response object.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>}
+ */
+export const searchCourses = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        const params = req.query as unknown as ICourseSearchParams;
+
+        const result = await searchCatalogue({ ...params, limit: Number(params.limit) || 20 });
+
+        res.status(200).json({
+            success: true,
+            ...result,
+        });
+    }
+    catch (error:any) {
+        if (error instanceof InvalidCursorError) {
+            return next(new ErrorHandle(error.message, 400, { code: 'INVALID_CURSOR' }));
+        }
+
+        return next(error);
+    }
+});
+
+/**
+ * @function getSingleCourse
+ * @description Function to get the details of a course.
+ * The lesson content, such as video URLs and links, is only included when the user calling the route has bought the course,
+ * owns it, or is an admin. Everyone else only sees the outline of the sections and lessons.
+ * Courses that are not published are only shown to their instructor and to admins, or to users who bought them before they were unpublished.
+ * @param {Request} req - The request object, expected to contain the course ID in the params and, optionally, the authenticated user.
+ * @param {Response} res - The response object.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>}
+ */
+export const getSingleCourse = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        const course = await courseModel.findById(req.params.id);
+        const canManage = !!course && canManageCourse(req.user, course);
+        const enrolled = isEnrolled(req.user, req.params.id);
+
+        if (!course || (!isPublished(course) && !canManage && !enrolled)) {
+            return next(new ErrorHandle("Course not found.", 404));
+        }
+
+        if (!canManage && !enrolled) {
+            course.sections.forEach(section => section.lessons.forEach(lesson => {
+                lesson.videoUrl = undefined;
+                lesson.video = undefined;
+                lesson.links = [];
+            }));
+        }
+
+        res.status(200).json({
+            success: true,
+            course,
+        });
+    }
+    catch (error:any) {
+        return next(error);
+    }
+});
+
+/**
+ * @function getCoursesForReview
+ * @description Function to list the courses waiting for the approval of an admin, oldest first.
+ * The lesson content is included, so admins can review it.
+ * @param {Request} req - The request object.
+ * @param {Response} res - The response object.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>}
+ */
+export const getCoursesForReview = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        const courses = await courseModel.find({ status: 'review' })
+            .sort({ updatedAt: 1 });
+
+        res.status(200).json({
+            success: true,
+            courses,
+        });
+    }
+    catch (error:any) {
+        return next(error);
+    }
+});
+
+/**
+ * @function submitCourse
+ * @description Function to submit a draft course for review.
+ * The course can no longer be edited by its instructor until an admin has approved or rejected it. The admins are notified.
+ * If the course does not exist, or the user does not own it, it passes a 404 or 403 error to the next middleware function.
+ * If the course is not a draft, it passes a 409 error to the next middleware function.
+ * @param {Request} req - The request object, expected to contain the course ID in the params.
+ * @param {Response} res - The response object.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>}
+ */
+export const submitCourse = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        const existing = await courseModel.findById(req.params.id);
+
+        if (!existing) {
+            return next(new ErrorHandle("Course not found.", 404));
+        }
+
+        if (!canManageCourse(req.user, existing)) {
+            return next(new ErrorHandle("You can only submit your own courses.", 403, { code: 'NOT_COURSE_OWNER' }));
+        }
+
+        const course = await courseModel.findOneAndUpdate(
+            { _id: existing._id, status: 'draft' },
+            { $set: { status: 'review' }, $unset: { reviewNote: 1 } },
+            { new: true }
+        );
+
+        if (!course) {
+            return next(new ErrorHandle("Only draft courses can be submitted for review.", 409, { code: 'COURSE_NOT_DRAFT' }));
+        }
+
+        await createNotification({
+            title: 'Course Review',
+            message: `${req.user?.name} submitted ${course.title} for review.`,
+        });
+
+        res.status(200).json({
+            success: true,
+            course,
+        });
+    }
+    catch (error:any) {
+        return next(error);
+    }
+});
+
+/**
+ * @function approveCourse
+ * @description Function to approve a course in review, which publishes it.
+ * The course shows up in the catalogue and the search results right away, and its instructor is notified.
+ * If the course is not in review, it passes a 409 error to the next middleware function.
+ * @param {Request} req - The request object, expected to contain the course ID in the params.
+ * @param {Response} res - The response object.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>}
+ */
+export const approveCourse = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        const course = await courseModel.findOneAndUpdate(
+            { _id: req.params.id, status: 'review' },
+            { $set: { status: 'published' }, $unset: { reviewNote: 1 } },
+            { new: true }
+        );
+
+        if (!course) {
+            return next(new ErrorHandle("Course not found, or not in review.", 409, { code: 'COURSE_NOT_IN_REVIEW' }));
+        }
+
+        await invalidateCourseSearch();
+
+        if (course.instructor) {
+            await createNotification({
+                title: 'Course Approved',
+                message: `${course.title} has been approved and is now published.`,
+                user: course.instructor,
+            });
+        }
+
+        res.status(200).json({
+            success: true,
+            course,
+        });
+    }
+    catch (error:any) {
+        return next(error);
+    }
+});
+
+/**
+ * @interface IRejectCourseRequest
+ * @description Interface for the reject course request body.
+ * @property {string} reason - Why the course was not approved, shown to the instructor.
+ */
+interface IRejectCourseRequest {
+    reason: string;
+}
+
+/**
+ * @function rejectCourse
+ * @description Function to send a course in review back to draft, with the reason it was not approved.
+ * The instructor is notified, and can edit the course and submit it again.
+ * If the course is not in review, it passes a 409 error to the next middleware function.
+ * @param {Request} req - The request object, expected to contain the course ID in the params and the reason in the body.
+ * @param {Response} res - The response object.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>}
+ */
+export const rejectCourse = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        const { reason } = req.body as IRejectCourseRequest;
+
+        const course = await courseModel.findOneAndUpdate(
+            { _id: req.params.id, status: 'review' },
+            { $set: { status: 'draft', reviewNote: reason } },
+            { new: true }
+        );
+
+        if (!course) {
+            return next(new ErrorHandle("Course not found, or not in review.", 409, { code: 'COURSE_NOT_IN_REVIEW' }));
+        }
+
+        if (course.instructor) {
+            await createNotification({
+                title: 'Course Changes Requested',
+                message: `${course.title} was not approved: ${reason}`,
+                user: course.instructor,
+            });
+        }
+
+        res.status(200).json({
+            success: true,
+            course,
+        });
+    }
+    catch (error:any) {
+        return next(error);
+    }
+});
+
+/**
+ * @function unpublishCourse
+ * @description Function to take a published course out of the catalogue, back to draft.
+ * Users who bought the course keep their access to it. The course disappears from the search results right away.
+ * If the course is not published, it passes a 409 error to the next middleware function.
+ * @param {Request} req - The request object, expected to contain the course ID in the params.
+ * @param {Response} res - The response object.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>}
+ */
+export const unpublishCourse = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        const course = await courseModel.findOneAndUpdate(
+            { _id: req.params.id, ...publishedCourseFilter },
+            { $set: { status: 'draft' } },
+            { new: true }
+        );
+
+        if (!course) {
+            return next(new ErrorHandle("Course not found, or not published.", 409, { code: 'COURSE_NOT_PUBLISHED' }));
+        }
+
+        await invalidateCourseSearch();
+
+        res.status(200).json({
+            success: true,
+            course,
+        });
+    }
+    catch (error:any) {
+        return next(error);
+    }
+});
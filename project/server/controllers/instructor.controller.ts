@@ -0,0 +1,327 @@
+import { Request, Response, NextFunction } from 'express';
+import ErrorHandle from "../utils/ErrorHandle";
+import { CatchAsyncError } from "../middleware/catchAsyncErrors";
+import courseModel from "../models/course.model";
+import instructorApplicationModel from "../models/instructorApplication.model";
+import orderModel from "../models/order.model";
+import userModel from "../models/user.model";
+import { recordAudit } from "../utils/audit";
+import { createNotification } from "../utils/notification";
+import { updateCachedUser } from "../utils/session";
+
+/**
+ * @function getInstructorCourses
+ * @description Function to list the courses owned by the authenticated instructor, in every publication state, newest first.
+ * The note of the last review is included, so instructors know what to change in the courses sent back to draft.
+ * @param {Request} req - The request object.
+ * @param {Response} res - The response object.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>}
+ */
+export const getInstructorCourses = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        const courses = await courseModel.find({ instructor: String(req.user?._id) }).sort({ createdAt: -1 });
+
+        res.status(200).json({
+            success: true,
+            courses,
+        });
+    }
+    catch (error:any) {
+        return next(error);
+    }
+});
+
+/**
+ * @function getInstructorStats
+ * @description Function to report the enrollments and revenue of the courses owned by the authenticated instructor.
+ * Enrollments are the paid orders of each course, and the revenue is the amount charged for them, after the discount of coupons.
+ * Courses without any paid order are included with zero figures.
+ * The report can be limited to the orders created in a date range.
+ * @param {Request} req - The request object, expected to contain the optional date range in the query string.
+ * @param {Response} res - The response object.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>}
+ */
+export const getInstructorStats = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        const { from, to } = req.query;
+
+        const courses = await courseModel.find({ instructor: String(req.user?._id) }).select('title status');
+        const courseIds = courses.map(course => String(course._id));
+
+        const totals = await orderModel.aggregate([
+            {
+                $match: {
+                    courseId: { $in: courseIds },
+                    status: 'paid',
+                    ...((from || to) && {
+                        createdAt: {
+                            ...(from && { $gte: new Date(String(from)) }),
+                            ...(to && { $lte: new Date(String(to)) }),
+                        },
+                    }),
+                },
+            },
+            { $group: { _id: '$courseId', enrollments: { $sum: 1 }, revenue: { $sum: '$amount' }, discount: { $sum: '$discount' } } },
+        ]);
+
+        const stats = courses.map(course => {
+            const total = totals.find(item => item._id === String(course._id));
+
+            return {
+                courseId: course._id,
+                title: course.title,
+                status: course.status,
+                enrollments: total?.enrollments || 0,
+                revenue: total?.revenue || 0,
+                discount: total?.discount || 0,
+            };
+        });
+
+        res.status(200).json({
+            success: true,
+            courses: stats,
+            totals: {
+                enrollments: stats.reduce((sum, course) => sum + course.enrollments, 0),
+                revenue: stats.reduce((sum, course) => sum + course.revenue, 0),
+                discount: stats.reduce((sum, course) => sum + course.discount, 0),
+            },
+        });
+    }
+    catch (error:any) {
+        return next(error);
+    }
+});
+
+/**
+ * @interface IInstructorApplicationRequest
+ * @description Interface for the instructor application request body.
+ * @property {string} motivation - Why the user wants to teach.
+ * @property {string} expertise - The subjects the user wants to teach, and their experience in them.
+ */
+interface IInstructorApplicationRequest {
+    motivation: string;
+    expertise: string;
+}
+
+/**
+ * @function applyForInstructor
+ * @description Function to apply for the instructor role. The admins are notified of the application.
+ * If the user is already an instructor or an admin, or already has a pending application, it passes a 409 error to the next middleware function.
+ * The pending application is also unique in the database, so two concurrent applications cannot both be created.
+ * @param {Request} req - The request object, expected to contain the application in the body.
+ * @param {Response} res - The response object.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>}
+ */
+export const applyForInstructor = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        const { motivation, expertise } = req.body as IInstructorApplicationRequest;
+        const userId = String(req.user?._id);
+
+        if (req.user?.role !== 'user') {
+            return next(new ErrorHandle("You are already an instructor.", 409, { code: 'ALREADY_INSTRUCTOR' }));
+        }
+
+        const pending = await instructorApplicationModel.exists({ userId, status: 'pending' });
+
+        if (pending) {
+            return next(new ErrorHandle("You already have a pending application.", 409, { code: 'APPLICATION_PENDING' }));
+        }
+
+        const application = await instructorApplicationModel.create({ userId, motivation, expertise });
+
+        await createNotification({
+            title: 'Instructor Application',
+            message: `${req.user?.name} applied to become an instructor.`,
+        });
+
+        res.status(201).json({
+            success: true,
+            application,
+        });
+    }
+    catch (error:any) {
+        if (error.code === 11000) {
+            return next(new ErrorHandle("You already have a pending application.", 409, { code: 'APPLICATION_PENDING' }));
+        }
+
+        return next(error);
+    }
+});
+
+/**
+ * @function getMyInstructorApplications
+ * @description Function to list the instructor applications of the authenticated user, newest first, with the notes of the admins.
+ * @param {Request} req - The request object.
+ * @param {Response} res - The response object.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>}
+ */
+export const getMyInstructorApplications = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        const applications = await instructorApplicationModel.find({ userId: String(req.user?._id) }).sort({ createdAt: -1 });
+
+        res.status(200).json({
+            success: true,
+            applications,
+        });
+    }
+    catch (error:any) {
+        return next(error);
+    }
+});
+
+/**
+ * @function getInstructorApplications
+ * @description Function to list the instructor applications, oldest first, with pagination and the name and email of the applicants.
+ * The list can be filtered by the state of the applications.
+ * @param {Request} req - The request object, expected to contain the page, limit and status in the query string.
+ * @param {Response} res - The response object.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>}
+ */
+export const getInstructorApplications = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        const page = Number(req.query.page) || 1;
+        const limit = Number(req.query.limit) || 20;
+        const { status } = req.query;
+
+        const filter: { [key: string]: any } = {};
+
+        if (status) {
+            filter.status = status;
+        }
+
+        const [applications, total] = await Promise.all([
+            instructorApplicationModel.find(filter).sort({ createdAt: 1 }).skip((page - 1) * limit).limit(limit),
+            instructorApplicationModel.countDocuments(filter),
+        ]);
+
+        const users = await userModel.find({ _id: { $in: applications.map(application => application.userId) } }).select('name email');
+
+        res.status(200).json({
+            success: true,
+            applications: applications.map(application => ({
+                ...application.toObject(),
+                user: users.find(user => String(user._id) === application.userId) || null,
+            })),
+            page,
+            limit,
+            total,
+            pages: Math.ceil(total / limit),
+        });
+    }
+    catch (error:any) {
+        return next(error);
+    }
+});
+
+/**
+ * @interface IReviewInstructorApplicationRequest
+ * @description Interface for the approve and reject instructor application request body.
+ * @property {string} [note] - The note of the admin, shown to the applicant.
+ */
+interface IReviewInstructorApplicationRequest {
+    note?: string;
+}
+
+/**
+ * @function approveInstructorApplication
+ * @description Function to approve a pending instructor application, which gives the applicant the instructor role.
+ * The application is closed atomically, so it cannot be approved and rejected at the same time.
+ * The cached user data is updated, so the new role applies to the applicant's next request,
+ * the change is written to the audit log, and the applicant is notified.
+ * If the application is not pending, it passes a 409 error to the next middleware function.
+ * @param {Request} req - The request object, expected to contain the application ID in the params and an optional note in the body.
+ * @param {Response} res - The response object.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>}
+ */
+export const approveInstructorApplication = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        const { note } = req.body as IReviewInstructorApplicationRequest;
+
+        const application = await instructorApplicationModel.findOneAndUpdate(
+            { _id: req.params.applicationId, status: 'pending' },
+            { $set: { status: 'approved', reviewedBy: String(req.user?._id), reviewNote: note, reviewedAt: new Date() } },
+            { new: true }
+        );
+
+        if (!application) {
+            return next(new ErrorHandle("Application not found, or already reviewed.", 409, { code: 'APPLICATION_NOT_PENDING' }));
+        }
+
+        const user = await userModel.findById(application.userId);
+
+        if (user && user.role === 'user') {
+            user.role = 'instructor';
+            await user.save();
+            await updateCachedUser(user);
+
+            await recordAudit({
+                actor: req.user?._id,
+                action: 'user.role.update',
+                target: user._id,
+                targetType: 'User',
+                before: { role: 'user' },
+                after: { role: user.role },
+            });
+
+            await createNotification({
+                title: 'Instructor Application Approved',
+                message: 'Your instructor application has been approved. You can now create courses.',
+                user: user._id,
+            });
+        }
+
+        res.status(200).json({
+            success: true,
+            application,
+        });
+    }
+    catch (error:any) {
+        return next(error);
+    }
+});
+
+/**
+ * @function rejectInstructorApplication
+ * @description Function to reject a pending instructor application, with a note for the applicant, who is notified.
+ * The applicant can apply again.
+ * If the application is not pending, it passes a 409 error to the next middleware function.
+ * @param {Request} req - The request object, expected to contain the application ID in the params and an optional note in the body.
+ * @param {Response} res - The response object.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>}
+ */
+export const rejectInstructorApplication = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        const { note } = req.body as IReviewInstructorApplicationRequest;
+
+        const application = await instructorApplicationModel.findOneAndUpdate(
+            { _id: req.params.applicationId, status: 'pending' },
+            { $set: { status: 'rejected', reviewedBy: String(req.user?._id), reviewNote: note, reviewedAt: new Date() } },
+            { new: true }
+        );
+
+        if (!application) {
+            return next(new ErrorHandle("Application not found, or already reviewed.", 409, { code: 'APPLICATION_NOT_PENDING' }));
+        }
+
+        await createNotification({
+            title: 'Instructor Application Rejected',
+            message: note ? `Your instructor application was not approved: ${note}` : 'Your instructor application was not approved.',
+            user: application.userId,
+        });
+
+        res.status(200).json({
+            success: true,
+            application,
+        });
+    }
+    catch (error:any) {
+        return next(error);
+    }
+});
@@ -0,0 +1,80 @@
+import { Request, Response, NextFunction } from 'express';
+import fs from 'fs';
+import path from 'path';
+import ErrorHandle from "../utils/ErrorHandle";
+import { CatchAsyncError } from "../middleware/catchAsyncErrors";
+import { mailsDir, renderMail } from "../sendMail";
+
+/**
+ * @function listMailTemplates
+ * @description Function to list the names of the templates of the `mails` directory, without the layout partials.
+ * @returns {Promise<string[]>} - The names of the templates, without the `.ejs` extension.
+ */
+const listMailTemplates = async (): Promise<string[]> => {
+    const files = await fs.promises.readdir(mailsDir);
+
+    return files
+        .filter(file => file.endsWith('.ejs'))
+        .map(file => path.basename(file, '.ejs'));
+};
+
+/**
+ * @function getMailTemplates
+ * @description Function to list the email templates that can be previewed.
+ * @param {Request} req - The request object.
+ * @param {Response} res - The response object.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>}
+ */
+export const getMailTemplates = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        res.status(200).json({
+            success: true,
+            templates: await listMailTemplates(),
+        });
+    }
+    catch (error:any) {
+        return next(error);
+    }
+});
+
+/**
+ * @function previewMail
+ * @description Function to render an email template with the sample data of `mails/samples.json`.
+ * The email is rendered in the requested locale, and sent back as HTML, as plain text, or as JSON with its subject and both bodies.
+ * @param {Request} req - The request object, expected to contain the template in the params, and the optional locale and format in the query string.
+ * @param {Response} res - The response object.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>}
+ */
+export const previewMail = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        const { template } = req.params;
+        const { locale, format = 'html' } = req.query as { locale?: string, format?: string };
+
+        if (!(await listMailTemplates()).includes(template)) {
+            return next(new ErrorHandle("Template not found.", 404));
+        }
+
+        const samples = JSON.parse(await fs.promises.readFile(path.join(mailsDir, 'samples.json'), 'utf8'));
+
+        const mail = await renderMail({
+            template: `${template}.ejs`,
+            data: samples[template] || {},
+            locale,
+        });
+
+        if (format === 'json') {
+            res.status(200).json({
+                success: true,
+                ...mail,
+            });
+        }
+        else {
+            res.status(200).type(format).send(format === 'text' ? mail.text : mail.html);
+        }
+    }
+    catch (error:any) {
+        return next(error);
+    }
+});
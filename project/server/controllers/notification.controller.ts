@@ -0,0 +1,118 @@
+import { Request, Response, NextFunction } from 'express';
+import ErrorHandle from "../utils/ErrorHandle";
+import { CatchAsyncError } from "../middleware/catchAsyncErrors";
+import notificationModel from "../models/notification.model";
+import { IUser } from "../models/user.model";
+import { openNotificationStream } from "../utils/notification";
+
+/**
+ * @function visibleTo
+ * @description Function to build the filter of the notifications a user can see.
+ * Users see the notifications sent to them, and admins also see the notifications without a target user.
+ * @param {IUser | undefined} user - The authenticated user.
+ * @returns {object} - The Mongoose filter.
+ */
+const visibleTo = (user: IUser | undefined): object => {
+    if (user?.role === 'admin') {
+        return { user: { $in: [user._id, null] } };
+    }
+
+    return { user: user?._id };
+};
+
+/**
+ * @function getNotifications
+ * @description Function to list the notifications of the authenticated user, newest first, with the number of unread ones.
+ * @param {Request} req - The request object, expected to contain the optional status filter in the query string.
+ * @param {Response} res - The response object.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>}
+ */
+export const getNotifications = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        const filter = req.query.status
+            ? { ...visibleTo(req.user), status: req.query.status }
+            : visibleTo(req.user);
+
+        const [notifications, unread] = await Promise.all([
+            notificationModel.find(filter).sort({ createdAt: -1 }).limit(100),
+            notificationModel.countDocuments({ ...visibleTo(req.user), status: 'unread' }),
+        ]);
+
+        res.status(200).json({
+            success: true,
+            notifications,
+            unread,
+        });
+    }
+    catch (error:any) {
+        return next(error);
+    }
+});
+
+/**
+ * @function markNotificationRead
+ * @description Function to mark a notification of the authenticated user as read.
+ * @param {Request} req - The request object, expected to contain the notification ID in the params.
+ * @param {Response} res - The response object.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>}
+ */
+export const markNotificationRead = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        const notification = await notificationModel.findOneAndUpdate(
+            { _id: req.params.id, ...visibleTo(req.user) },
+            { status: 'read', readAt: new Date() },
+            { new: true }
+        );
+
+        if (!notification) {
+            return next(new ErrorHandle("Notification not found.", 404));
+        }
+
+        res.status(200).json({
+            success: true,
+            notification,
+        });
+    }
+    catch (error:any) {
+        return next(error);
+    }
+});
+
+/**
+ * @function markAllNotificationsRead
+ * @description Function to mark every unread notification of the authenticated user as read.
+ * @param {Request} req - The request object.
+ * @param {Response} res - The response object.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>}
+ */
+export const markAllNotificationsRead = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        const result = await notificationModel.updateMany(
+            { ...visibleTo(req.user), status: 'unread' },
+            { status: 'read', readAt: new Date() }
+        );
+
+        res.status(200).json({
+            success: true,
+            updated: result.modifiedCount,
+        });
+    }
+    catch (error:any) {
+        return next(error);
+    }
+});
+
+/**
+ * @function streamNotifications
+ * @description Function to push the new notifications of the authenticated user in real time, with Server-Sent Events.
+ * The connection stays open until the client closes it, or until the session of the user is revoked.
+ * @param {Request} req - The request object.
+ * @param {Response} res - The response object, kept open to write the events to.
+ * @returns {void}
+ */
+export const streamNotifications = (req: Request, res: Response) => {
+    openNotificationStream(req, res);
+};
@@ -0,0 +1,326 @@
+import { Request, Response, NextFunction } from 'express';
+import ErrorHandle from "../utils/ErrorHandle";
+import { CatchAsyncError } from "../middleware/catchAsyncErrors";
+import orderModel, { IOrder } from "../models/order.model";
+import courseModel, { isPublished } from "../models/course.model";
+import userModel from "../models/user.model";
+import sendMail from "../sendMail";
+import { isEnrolled } from "../utils/course";
+import { FakePaymentProvider, IPaymentEvent, IPaymentIntent, paymentProvider } from "../utils/payment";
+import { updateCachedUser } from "../utils/session";
+import { createNotification } from "../utils/notification";
+import { CouponError, ICouponQuote, checkCoupon, findCoupon, releaseCoupon, reserveCoupon } from "../utils/coupon";
+import { closeOrder, expirePendingOrders, reopenClosedOrder } from "../utils/order";
+
+/**
+ * @function finalizeOrder
+ * @description Function to finalize a paid order by enrolling the user in the course.
+ * The order is marked as paid atomically, so a callback delivered twice only enrolls the user once.
+ * The course is pushed onto the user's courses unless it is already there, and its purchase count is only increased when it was pushed,
+ * so a user who already owned the course is not counted twice. Then the cached user data is updated,
+ * the admins are notified, and a confirmation email is sent. A failure to send the email does not undo the enrollment.
+ * @param {IOrder} order - The order to finalize.
+ * @returns {Promise<void>}
+ */
+const finalizeOrder = async (order: IOrder): Promise<void> => {
+    const paidOrder = await orderModel.findOneAndUpdate(
+        { _id: order._id, status: 'pending' },
+        { status: 'paid', paidAt: new Date() },
+        { new: true }
+    );
+
+    if (!paidOrder) {
+        return;
+    }
+
+    const { modifiedCount } = await userModel.updateOne(
+        { _id: paidOrder.userId, 'courses.courseId': { $ne: paidOrder.courseId } },
+        { $push: { courses: { courseId: paidOrder.courseId } } }
+    );
+
+    const course = modifiedCount
+        ? await courseModel.findByIdAndUpdate(paidOrder.courseId, { $inc: { purchased: 1 } }, { new: true })
+        : await courseModel.findById(paidOrder.courseId);
+    const user = await userModel.findById(paidOrder.userId);
+
+    if (!user || !course) {
+        return;
+    }
+
+    await updateCachedUser(user);
+
+    await createNotification({
+        title: 'New Order',
+        message: `${user.name} has purchased ${course.title}.`,
+    });
+
+    try {
+        await sendMail({
+            email: user.email,
+            template: 'order-confirmation.ejs',
+            data: {
+                user: { name: user.name },
+                course: { title: course.title },
+                order: {
+                    _id: String(paidOrder._id).slice(0, 8),
+                    date: (paidOrder.paidAt as Date).toLocaleDateString(user.locale, {
+                        year: 'numeric',
+                        month: 'long',
+                        day: 'numeric',
+                    }),
+                    amount: paidOrder.amount,
+                    currency: paidOrder.currency,
+                },
+            },
+            locale: user.locale,
+        });
+    }
+    catch (error:any) {
+        console.log(error.message);
+    }
+};
+
+/**
+ * @function handlePaymentEvent
+ * @description Function to apply a verified payment event to the order it is about.
+ * A successful payment finalizes the order, and a failed payment marks a pending order as failed and gives back its coupon.
+ * An order that expired while its payment was still being made, or that was marked as failed before the payment succeeded after all,
+ * such as after a retry at the provider, is taken back before it is finalized, so the user is enrolled.
+ * @param {IPaymentEvent} event - The verified payment event.
+ * @returns {Promise<IOrder | null>} - The order the event is about, or null if there is none.
+ */
+const handlePaymentEvent = async (event: IPaymentEvent): Promise<IOrder | null> => {
+    const order = await orderModel.findOne({ paymentId: event.paymentId, provider: paymentProvider.name });
+
+    if (!order) {
+        return null;
+    }
+
+    if (event.type === 'payment.succeeded') {
+        if (order.status === 'expired' || order.status === 'failed') {
+            await reopenClosedOrder(order);
+        }
+
+        await finalizeOrder(order);
+    }
+
+    if (event.type === 'payment.failed') {
+        await closeOrder(order, 'failed');
+    }
+
+    return order;
+};
+
+/**
+ * @interface ICreateOrderRequest
+ * @description Interface for the create order request body.
+ * @property {string} courseId - The ID of the course to buy.
+ * @property {string} [couponCode] - The code of a coupon to apply.
+ */
+interface ICreateOrderRequest {
+    courseId: string;
+    couponCode?: string;
+}
+
+/**
+ * @function createOrder
+ * @description Function to start the purchase of a course by the authenticated user.
+ * It refuses the purchase if the user already owns the course, or if the course is not published.
+ * Otherwise, it creates a pending order at the current price of the course, which is the sale price during a sale,
+ * and starts a payment for it at the payment provider.
+ * When a coupon code is given, the coupon is checked and a use of it is reserved atomically before the order is created,
+ * so concurrent checkouts cannot go over its limits. The use is given back if the order cannot be created or its payment fails.
+ * The earlier pending orders of the user for the course are expired first, which gives back the coupon uses they reserved,
+ * so a user who abandoned a checkout can start over. Pending orders that are never paid also expire after `ORDER_PENDING_TTL` minutes.
+ * The user is only enrolled once the provider confirms the payment through the webhook route.
+ * Orders that cost nothing, such as free courses, do not need a payment, so they are finalized right away.
+ * @param {Request} req - The request object, expected to contain the course ID in the body.
+ * @param {Response} res - The response object.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>}
+ */
+export const createOrder = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        const { courseId, couponCode } = req.body as ICreateOrderRequest;
+        const userId = String(req.user?._id);
+
+        if (isEnrolled(req.user, courseId)) {
+            return next(new ErrorHandle("You have already purchased this course.", 400));
+        }
+
+        const course = await courseModel.findById(courseId);
+
+        if (!course || !isPublished(course)) {
+            return next(new ErrorHandle("Course not found.", 404));
+        }
+
+        await expirePendingOrders(userId, String(course._id));
+
+        let quote: ICouponQuote = { originalAmount: course.currentPrice, discount: 0, amount: course.currentPrice };
+        const coupon = couponCode ? await findCoupon(couponCode) : null;
+
+        if (coupon) {
+            quote = checkCoupon(coupon, courseId, course.currentPrice);
+            await reserveCoupon(coupon, userId);
+        }
+
+        let order: IOrder;
+
+        try {
+            order = await orderModel.create({
+                courseId: String(course._id),
+                userId,
+                ...quote,
+                ...(coupon && { coupon: { couponId: String(coupon._id), code: coupon.code } }),
+                currency: process.env.PAYMENT_CURRENCY || 'USD',
+                provider: paymentProvider.name,
+            });
+        }
+        catch (error:any) {
+            if (coupon) {
+                await releaseCoupon(String(coupon._id), userId);
+            }
+
+            throw error;
+        }
+
+        if (order.amount === 0) {
+            await finalizeOrder(order);
+
+            res.status(201).json({
+                success: true,
+                order: await orderModel.findById(order._id),
+            });
+            return;
+        }
+
+        let payment: IPaymentIntent;
+
+        try {
+            payment = await paymentProvider.createPayment(order);
+        }
+        catch (error:any) {
+            await closeOrder(order, 'failed');
+            throw error;
+        }
+
+        order.paymentId = payment.paymentId;
+        await order.save();
+
+        res.status(201).json({
+            success: true,
+            order,
+            payment,
+        });
+    }
+    catch (error:any) {
+        if (error instanceof CouponError) {
+            return next(new ErrorHandle(error.message, error.statusCode, { code: error.code }));
+        }
+
+        return next(error);
+    }
+});
+
+/**
+ * @function paymentWebhook
+ * @description Function to receive the signed callbacks of the payment provider.
+ * The signature is checked against the raw request body before anything else, and unsigned or tampered callbacks are rejected.
+ * @param {Request} req - The request object, expected to contain the raw body and the `x-payment-signature` header.
+ * @param {Response} res - The response object.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>}
+ */
+export const paymentWebhook = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        const event = paymentProvider.verifyWebhook(
+            req.rawBody || Buffer.from(''),
+            req.headers['x-payment-signature'] as string | undefined
+        );
+
+        if (!event) {
+            return next(new ErrorHandle("Invalid payment signature.", 401));
+        }
+
+        const order = await handlePaymentEvent(event);
+
+        if (!order) {
+            return next(new ErrorHandle("Order not found.", 404));
+        }
+
+        res.status(200).json({
+            success: true,
+            received: true,
+        });
+    }
+    catch (error:any) {
+        return next(error);
+    }
+});
+
+/**
+ * @function confirmFakePayment
+ * @description Function to complete a payment of the fake payment provider, for development and tests.
+ * It signs a successful payment event with the fake provider and verifies it exactly like the webhook route does,
+ * so the same checks run before the user is enrolled.
+ * @param {Request} req - The request object, expected to contain the payment ID in the params.
+ * @param {Response} res - The response object.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>}
+ */
+export const confirmFakePayment = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        if (!(paymentProvider instanceof FakePaymentProvider) || process.env.NODE_ENV === 'production') {
+            return next(new ErrorHandle("Fake payments are not enabled.", 404));
+        }
+
+        const order = await orderModel.findOne({ paymentId: req.params.paymentId, userId: String(req.user?._id) });
+
+        if (!order) {
+            return next(new ErrorHandle("Order not found.", 404));
+        }
+
+        const { payload, signature } = paymentProvider.signEvent({
+            type: 'payment.succeeded',
+            paymentId: req.params.paymentId,
+        });
+
+        const event = paymentProvider.verifyWebhook(Buffer.from(payload), signature);
+
+        if (!event) {
+            return next(new ErrorHandle("Invalid payment signature.", 401));
+        }
+
+        await handlePaymentEvent(event);
+
+        res.status(200).json({
+            success: true,
+            order: await orderModel.findById(order._id),
+        });
+    }
+    catch (error:any) {
+        return next(error);
+    }
+});
+
+/**
+ * @function getUserOrders
+ * @description Function to list the orders of the authenticated user, newest first.
+ * @param {Request} req - The request object.
+ * @param {Response} res - The response object.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>}
+ */
+export const getUserOrders = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        const orders = await orderModel.find({ userId: String(req.user?._id) }).sort({ createdAt: -1 });
+
+        res.status(200).json({
+            success: true,
+            orders,
+        });
+    }
+    catch (error:any) {
+        return next(error);
+    }
+});
@@ -0,0 +1,166 @@
+import { Request, Response, NextFunction } from 'express';
+import ErrorHandle from "../utils/ErrorHandle";
+import { CatchAsyncError } from "../middleware/catchAsyncErrors";
+import courseModel from "../models/course.model";
+import progressModel, { IProgress } from "../models/progress.model";
+import { isEnrolled } from "../utils/course";
+import { findOrCreateProgress, getLessonIds, getQuizIds, updateProgressPercentage } from "../utils/progress";
+import { issueCertificate } from "../utils/certificate";
+
+/**
+ * @interface ILessonProgressRequest
+ * @description Interface for the lesson progress request body.
+ * @property {number} [position] - The playback position in the lesson video, in seconds.
+ * @property {boolean} [completed] - Whether the lesson has been watched.
+ */
+interface ILessonProgressRequest {
+    position?: number;
+    completed?: boolean;
+}
+
+/**
+ * @function updateLessonProgress
+ * @description Function to record the progress of the authenticated user in a lesson.
+ * It checks that the user owns the course and that the lesson belongs to it, and creates the progress of the course on the first update.
+ * Then, it saves the last playback position and, once the lesson has been watched, marks it as completed.
+ * A completed lesson stays completed, even if the user watches it again from the start.
+ * The entry of the lesson is added and updated atomically, so concurrent updates of other lessons of the course are not lost.
+ * Finally, it recalculates the completion percentage of the course, including its quizzes, marking the course as complete when it reaches 100%.
+ * When the course is complete, the certificate of the user is issued and emailed in the background,
+ * so the response does not wait for the PDF to be rendered. A failure to issue it does not undo the progress,
+ * and the certificate is issued again on the next update, since `issueCertificate` deletes a certificate it could not email.
+ * @param {Request} req - The request object, expected to contain the course and lesson IDs in the params and the progress in the body.
+ * @param {Response} res - The response object.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>}
+ */
+export const updateLessonProgress = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        const { courseId, lessonId } = req.params;
+        const { position, completed } = req.body as ILessonProgressRequest;
+        const userId = String(req.user?._id);
+
+        if (!isEnrolled(req.user, courseId)) {
+            return next(new ErrorHandle("You are not enrolled in this course.", 403));
+        }
+
+        const course = await courseModel.findById(courseId);
+
+        if (!course) {
+            return next(new ErrorHandle("Course not found.", 404));
+        }
+
+        if (!getLessonIds(course).includes(lessonId)) {
+            return next(new ErrorHandle("Lesson not found.", 404));
+        }
+
+        await findOrCreateProgress(userId, courseId);
+
+        await progressModel.updateOne(
+            { userId, courseId, 'lessons.lessonId': { $ne: lessonId } },
+            { $push: { lessons: { lessonId } } }
+        );
+
+        const updated = await progressModel.findOneAndUpdate(
+            { userId, courseId },
+            {
+                $set: {
+                    ...(position !== undefined && { 'lessons.$[lesson].position': position }),
+                    ...(completed && { 'lessons.$[lesson].completed': true }),
+                    'lessons.$[lesson].updatedAt': new Date(),
+                },
+            },
+            { arrayFilters: [{ 'lesson.lessonId': lessonId }], new: true }
+        ) as IProgress;
+
+        const progress = await updateProgressPercentage(updated, course, await getQuizIds(course));
+
+        if (progress.completedAt && req.user) {
+            issueCertificate(req.user, course, progress.completedAt as Date).catch((error:any) => {
+                console.log(error.message);
+            });
+        }
+
+        res.status(200).json({
+            success: true,
+            progress,
+        });
+    }
+    catch (error:any) {
+        return next(error);
+    }
+});
+
+/**
+ * @function getCourseProgress
+ * @description Function to get the progress of the authenticated user in a course.
+ * A user who owns the course but has not started it gets an empty progress.
+ * @param {Request} req - The request object, expected to contain the course ID in the params.
+ * @param {Response} res - The response object.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>}
+ */
+export const getCourseProgress = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        const { courseId } = req.params;
+        const userId = String(req.user?._id);
+
+        if (!isEnrolled(req.user, courseId)) {
+            return next(new ErrorHandle("You are not enrolled in this course.", 403));
+        }
+
+        const progress = await progressModel.findOne({ userId, courseId });
+
+        res.status(200).json({
+            success: true,
+            progress: progress || { userId, courseId, lessons: [], passedQuizzes: [], percentage: 0 },
+        });
+    }
+    catch (error:any) {
+        return next(error);
+    }
+});
+
+/**
+ * @function getProgressDashboard
+ * @description Function to get the progress of the authenticated user across all of their courses.
+ * For each course in the user's courses, it returns the course title and thumbnail, the completion percentage,
+ * the completion date, and the last lesson the user watched, so the frontend can offer to resume it.
+ * @param {Request} req - The request object.
+ * @param {Response} res - The response object.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>}
+ */
+export const getProgressDashboard = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        const userId = String(req.user?._id);
+        const courseIds = (req.user?.courses || []).map(course => String(course.courseId));
+
+        const courses = await courseModel.find({ _id: { $in: courseIds } }).select('title thumbnail');
+        const progresses = await progressModel.find({ userId, courseId: { $in: courseIds } });
+
+        const dashboard = courses.map(course => {
+            const progress = progresses.find(item => item.courseId === String(course._id));
+            const lastLesson = progress?.lessons.slice().sort(
+                (a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
+            )[0];
+
+            return {
+                courseId: course._id,
+                title: course.title,
+                thumbnail: course.thumbnail,
+                percentage: progress?.percentage || 0,
+                completedAt: progress?.completedAt || null,
+                lastLesson: lastLesson ? { lessonId: lastLesson.lessonId, position: lastLesson.position } : null,
+            };
+        });
+
+        res.status(200).json({
+            success: true,
+            courses: dashboard,
+        });
+    }
+    catch (error:any) {
+        return next(error);
+    }
+});
@@ -0,0 +1,195 @@
+import { Request, Response, NextFunction } from 'express';
+import ErrorHandle from "../utils/ErrorHandle";
+import { CatchAsyncError } from "../middleware/catchAsyncErrors";
+import courseModel from "../models/course.model";
+import questionModel from "../models/question.model";
+import userModel, { IUser } from "../models/user.model";
+import sendMail from "../sendMail";
+import { findLesson, hasCourseAccess } from "../utils/course";
+import { createNotification } from "../utils/notification";
+
+/**
+ * @function canAccessThreads
+ * @description Function to check whether a user can read and write the question threads of a course.
+ * Threads are limited to users enrolled in the course, and to its instructor and admins, who answer the questions.
+ * @param {IUser | undefined} user - The authenticated user.
+ * @param {string} courseId - The ID of the course.
+ * @returns {Promise<boolean>} - Whether the user can access the threads.
+ */
+const canAccessThreads = async (user: IUser | undefined, courseId: string): Promise<boolean> => {
+    return hasCourseAccess(user, courseId);
+};
+
+/**
+ * @function getLessonQuestions
+ * @description Function to list the questions asked under a lesson, newest first, with their replies.
+ * @param {Request} req - The request object, expected to contain the course and lesson IDs in the params.
+ * @param {Response} res - The response object.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>}
+ */
+export const getLessonQuestions = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        const { id, lessonId } = req.params;
+
+        if (!await canAccessThreads(req.user, id)) {
+            return next(new ErrorHandle("You are not enrolled in this course.", 403));
+        }
+
+        const questions = await questionModel.find({ courseId: id, lessonId })
+            .populate('user', 'name avatar role')
+            .populate('replies.user', 'name avatar role')
+            .sort({ createdAt: -1 });
+
+        res.status(200).json({
+            success: true,
+            questions,
+        });
+    }
+    catch (error:any) {
+        return next(error);
+    }
+});
+
+/**
+ * @interface IAddQuestionRequest
+ * @description Interface for the add question request body.
+ * @property {string} question - The text of the question.
+ */
+interface IAddQuestionRequest {
+    question: string;
+}
+
+/**
+ * @function addQuestion
+ * @description Function to ask a question under a lesson of a course.
+ * It checks that the user is enrolled in the course and that the lesson belongs to it, then notifies the admins and the instructor of the course.
+ * @param {Request} req - The request object, expected to contain the course and lesson IDs in the params and the question in the body.
+ * @param {Response} res - The response object.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>}
+ */
+export const addQuestion = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        const { id, lessonId } = req.params;
+        const { question } = req.body as IAddQuestionRequest;
+
+        if (!await canAccessThreads(req.user, id)) {
+            return next(new ErrorHandle("You are not enrolled in this course.", 403));
+        }
+
+        const course = await courseModel.findById(id);
+
+        if (!course || !findLesson(course, lessonId)) {
+            return next(new ErrorHandle("Lesson not found.", 404));
+        }
+
+        const newQuestion = await questionModel.create({
+            courseId: id,
+            lessonId,
+            user: req.user?._id,
+            question,
+        });
+
+        await createNotification({
+            title: 'New Question',
+            message: `${req.user?.name} asked a question in ${course.title}.`,
+        });
+
+        if (course.instructor) {
+            await createNotification({
+                title: 'New Question',
+                message: `${req.user?.name} asked a question in ${course.title}.`,
+                user: course.instructor,
+            });
+        }
+
+        res.status(201).json({
+            success: true,
+            question: newQuestion,
+        });
+    }
+    catch (error:any) {
+        return next(error);
+    }
+});
+
+/**
+ * @interface IAddReplyRequest
+ * @description Interface for the add reply request body.
+ * @property {string} answer - The text of the reply.
+ */
+interface IAddReplyRequest {
+    answer: string;
+}
+
+/**
+ * @function addReply
+ * @description Function to reply to a question of a course.
+ * It checks that the user can access the threads of the course, then adds the reply to the question.
+ * When someone other than the author of the question replies, the author is notified in the application and by email.
+ * A failure to send the email does not undo the reply.
+ * @param {Request} req - The request object, expected to contain the course and question IDs in the params and the reply in the body.
+ * @param {Response} res - The response object.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>}
+ */
+export const addReply = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        const { id, questionId } = req.params;
+        const { answer } = req.body as IAddReplyRequest;
+
+        if (!await canAccessThreads(req.user, id)) {
+            return next(new ErrorHandle("You are not enrolled in this course.", 403));
+        }
+
+        const question = await questionModel.findOne({ _id: questionId, courseId: id });
+
+        if (!question) {
+            return next(new ErrorHandle("Question not found.", 404));
+        }
+
+        question.replies.push({ user: req.user?._id, answer });
+        await question.save();
+
+        if (String(question.user) !== String(req.user?._id)) {
+            const author = await userModel.findById(question.user);
+            const course = await courseModel.findById(id);
+            const lesson = course && findLesson(course, question.lessonId);
+
+            if (author && course && lesson) {
+                await createNotification({
+                    title: 'New Reply',
+                    message: `${req.user?.name} replied to your question in ${course.title}.`,
+                    user: author._id,
+                });
+
+                try {
+                    await sendMail({
+                        email: author.email,
+                        template: 'question-reply.ejs',
+                        data: {
+                            user: { name: author.name },
+                            course: { title: course.title },
+                            lesson: { title: lesson.title },
+                            question: question.question,
+                            reply: { name: req.user?.name, answer },
+                        },
+                        locale: author.locale,
+                    });
+                }
+                catch (error:any) {
+                    console.log(error.message);
+                }
+            }
+        }
+
+        res.status(201).json({
+            success: true,
+            question,
+        });
+    }
+    catch (error:any) {
+        return next(error);
+    }
+});
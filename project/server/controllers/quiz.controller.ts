@@ -0,0 +1,453 @@
+import { Request, Response, NextFunction } from 'express';
+import ErrorHandle from "../utils/ErrorHandle";
+import { CatchAsyncError } from "../middleware/catchAsyncErrors";
+import courseModel from "../models/course.model";
+import quizModel, { IQuiz, quizAnswerFields } from "../models/quiz.model";
+import quizAttemptModel, { IQuizAnswer } from "../models/quizAttempt.model";
+import { canManageCourse, getCourseLockError, hasCourseAccess, isEnrolled } from "../utils/course";
+import { expireAttempts, gradeQuiz, quizSubmitGrace, recordQuizPass } from "../utils/quiz";
+
+/**
+ * @interface IQuizRequest
+ * @description Interface for the create and update quiz request body, see IQuiz.
+ */
+interface IQuizRequest {
+    sectionId?: string;
+    title?: string;
+    description?: string;
+    questions?: IQuiz['questions'];
+    passingScore?: number;
+    maxAttempts?: number;
+    timeLimit?: number;
+}
+
+/**
+ * @function createQuiz
+ * @description Function to create a quiz in a section of a course.
+ * It checks that the user can manage the course, that the course can be changed (see `getCourseLockError`), and that the section belongs to it, then creates the quiz with the data from the request body.
+ * If the questions cannot be answered correctly, such as a multiple-choice question without a correct option,
+ * the Mongoose validation error is passed to the next middleware function.
+ * @param {Request} req - The request object, expected to contain the course ID in the params and the quiz data in the body.
+ * @param {Response} res - The response object.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>}
+ */
+export const createQuiz = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        const { id } = req.params;
+        const data = req.body as IQuizRequest;
+
+        const course = await courseModel.findById(id);
+
+        if (!course) {
+            return next(new ErrorHandle("Course not found.", 404));
+        }
+
+        if (!canManageCourse(req.user, course)) {
+            return next(new ErrorHandle("You can only add quizzes to your own courses.", 403, { code: 'NOT_COURSE_OWNER' }));
+        }
+
+        const lockError = getCourseLockError(req.user, course);
+
+        if (lockError) {
+            return next(lockError);
+        }
+
+        if (!course.sections.some(section => String(section._id) === data.sectionId)) {
+            return next(new ErrorHandle("Section not found.", 404));
+        }
+
+        const quiz = await quizModel.create({ ...data, courseId: id });
+
+        res.status(201).json({
+            success: true,
+            quiz,
+        });
+    }
+    catch (error:any) {
+        return next(error);
+    }
+});
+
+/**
+ * @function updateQuiz
+ * @description Function to update a quiz of a course the user can manage, while the course can be changed (see `getCourseLockError`).
+ * The quiz is loaded with its answers, so questions that are not changed are validated and kept as they are.
+ * When the quiz is moved to another section, it checks that the section belongs to the course.
+ * @param {Request} req - The request object, expected to contain the quiz ID in the params and the quiz data in the body.
+ * @param {Response} res - The response object.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>}
+ */
+export const updateQuiz = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        const data = req.body as IQuizRequest;
+
+        const quiz = await quizModel.findById(req.params.quizId).select(quizAnswerFields);
+
+        if (!quiz) {
+            return next(new ErrorHandle("Quiz not found.", 404));
+        }
+
+        const course = await courseModel.findById(quiz.courseId);
+
+        if (!course || !canManageCourse(req.user, course)) {
+            return next(new ErrorHandle("You can only edit the quizzes of your own courses.", 403, { code: 'NOT_COURSE_OWNER' }));
+        }
+
+        const lockError = getCourseLockError(req.user, course);
+
+        if (lockError) {
+            return next(lockError);
+        }
+
+        if (data.sectionId && data.sectionId !== quiz.sectionId) {
+            if (!course.sections.some(section => String(section._id) === data.sectionId)) {
+                return next(new ErrorHandle("Section not found.", 404));
+            }
+        }
+
+        quiz.set(data);
+        await quiz.save();
+
+        res.status(200).json({
+            success: true,
+            quiz,
+        });
+    }
+    catch (error:any) {
+        return next(error);
+    }
+});
+
+/**
+ * @function deleteQuiz
+ * @description Function to delete a quiz of a course the user can manage, with the attempts of every user,
+ * while the course can be changed (see `getCourseLockError`).
+ * A deleted quiz no longer counts toward the completion of the course, but courses that were already completed stay completed.
+ * @param {Request} req - The request object, expected to contain the quiz ID in the params.
+ * @param {Response} res - The response object.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>}
+ */
+export const deleteQuiz = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        const quiz = await quizModel.findById(req.params.quizId);
+
+        if (!quiz) {
+            return next(new ErrorHandle("Quiz not found.", 404));
+        }
+
+        const course = await courseModel.findById(quiz.courseId).select('instructor status');
+
+        if (!course || !canManageCourse(req.user, course)) {
+            return next(new ErrorHandle("You can only delete the quizzes of your own courses.", 403, { code: 'NOT_COURSE_OWNER' }));
+        }
+
+        const lockError = getCourseLockError(req.user, course);
+
+        if (lockError) {
+            return next(lockError);
+        }
+
+        await quiz.deleteOne();
+        await quizAttemptModel.deleteMany({ quizId: String(quiz._id) });
+
+        res.status(200).json({
+            success: true,
+            message: "Quiz has been deleted.",
+        });
+    }
+    catch (error:any) {
+        return next(error);
+    }
+});
+
+/**
+ * @function getCourseQuizzes
+ * @description Function to list the quizzes of a course, without their answers, to its learners and its instructor.
+ * @param {Request} req - The request object, expected to contain the course ID in the params.
+ * @param {Response} res - The response object.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>}
+ */
+export const getCourseQuizzes = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        const { id } = req.params;
+
+        if (!await hasCourseAccess(req.user, id)) {
+            return next(new ErrorHandle("You are not enrolled in this course.", 403, { code: 'NOT_ENROLLED' }));
+        }
+
+        const quizzes = await quizModel.find({ courseId: id }).sort({ createdAt: 1 });
+
+        res.status(200).json({
+            success: true,
+            quizzes,
+        });
+    }
+    catch (error:any) {
+        return next(error);
+    }
+});
+
+/**
+ * @function getQuiz
+ * @description Function to get a quiz, without its answers, for the learners and the instructor of its course.
+ * @param {Request} req - The request object, expected to contain the quiz ID in the params.
+ * @param {Response} res - The response object.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>}
+ */
+export const getQuiz = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        const quiz = await quizModel.findById(req.params.quizId);
+
+        if (!quiz) {
+            return next(new ErrorHandle("Quiz not found.", 404));
+        }
+
+        if (!await hasCourseAccess(req.user, quiz.courseId)) {
+            return next(new ErrorHandle("You are not enrolled in this course.", 403, { code: 'NOT_ENROLLED' }));
+        }
+
+        res.status(200).json({
+            success: true,
+            quiz,
+        });
+    }
+    catch (error:any) {
+        return next(error);
+    }
+});
+
+/**
+ * @function getQuizAnswers
+ * @description Function to get a quiz with its correct answers and explanations.
+ * It is protected by the `hasSubmittedQuiz` middleware, which only lets through learners who have submitted the quiz and passed it
+ * or used all their attempts, the instructor of the course, and admins.
+ * @param {Request} req - The request object, expected to contain the quiz ID in the params.
+ * @param {Response} res - The response object.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>}
+ */
+export const getQuizAnswers = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        const quiz = await quizModel.findById(req.params.quizId).select(quizAnswerFields);
+
+        if (!quiz) {
+            return next(new ErrorHandle("Quiz not found.", 404));
+        }
+
+        res.status(200).json({
+            success: true,
+            quiz,
+        });
+    }
+    catch (error:any) {
+        return next(error);
+    }
+});
+
+/**
+ * @function startQuizAttempt
+ * @description Function to start an attempt at a quiz.
+ * If the user already has an attempt in progress, it is sent back instead of starting a new one,
+ * including when it was started by a concurrent request, which the unique index of the attempts in progress rejects.
+ * Otherwise, it checks that the user has attempts left, and starts a new attempt, which expires after the time limit of the quiz.
+ * The quiz is sent with the attempt, without its answers.
+ * @param {Request} req - The request object, expected to contain the quiz ID in the params.
+ * @param {Response} res - The response object.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>}
+ */
+export const startQuizAttempt = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        const quiz = await quizModel.findById(req.params.quizId);
+
+        if (!quiz) {
+            return next(new ErrorHandle("Quiz not found.", 404));
+        }
+
+        if (!isEnrolled(req.user, quiz.courseId)) {
+            return next(new ErrorHandle("You are not enrolled in this course.", 403, { code: 'NOT_ENROLLED' }));
+        }
+
+        const quizId = String(quiz._id);
+        const userId = String(req.user?._id);
+
+        await expireAttempts(quizId, userId);
+
+        const current = await quizAttemptModel.findOne({ quizId, userId, status: 'in_progress' });
+
+        if (current) {
+            res.status(200).json({
+                success: true,
+                attempt: current,
+                quiz,
+            });
+            return;
+        }
+
+        const attempts = await quizAttemptModel.countDocuments({ quizId, userId });
+
+        if (quiz.maxAttempts && attempts >= quiz.maxAttempts) {
+            return next(new ErrorHandle("You have no attempts left for this quiz.", 403, { code: 'QUIZ_ATTEMPTS_EXHAUSTED' }));
+        }
+
+        const startedAt = new Date();
+
+        let attempt;
+
+        try {
+            attempt = await quizAttemptModel.create({
+                quizId,
+                userId,
+                courseId: quiz.courseId,
+                startedAt,
+                expiresAt: quiz.timeLimit ? new Date(startedAt.getTime() + quiz.timeLimit * 60 * 1000) : undefined,
+            });
+        }
+        catch (error:any) {
+            if (error.code !== 11000) {
+                throw error;
+            }
+
+            // A concurrent request of the same user started an attempt first, which is sent back instead.
+            const started = await quizAttemptModel.findOne({ quizId, userId, status: 'in_progress' });
+
+            if (!started) {
+                throw error;
+            }
+
+            res.status(200).json({
+                success: true,
+                attempt: started,
+                quiz,
+            });
+            return;
+        }
+
+        res.status(201).json({
+            success: true,
+            attempt,
+            quiz,
+        });
+    }
+    catch (error:any) {
+        return next(error);
+    }
+});
+
+/**
+ * @interface ISubmitQuizRequest
+ * @description Interface for the submit quiz attempt request body.
+ * @property {IQuizAnswer[]} answers - The answers of the user. Questions without an answer are graded as incorrect.
+ */
+interface ISubmitQuizRequest {
+    answers: IQuizAnswer[];
+}
+
+/**
+ * @function submitQuizAttempt
+ * @description Function to submit an attempt at a quiz, and grade it.
+ * An attempt can only be submitted once, and before its time limit runs out, with a short grace period for latency.
+ * A late attempt is closed and graded as failed.
+ * The answers are graded on the server against the answers of the quiz, which are never sent to the client before submission.
+ * When the user passes, the quiz counts toward the completion of the course.
+ * @param {Request} req - The request object, expected to contain the quiz and attempt IDs in the params and the answers in the body.
+ * @param {Response} res - The response object.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>}
+ */
+export const submitQuizAttempt = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        const { quizId, attemptId } = req.params;
+        const { answers } = req.body as ISubmitQuizRequest;
+        const userId = String(req.user?._id);
+
+        const attempt = await quizAttemptModel.findOne({ _id: attemptId, quizId, userId });
+
+        if (!attempt) {
+            return next(new ErrorHandle("Attempt not found.", 404));
+        }
+
+        if (attempt.status !== 'in_progress') {
+            return next(new ErrorHandle("This attempt has already been submitted.", 409, { code: 'QUIZ_ATTEMPT_CLOSED' }));
+        }
+
+        if (attempt.expiresAt && Date.now() > attempt.expiresAt.getTime() + quizSubmitGrace * 1000) {
+            await expireAttempts(quizId, userId);
+            return next(new ErrorHandle("The time limit of this attempt has run out.", 409, { code: 'QUIZ_ATTEMPT_EXPIRED' }));
+        }
+
+        const quiz = await quizModel.findById(quizId).select(quizAnswerFields);
+
+        if (!quiz) {
+            return next(new ErrorHandle("Quiz not found.", 404));
+        }
+
+        const grade = gradeQuiz(quiz, answers);
+
+        const submitted = await quizAttemptModel.findOneAndUpdate(
+            { _id: attempt._id, status: 'in_progress' },
+            { $set: { ...grade, answers, status: 'submitted', submittedAt: new Date() } },
+            { new: true }
+        );
+
+        if (!submitted) {
+            return next(new ErrorHandle("This attempt has already been submitted.", 409, { code: 'QUIZ_ATTEMPT_CLOSED' }));
+        }
+
+        const progress = grade.passed && req.user ? await recordQuizPass(req.user, quiz) : null;
+
+        res.status(200).json({
+            success: true,
+            attempt: submitted,
+            ...(progress && { progress }),
+        });
+    }
+    catch (error:any) {
+        return next(error);
+    }
+});
+
+/**
+ * @function getQuizAttempts
+ * @description Function to list the attempts of the authenticated user at a quiz, newest first, with their grades.
+ * It also sends the number of attempts the user has left, or null if the quiz has no limit.
+ * @param {Request} req - The request object, expected to contain the quiz ID in the params.
+ * @param {Response} res - The response object.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>}
+ */
+export const getQuizAttempts = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        const quiz = await quizModel.findById(req.params.quizId).select('courseId maxAttempts');
+
+        if (!quiz) {
+            return next(new ErrorHandle("Quiz not found.", 404));
+        }
+
+        if (!isEnrolled(req.user, quiz.courseId)) {
+            return next(new ErrorHandle("You are not enrolled in this course.", 403, { code: 'NOT_ENROLLED' }));
+        }
+
+        const quizId = String(quiz._id);
+        const userId = String(req.user?._id);
+
+        await expireAttempts(quizId, userId);
+
+        const attempts = await quizAttemptModel.find({ quizId, userId }).sort({ createdAt: -1 });
+
+        res.status(200).json({
+            success: true,
+            attempts,
+            attemptsLeft: quiz.maxAttempts ? Math.max(quiz.maxAttempts - attempts.length, 0) : null,
+            passed: attempts.some(attempt => attempt.passed),
+        });
+    }
+    catch (error:any) {
+        return next(error);
+    }
+});
@@ -0,0 +1,111 @@
+import { Request, Response, NextFunction } from 'express';
+import mongoose from "mongoose";
+import ErrorHandle from "../utils/ErrorHandle";
+import { CatchAsyncError } from "../middleware/catchAsyncErrors";
+import courseModel from "../models/course.model";
+import reviewModel from "../models/review.model";
+import { isEnrolled } from "../utils/course";
+
+/**
+ * @function updateCourseRating
+ * @description Function to recalculate the average rating and the number of reviews of a course.
+ * It is called every time a review is added, so the course always carries its running average.
+ * @param {string} courseId - The ID of the course.
+ * @returns {Promise<void>}
+ */
+const updateCourseRating = async (courseId: string): Promise<void> => {
+    const [stats] = await reviewModel.aggregate([
+        { $match: { courseId } },
+        { $group: { _id: '$courseId', ratings: { $avg: '$rating' }, reviewCount: { $sum: 1 } } },
+    ]);
+
+    await courseModel.updateOne({ _id: new mongoose.Types.ObjectId(courseId) }, {
+        ratings: stats ? Math.round(stats.ratings * 10) / 10 : 0,
+        reviewCount: stats ? stats.reviewCount : 0,
+    });
+};
+
+/**
+ * @function getCourseReviews
+ * @description Function to list the reviews of a course, newest first.
+ * @param {Request} req - The request object, expected to contain the course ID in the params.
+ * @param {Response} res - The response object.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>}
+ */
+export const getCourseReviews = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        const reviews = await reviewModel.find({ courseId: req.params.id })
+            .populate('user', 'name avatar')
+            .sort({ createdAt: -1 });
+
+        res.status(200).json({
+            success: true,
+            reviews,
+        });
+    }
+    catch (error:any) {
+        return next(error);
+    }
+});
+
+/**
+ * @interface IAddReviewRequest
+ * @description Interface for the add review request body.
+ * @property {number} rating - The rating, from 1 to 5.
+ * @property {string} comment - The comment of the review.
+ */
+interface IAddReviewRequest {
+    rating: number;
+    comment: string;
+}
+
+/**
+ * @function addReview
+ * @description Function to review a course.
+ * Only users enrolled in the course can review it, and each user can only review a course once.
+ * After the review is saved, the average rating of the course is recalculated.
+ * @param {Request} req - The request object, expected to contain the course ID in the params and the review in the body.
+ * @param {Response} res - The response object.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>}
+ */
+export const addReview = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        const { id } = req.params;
+        const { rating, comment } = req.body as IAddReviewRequest;
+
+        if (!isEnrolled(req.user, id)) {
+            return next(new ErrorHandle("You are not enrolled in this course.", 403));
+        }
+
+        const course = await courseModel.findById(id);
+
+        if (!course) {
+            return next(new ErrorHandle("Course not found.", 404));
+        }
+
+        const existReview = await reviewModel.findOne({ courseId: id, user: req.user?._id });
+
+        if (existReview) {
+            return next(new ErrorHandle("You have already reviewed this course.", 400));
+        }
+
+        const review = await reviewModel.create({
+            courseId: id,
+            user: req.user?._id,
+            rating,
+            comment,
+        });
+
+        await updateCourseRating(id);
+
+        res.status(201).json({
+            success: true,
+            review,
+        });
+    }
+    catch (error:any) {
+        return next(error);
+    }
+});
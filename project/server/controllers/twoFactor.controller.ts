@@ -0,0 +1,230 @@
+import { Request, Response, NextFunction } from 'express';
+import ErrorHandle from "../utils/ErrorHandle";
+import { CatchAsyncError } from "../middleware/catchAsyncErrors";
+import userModel, { IUser } from "../models/user.model";
+import { redis } from "../utils/redis";
+import { sendToken } from "../utils/jwt";
+import { updateCachedUser } from "../utils/session";
+import {
+    clearLoginChallenge,
+    enrollmentExpire,
+    enrollmentKey,
+    generateRecoveryCodes,
+    generateTotpSecret,
+    getLoginChallenge,
+    getProvisioningUri,
+    hashRecoveryCode,
+    verifyTotp
+} from "../utils/twoFactor";
+
+/**
+ * @function checkSecondFactor
+ * @description Function to check a second factor of a user who enabled two-factor authentication.
+ * A 6-digit code is checked against the authenticator app, and anything else is checked as a recovery code.
+ * A recovery code is removed from the user when it is used, in the same update that matches it, so it can only be used once.
+ * @param {IUser} user - The user, loaded with the secret of the authenticator app.
+ * @param {string} code - The code entered by the user.
+ * @returns {Promise<boolean>} - Whether the code is valid.
+ */
+const checkSecondFactor = async (user: IUser, code: string): Promise<boolean> => {
+    if (/^\d{6}$/.test(code)) {
+        return !!user.twoFactor.secret && verifyTotp(String(user._id), user.twoFactor.secret, code);
+    }
+
+    const hash = hashRecoveryCode(code);
+
+    const result = await userModel.updateOne(
+        { _id: user._id, 'twoFactor.recoveryCodes': hash },
+        { $pull: { 'twoFactor.recoveryCodes': hash } }
+    );
+
+    return result.modifiedCount === 1;
+};
+
+/**
+ * @function setupTwoFactor
+ * @description Function to start the enrollment of the authenticated user in two-factor authentication.
+ * It generates a new secret, kept in Redis until the user confirms it with a first code,
+ * and sends it with its `otpauth://` provisioning URI, which the client shows as a QR code for the authenticator app.
+ * @param {Request} req - The request object.
+ * @param {Response} res - The response object.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>}
+ */
+export const setupTwoFactor = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        const user = req.user as IUser;
+
+        if (user.twoFactor?.enabled) {
+            return next(new ErrorHandle("Two-factor authentication is already enabled.", 400));
+        }
+
+        const secret = generateTotpSecret();
+
+        await redis.set(enrollmentKey(String(user._id)), secret, 'EX', enrollmentExpire);
+
+        res.status(200).json({
+            success: true,
+            secret,
+            otpauthUrl: getProvisioningUri(secret, user.email),
+            expiresIn: enrollmentExpire,
+        });
+    }
+    catch (error:any) {
+        return next(error);
+    }
+});
+
+/**
+ * @interface ITwoFactorCodeRequest
+ * @description Interface for the request body of the two-factor routes.
+ * @property {string} code - A code of the authenticator app, or a recovery code where allowed.
+ */
+interface ITwoFactorCodeRequest {
+    code: string;
+}
+
+/**
+ * @function enableTwoFactor
+ * @description Function to finish the enrollment of the authenticated user in two-factor authentication.
+ * It checks a first code of the authenticator app against the pending secret, then enables two-factor authentication
+ * and generates the recovery codes. The recovery codes are only stored hashed, so this is the only time they are sent.
+ * @param {Request} req - The request object, expected to contain the code in the body.
+ * @param {Response} res - The response object.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>}
+ */
+export const enableTwoFactor = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        const { code } = req.body as ITwoFactorCodeRequest;
+        const userId = String(req.user?._id);
+
+        const secret = await redis.get(enrollmentKey(userId));
+
+        if (!secret) {
+            return next(new ErrorHandle("Two-factor setup has expired. Please start again.", 400));
+        }
+
+        if (!(await verifyTotp(userId, secret, code))) {
+            return next(new ErrorHandle("Invalid two-factor code.", 400, { code: 'INVALID_TWO_FACTOR_CODE' }));
+        }
+
+        const user = await userModel.findById(userId);
+
+        if (!user) {
+            return next(new ErrorHandle("User not found.", 404));
+        }
+
+        const { codes, hashes } = generateRecoveryCodes();
+
+        user.twoFactor = { enabled: true, secret, recoveryCodes: hashes };
+        await user.save();
+        await redis.del(enrollmentKey(userId));
+
+        // Do not cache the secret and the recovery codes with the user data.
+        await updateCachedUser(await userModel.findById(userId) as IUser);
+
+        res.status(200).json({
+            success: true,
+            message: "Two-factor authentication has been enabled.",
+            recoveryCodes: codes,
+        });
+    }
+    catch (error:any) {
+        return next(error);
+    }
+});
+
+/**
+ * @function disableTwoFactor
+ * @description Function to disable two-factor authentication for the authenticated user.
+ * It requires a code of the authenticator app or a recovery code, then deletes the secret and the recovery codes.
+ * @param {Request} req - The request object, expected to contain the code in the body.
+ * @param {Response} res - The response object.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>}
+ */
+export const disableTwoFactor = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        const { code } = req.body as ITwoFactorCodeRequest;
+
+        const user = await userModel.findById(req.user?._id).select('+twoFactor.secret');
+
+        if (!user) {
+            return next(new ErrorHandle("User not found.", 404));
+        }
+
+        if (!user.twoFactor.enabled) {
+            return next(new ErrorHandle("Two-factor authentication is not enabled.", 400));
+        }
+
+        if (!(await checkSecondFactor(user, code))) {
+            return next(new ErrorHandle("Invalid two-factor code.", 400, { code: 'INVALID_TWO_FACTOR_CODE' }));
+        }
+
+        user.twoFactor = { enabled: false, secret: undefined, recoveryCodes: [] };
+        await user.save();
+        await updateCachedUser(user);
+
+        res.status(200).json({
+            success: true,
+            message: "Two-factor authentication has been disabled.",
+        });
+    }
+    catch (error:any) {
+        return next(error);
+    }
+});
+
+/**
+ * @interface ILoginChallengeRequest
+ * @description Interface for the request body of the second step of a login.
+ * @property {string} challenge_token - The challenge token sent by the login.
+ * @property {string} code - A code of the authenticator app, or a recovery code.
+ */
+interface ILoginChallengeRequest {
+    challenge_token: string;
+    code: string;
+}
+
+/**
+ * @function verifyLoginChallenge
+ * @description Function to finish the login of a user who enabled two-factor authentication.
+ * It finds the user of the challenge, which counts as an attempt, and checks the code.
+ * If the code is valid, the challenge is deleted and the user is signed in.
+ * @param {Request} req - The request object, expected to contain the challenge token and the code in the body.
+ * @param {Response} res - The response object.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>}
+ */
+export const verifyLoginChallenge = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        const { challenge_token, code } = req.body as ILoginChallengeRequest;
+
+        const userId = await getLoginChallenge(challenge_token);
+
+        if (!userId) {
+            return next(new ErrorHandle("Login challenge is invalid or has expired. Please login again.", 401));
+        }
+
+        const user = await userModel.findById(userId).select('+twoFactor.secret');
+
+        if (!user || !user.twoFactor.enabled || !(await checkSecondFactor(user, code))) {
+            return next(new ErrorHandle("Invalid two-factor code.", 401, { code: 'INVALID_TWO_FACTOR_CODE' }));
+        }
+
+        await clearLoginChallenge(challenge_token);
+
+        if (user.isSuspended) {
+            return next(new ErrorHandle("Your account has been suspended.", 403, { code: 'ACCOUNT_SUSPENDED' }));
+        }
+
+        // Do not cache or send the secret with the user data.
+        user.twoFactor.secret = undefined;
+
+        await sendToken(user, 200, req, res);
+    }
+    catch (error:any) {
+        return next(error);
+    }
+});
@@ -4,10 +4,18 @@ import { CatchAsyncError } from "../middleware/catchAsyncErrors";
 import userModel, { IUser } from "../models/user.model";
 import * as jwt from 'jsonwebtoken';
 import { Secret } from "jsonwebtoken";
-import * as path from 'path';
-import * as ejs from 'ejs';
+import bcrypt from 'bcryptjs';
+import { randomInt } from 'crypto';
+import sharp from 'sharp';
 import sendMail from "../sendMail";
-import { sendToken } from "../utils/jwt";
+import { clearTokens, rotateRefreshToken, sendToken } from "../utils/jwt";
+import { getSession, listSessions, revokeAllSessions, revokeSession, updateCachedUser } from "../utils/session";
+import { storage } from "../utils/storage";
+import { clearLoginFailures, getLoginLock, recordLoginFailure } from "../utils/loginLockout";
+import { redis } from "../utils/redis";
+import { resolveLocale, supportedLocales } from "../utils/i18n";
+import { socialProviders } from "../utils/socialAuth";
+import { sendLoginChallenge } from "../utils/twoFactor";
 
 
 /**
@@ -27,12 +35,14 @@ require ('dotenv').config();
  * @property {string} email - The email of the user.
  * @property {string} password - The password of the user.
  * @property {string} [avatar] - The avatar of the user (optional).
+ * @property {string} [locale] - The locale of the user (optional).
  */
 interface IRegistrationBody {
     name: string;
     email: string;
     password: string;
     avatar?: string;
+    locale?: string;
 }
 
 /**
@@ -49,50 +59,39 @@ export const registerUser = CatchAsyncError(async (
     next: NextFunction
 ) => {
     try {
-        const { name, email, password } = req.body;
+        const { name, email, password } = req.body as IRegistrationBody;
 
         const isEmailExist = await userModel.findOne({ email });
 
         if (isEmailExist) {
-            return next(new ErrorHandle("Email already exists.", 400));
+            return next(new ErrorHandle("Email already exists.", 409, { code: 'EMAIL_TAKEN' }));
         }
 
         const user:IRegistrationBody = {
             name,
             email,
-            password
+            password,
+            locale: resolveLocale(req.body.locale || req.acceptsLanguages(supportedLocales)),
         };
 
         const activationToken = createActivationToken(user);
         const activationCode = activationToken.activationCode;
 
-        const data = { user: { name:user.name }, activationCode };
-        const html = await ejs.renderFile(path.join(__dirname, "../mails/activation-mail.ejs"), data);
-
-        process.env.SMTP_MAIL_FROM_NAME = process.env.APP_NAME;
-        const senderName = process.env.SMTP_MAIL_FROM_NAME || 'Admin';
-        const senderAddress = process.env.SMTP_MAIL_FROM_ADDRESS;
-
-        try {
-            await sendMail({
-                email: user.email,
-                subject: 'Account Activation',
-                template: 'activation-mail.ejs',
-                data,
-            });
+        await sendMail({
+            email: user.email,
+            template: 'activation-mail.ejs',
+            data: { user: { name: user.name }, activationCode, expiresInMinutes: 10 },
+            locale: user.locale,
+        });
 
-            res.status(201).json({
-                success: true,
-                message: `An email has been sent to ${user.email}. Please check your email to activate your account.`,
-                activationToken: activationToken.token,
-            });
-        }
-        catch (error:any) {
-            return next(new ErrorHandle(error.message, 400));
-        }
+        res.status(201).json({
+            success: true,
+            message: `An email has been sent to ${user.email}. Please check your email to activate your account.`,
+            activationToken: activationToken.token,
+        });
     }
     catch (error:any) {
-        return next(new ErrorHandle(error.message, 400));
+        return next(error);
     }
 });
 
@@ -168,18 +167,19 @@ export const activateUser = CatchAsyncError(async ( req: Request, res: Response,
             return next(new ErrorHandle("Invalid activation code.", 400));
         }
 
-        const { name, email, password } = newUser.user;
+        const { name, email, password, locale } = newUser.user;
 
         const existUser = await userModel.findOne({ email });
 
         if (existUser) {
-            return next(new ErrorHandle("Email already exists.", 400));
+            return next(new ErrorHandle("Email already exists.", 409, { code: 'EMAIL_TAKEN' }));
         }
 
         const user = await userModel.create({
             name,
             email,
             password,
+            locale,
         });
 
         res.status(201).json({
@@ -188,7 +188,7 @@ export const activateUser = CatchAsyncError(async ( req: Request, res: Response,
         });
     }
     catch (error:any) {
-        return next(new ErrorHandle(error.message, 400));
+        return next(error);
     }
 });
 
@@ -209,11 +209,16 @@ interface ILoginRequest {
  * @summary This function is used to authenticate a user.
  * @description It first extracts the email and password from the request body.
  * If either the email or password is missing, it sends an error response.
+ * If the account is locked after too many failed logins, it sends a 429 error response with the time left before it is unlocked.
  * Then, it finds the user in the database using the email.
- * If the user is not found, it sends an error response.
+ * If the user is not found, it records a failed login and sends an error response.
  * If the user is found, it compares the provided password with the hashed password stored in the database.
- * If the passwords do not match, it sends an error response.
+ * If the passwords do not match, it records a failed login and sends an error response.
+ * Repeated failures lock the account for longer and longer, and a successful login clears them.
+ * If the account has been suspended by an admin, it sends an error response.
  * If the passwords match, it generates an access token and a refresh token for the user and sends them in the response.
+ * If the user enabled two-factor authentication, it sends a short-lived challenge token instead,
+ * and the login is finished by sending a code of the authenticator app with the token to `/login/two-factor`.
  * @param {Request} req - The request object, expected to contain the email and password in the body.
  * @param {Response} res - The response object, used to send the response to the client.
  * @param {NextFunction} next - The next middleware function.
@@ -227,50 +232,638 @@ export const loginUser = CatchAsyncError(async ( req: Request, res: Response, ne
             return next(new ErrorHandle("Please enter email & password.", 400));
         }
 
+        const lockSeconds = await getLoginLock(email);
+
+        if (lockSeconds) {
+            return next(new ErrorHandle("Too many failed logins. Please try again later.", 429, { code: 'LOGIN_LOCKED', retryAfter: lockSeconds }));
+        }
+
         const user = await userModel.findOne({ email }).select("+password");
 
+        if (!user || !(await user.comparePassword(password))) {
+            const retryAfter = await recordLoginFailure(email);
+
+            if (retryAfter) {
+                return next(new ErrorHandle("Too many failed logins. Please try again later.", 429, { code: 'LOGIN_LOCKED', retryAfter }));
+            }
+
+            return next(new ErrorHandle("Invalid credentials.", 401, { code: 'INVALID_CREDENTIALS' }));
+        }
+
+        await clearLoginFailures(email);
+
+        if (user.isSuspended) {
+            return next(new ErrorHandle("Your account has been suspended.", 403, { code: 'ACCOUNT_SUSPENDED' }));
+        }
+
+        // Do not cache or send the password hash with the user data.
+        user.password = undefined;
+
+        if (user.twoFactor.enabled) {
+            return sendLoginChallenge(user, res);
+        }
+
+        await sendToken(user, 200, req, res);
+    }
+    catch (error:any) {
+        return next(error);
+    }
+});
+
+/**
+ * @interface ISocialAuthRequest
+ * @summary This interface represents the request body for the social login request.
+ * @property {string} provider - The name of the social login provider.
+ * @property {string} id_token - The ID token issued by the provider to the client.
+ */
+interface ISocialAuthRequest {
+    provider: string;
+    id_token: string;
+}
+
+/**
+ * @function socialAuth
+ * @summary This function is used to sign a user in through a social login provider.
+ * @description It verifies the ID token with the provider, which proves the name, the verified email and the picture of the user.
+ * If an account is already linked to the identity, or has the same email, the identity is linked to it and the account is marked as verified.
+ * Otherwise, a verified account without a password is created, and the user can set a password later.
+ * If the account has been suspended by an admin, it sends an error response.
+ * Then, it signs the user in like a password login, including the second step when two-factor authentication is enabled.
+ * @param {Request} req - The request object, expected to contain the provider and the ID token in the body.
+ * @param {Response} res - The response object, used to send the response to the client.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>} - Returns a promise that resolves to void.
+ */
+export const socialAuth = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        const { provider: providerName, id_token } = req.body as ISocialAuthRequest;
+
+        const provider = socialProviders.get(providerName);
+
+        if (!provider) {
+            return next(new ErrorHandle("Unknown social login provider.", 400));
+        }
+
+        let identity;
+
+        try {
+            identity = await provider.verify(id_token);
+        }
+        catch (error:any) {
+            return next(new ErrorHandle(`Invalid ${providerName} token: ${error.message}`, 401));
+        }
+
+        const link = { provider: identity.provider, subject: identity.subject };
+
+        let user = await userModel.findOne({ providers: { $elemMatch: link } })
+            || await userModel.findOne({ email: identity.email });
+
         if (!user) {
-            return next(new ErrorHandle("Invalid credentials.", 401));
+            user = await userModel.create({
+                name: identity.name,
+                email: identity.email,
+                avatar: identity.avatar ? { url: identity.avatar } : undefined,
+                isVerified: true,
+                locale: resolveLocale(req.acceptsLanguages(supportedLocales)),
+                providers: [link],
+            });
+        }
+        else {
+            const isLinked = user.providers.some(item => item.provider === link.provider && item.subject === link.subject);
+
+            if (!isLinked) {
+                user.providers.push(link);
+            }
+
+            user.isVerified = true;
+            await user.save();
         }
 
-        const isPasswordMatched = await user.comparePassword(password);
+        if (user.isSuspended) {
+            return next(new ErrorHandle("Your account has been suspended.", 403, { code: 'ACCOUNT_SUSPENDED' }));
+        }
 
-        if (!isPasswordMatched) {
-            return next(new ErrorHandle("Invalid credentials.", 401));
+        if (user.twoFactor.enabled) {
+            return sendLoginChallenge(user, res);
         }
 
-        sendToken(user, 200, res);
+        await sendToken(user, 200, req, res);
     }
     catch (error:any) {
-        return next(new ErrorHandle(error.message, 400));
+        return next(error);
     }
 });
 
 /**
  * @function logoutUser
  * @summary This function is used to log out a user.
- * @description It clears the access token and refresh token cookies by setting them to null and their maxAge to 1 millisecond. Then, it sends a JSON response with the success status and a message indicating that the user has been logged out successfully. If any error occurs during this process, it passes the error to the next middleware function.
- * @param {Request} req - The request object.
+ * @description It revokes the session of the current device in Redis, so the tokens issued for it stop working even if they were copied.
+ * Then, it clears the access token and refresh token cookies by setting them to null and their maxAge to 1 millisecond. Then, it sends a JSON response with the success status and a message indicating that the user has been logged out successfully. If any error occurs during this process, it passes the error to the next middleware function.
+ * @param {Request} req - The request object, expected to contain the authenticated user and session.
  * @param {Response} res - The response object, used to send the response to the client.
  * @param {NextFunction} next - The next middleware function.
  * @returns {Promise<void>} - Returns a promise that resolves to void.
  */
 export const logoutUser = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
     try {
-        res.cookie('access_token', null, {
-            maxAge: 1,
+        await revokeSession(String(req.user?._id), req.sessionId as string);
+
+        clearTokens(res);
+
+        res.status(200).json({
+            success: true,
+            message: "Logged out successfully.",
+        });
+    }
+    catch (error:any) {
+        return next(error);
+    }
+});
+
+/**
+ * @function refreshAccessToken
+ * @summary This function is used to issue a new access token and refresh token pair.
+ * @description It reads the refresh token from the `refresh_token` cookie and rotates it.
+ * Each refresh token can only be used once; if a token that was already used is presented again,
+ * the whole token family is revoked and the user has to log in again.
+ * If the rotation succeeds, it loads the user from the database and sends a new token pair
+ * that continues the same token family.
+ * @param {Request} req - The request object, expected to contain the refresh token cookie.
+ * @param {Response} res - The response object, used to send the response to the client.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>} - Returns a promise that resolves to void.
+ */
+export const refreshAccessToken = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        const refresh_token = req.cookies.refresh_token as string;
+
+        if (!refresh_token) {
+            return next(new ErrorHandle("Please login to access this resource.", 401));
+        }
+
+        const payload = await rotateRefreshToken(refresh_token);
+
+        if (!payload) {
+            return next(new ErrorHandle("Refresh token is not valid. Please login again.", 401));
+        }
+
+        const user = await userModel.findById(payload.id);
+
+        if (!user) {
+            return next(new ErrorHandle("Please login to access this resource.", 401));
+        }
+
+        await sendToken(user, 200, req, res, payload.sid);
+    }
+    catch (error:any) {
+        return next(error);
+    }
+});
+
+/**
+ * @function getUserSessions
+ * @summary This function is used to list the active sessions of the authenticated user.
+ * @description It loads every active session of the user from Redis, with the user agent, IP address and last-seen date of each device.
+ * The session of the device that made the request is flagged as current.
+ * @param {Request} req - The request object, expected to contain the authenticated user and session.
+ * @param {Response} res - The response object, used to send the response to the client.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>} - Returns a promise that resolves to void.
+ */
+export const getUserSessions = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        const sessions = await listSessions(String(req.user?._id));
+
+        res.status(200).json({
+            success: true,
+            sessions: sessions.map(session => ({
+                ...session,
+                current: session.id === req.sessionId,
+            })),
         });
+    }
+    catch (error:any) {
+        return next(error);
+    }
+});
+
+/**
+ * @function revokeUserSession
+ * @summary This function is used to revoke a single session of the authenticated user.
+ * @description It checks that the session belongs to the user, then deletes it from Redis, which logs that device out.
+ * If the revoked session is the one of the device that made the request, the token cookies are cleared as well.
+ * @param {Request} req - The request object, expected to contain the session ID in the params.
+ * @param {Response} res - The response object, used to send the response to the client.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>} - Returns a promise that resolves to void.
+ */
+export const revokeUserSession = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        const userId = String(req.user?._id);
+        const session = await getSession(req.params.id);
 
-        res.cookie('refresh_token', null, {
-            maxAge: 1,
+        if (!session || session.userId !== userId) {
+            return next(new ErrorHandle("Session not found.", 404));
+        }
+
+        await revokeSession(userId, session.id);
+
+        if (session.id === req.sessionId) {
+            clearTokens(res);
+        }
+
+        res.status(200).json({
+            success: true,
+            message: "Session has been revoked.",
         });
+    }
+    catch (error:any) {
+        return next(error);
+    }
+});
+
+/**
+ * @function logoutAllSessions
+ * @summary This function is used to log the authenticated user out of every device.
+ * @description It revokes every session of the user in Redis and clears the token cookies of the device that made the request.
+ * @param {Request} req - The request object, expected to contain the authenticated user.
+ * @param {Response} res - The response object, used to send the response to the client.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>} - Returns a promise that resolves to void.
+ */
+export const logoutAllSessions = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        await revokeAllSessions(String(req.user?._id));
+
+        clearTokens(res);
 
         res.status(200).json({
             success: true,
-            message: "Logged out successfully.",
+            message: "Logged out of all devices successfully.",
+        });
+    }
+    catch (error:any) {
+        return next(error);
+    }
+});
+
+/**
+ * @summary The lifetime of a password reset code, in seconds, and the number of tries allowed before it is discarded.
+ */
+const resetCodeExpire = 15 * 60;
+const resetCodeMaxAttempts = 5;
+
+/**
+ * @summary This function builds the Redis key used to store the password reset code of a user.
+ */
+const resetCodeKey = (userId: string) => `password_reset:${userId}`;
+
+/**
+ * @interface IForgotPasswordRequest
+ * @description Interface for the forgot password request body.
+ * @property {string} email - The email of the user.
+ */
+interface IForgotPasswordRequest {
+    email: string;
+}
+
+/**
+ * @function forgotPassword
+ * @summary This function is used to start the recovery of an account.
+ * @description It generates a 6-digit reset code, stores its bcrypt hash in Redis for 15 minutes,
+ * and sends the code to the user by email. Requesting a new code replaces the previous one.
+ * The response is the same whether or not an account exists for the email, so the route cannot be used to find registered emails.
+ * @param {Request} req - The request object, expected to contain the email in the body.
+ * @param {Response} res - The response object, used to send the response to the client.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>} - Returns a promise that resolves to void.
+ */
+export const forgotPassword = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        const { email } = req.body as IForgotPasswordRequest;
+
+        if (!email) {
+            return next(new ErrorHandle("Please enter your email.", 400));
+        }
+
+        const user = await userModel.findOne({ email });
+
+        if (user) {
+            const resetCode = randomInt(100000, 1000000).toString();
+            const hash = await bcrypt.hash(resetCode, 10);
+
+            await redis.multi()
+                .del(resetCodeKey(String(user._id)))
+                .hset(resetCodeKey(String(user._id)), { hash, attempts: 0 })
+                .expire(resetCodeKey(String(user._id)), resetCodeExpire)
+                .exec();
+
+            await sendMail({
+                email: user.email,
+                template: 'reset-password.ejs',
+                data: { user: { name: user.name }, resetCode, expiresInMinutes: resetCodeExpire / 60 },
+                locale: user.locale,
+            });
+        }
+
+        res.status(200).json({
+            success: true,
+            message: `If an account exists for ${email}, an email has been sent with a code to reset the password.`,
+        });
+    }
+    catch (error:any) {
+        return next(error);
+    }
+});
+
+/**
+ * @interface IResetPasswordRequest
+ * @description Interface for the reset password request body.
+ * @property {string} email - The email of the user.
+ * @property {string} reset_code - The reset code sent to the user's email.
+ * @property {string} password - The new password.
+ */
+interface IResetPasswordRequest {
+    email: string;
+    reset_code: string;
+    password: string;
+}
+
+/**
+ * @function resetPassword
+ * @summary This function is used to choose a new password with a reset code.
+ * @description It compares the code with the hash stored in Redis. Every try is counted atomically in Redis,
+ * and the code is discarded after 5 tries, so it cannot be brute-forced within its lifetime.
+ * When the code matches, it is discarded, the new password is saved (and hashed by the pre-save hook),
+ * and every session of the user is revoked, so tokens issued with the old password stop working on every device.
+ * @param {Request} req - The request object, expected to contain the email, reset code and new password in the body.
+ * @param {Response} res - The response object, used to send the response to the client.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>} - Returns a promise that resolves to void.
+ */
+export const resetPassword = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        const { email, reset_code, password } = req.body as IResetPasswordRequest;
+
+        if (!email || !reset_code || !password) {
+            return next(new ErrorHandle("Please enter email, reset code & new password.", 400));
+        }
+
+        const user = await userModel.findOne({ email });
+        const key = resetCodeKey(String(user?._id));
+        const hash = user && await redis.hget(key, 'hash');
+
+        if (!user || !hash) {
+            return next(new ErrorHandle("Reset code is invalid or has expired.", 400));
+        }
+
+        const attempts = await redis.hincrby(key, 'attempts', 1);
+
+        if (attempts > resetCodeMaxAttempts) {
+            await redis.del(key);
+            return next(new ErrorHandle("Too many attempts. Please request a new reset code.", 400));
+        }
+
+        const isCodeMatched = await bcrypt.compare(String(reset_code), hash);
+
+        if (!isCodeMatched) {
+            return next(new ErrorHandle("Reset code is invalid or has expired.", 400));
+        }
+
+        await redis.del(key);
+
+        user.password = password;
+        await user.save();
+
+        await revokeAllSessions(String(user._id));
+
+        clearTokens(res);
+
+        res.status(200).json({
+            success: true,
+            message: "Password has been reset. Please login with your new password.",
+        });
+    }
+    catch (error:any) {
+        return next(error);
+    }
+});
+
+/**
+ * @function getUserInfo
+ * @summary This function is used to get the profile of the authenticated user.
+ * @description It loads the user from the database rather than from the Redis cache, so the response is always up to date.
+ * @param {Request} req - The request object, expected to contain the authenticated user.
+ * @param {Response} res - The response object, used to send the response to the client.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>} - Returns a promise that resolves to void.
+ */
+export const getUserInfo = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        const user = await userModel.findById(req.user?._id);
+
+        if (!user) {
+            return next(new ErrorHandle("User not found.", 404));
+        }
+
+        res.status(200).json({
+            success: true,
+            user,
+        });
+    }
+    catch (error:any) {
+        return next(error);
+    }
+});
+
+/**
+ * @interface IUpdateUserInfoRequest
+ * @description Interface for the update user info request body.
+ * @property {string} [name] - The new name of the user.
+ * @property {string} [locale] - The new locale of the user.
+ */
+interface IUpdateUserInfoRequest {
+    name?: string;
+    locale?: string;
+}
+
+/**
+ * @function updateUserInfo
+ * @summary This function is used to update the name and the locale of the authenticated user.
+ * @description It saves the new values and updates the user data cached in Redis, so the next requests see the change.
+ * @param {Request} req - The request object, expected to contain the new name in the body.
+ * @param {Response} res - The response object, used to send the response to the client.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>} - Returns a promise that resolves to void.
+ */
+export const updateUserInfo = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        const { name, locale } = req.body as IUpdateUserInfoRequest;
+
+        const user = await userModel.findById(req.user?._id);
+
+        if (!user) {
+            return next(new ErrorHandle("User not found.", 404));
+        }
+
+        if (name) {
+            user.name = name;
+        }
+
+        if (locale) {
+            user.locale = locale;
+        }
+
+        await user.save();
+        await updateCachedUser(user);
+
+        res.status(200).json({
+            success: true,
+            user,
+        });
+    }
+    catch (error:any) {
+        return next(error);
+    }
+});
+
+/**
+ * @interface IUpdatePasswordRequest
+ * @description Interface for the update password request body.
+ * @property {string} [oldPassword] - The current password of the user, required unless the account has no password yet.
+ * @property {string} newPassword - The new password of the user.
+ */
+interface IUpdatePasswordRequest {
+    oldPassword?: string;
+    newPassword: string;
+}
+
+/**
+ * @function updatePassword
+ * @summary This function is used to change the password of the authenticated user.
+ * @description It checks the current password with `comparePassword`, then saves the new password (hashed by the pre-save hook).
+ * Accounts created through a social login provider have no password, so they set their first one without a current password.
+ * Every other session of the user is revoked, so only the device that changed the password stays logged in.
+ * @param {Request} req - The request object, expected to contain the current and new passwords in the body.
+ * @param {Response} res - The response object, used to send the response to the client.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>} - Returns a promise that resolves to void.
+ */
+export const updatePassword = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        const { oldPassword, newPassword } = req.body as IUpdatePasswordRequest;
+
+        if (!newPassword) {
+            return next(new ErrorHandle("Please enter old & new password.", 400));
+        }
+
+        const user = await userModel.findById(req.user?._id).select("+password");
+
+        if (!user) {
+            return next(new ErrorHandle("User not found.", 404));
+        }
+
+        if (user.password) {
+            if (!oldPassword) {
+                return next(new ErrorHandle("Please enter old & new password.", 400));
+            }
+
+            const isPasswordMatched = await user.comparePassword(oldPassword);
+
+            if (!isPasswordMatched) {
+                return next(new ErrorHandle("Old password is incorrect.", 400));
+            }
+        }
+
+        user.password = newPassword;
+        await user.save();
+
+        const sessions = await listSessions(String(user._id));
+
+        for (const session of sessions) {
+            if (session.id !== req.sessionId) {
+                await revokeSession(String(user._id), session.id);
+            }
+        }
+
+        res.status(200).json({
+            success: true,
+            message: "Password has been updated.",
+        });
+    }
+    catch (error:any) {
+        return next(error);
+    }
+});
+
+/**
+ * @interface IUpdateAvatarRequest
+ * @description Interface for the update avatar request body.
+ * @property {string} avatar - The image, as a base64 string or a base64 data URL.
+ */
+interface IUpdateAvatarRequest {
+    avatar: string;
+}
+
+/**
+ * @summary The size of the stored avatars, in pixels.
+ */
+const avatarSize = 256;
+
+/**
+ * @function updateAvatar
+ * @summary This function is used to change the avatar of the authenticated user.
+ * @description It decodes the image from the request body, crops and resizes it to a square WebP image,
+ * and stores it with the storage driver. The previous avatar is deleted from the storage,
+ * and the public ID and URL of the new one are saved on the user and in the Redis cache.
+ * If the body is not a valid image, it passes an error to the next middleware function.
+ * @param {Request} req - The request object, expected to contain the image in the body.
+ * @param {Response} res - The response object, used to send the response to the client.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>} - Returns a promise that resolves to void.
+ */
+export const updateAvatar = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        const { avatar } = req.body as IUpdateAvatarRequest;
+
+        if (!avatar) {
+            return next(new ErrorHandle("Please upload an image.", 400));
+        }
+
+        const user = await userModel.findById(req.user?._id);
+
+        if (!user) {
+            return next(new ErrorHandle("User not found.", 404));
+        }
+
+        let image: Buffer;
+
+        try {
+            image = await sharp(Buffer.from(avatar.replace(/^data:image\/[\w+.-]+;base64,/, ''), 'base64'))
+                .resize(avatarSize, avatarSize, { fit: 'cover' })
+                .webp({ quality: 80 })
+                .toBuffer();
+        }
+        catch (error:any) {
+            return next(new ErrorHandle("Please upload a valid image.", 400, { code: 'INVALID_IMAGE' }));
+        }
+
+        const stored = await storage.upload(image, { folder: 'avatars', extension: 'webp' });
+
+        if (user.avatar?.public_id) {
+            await storage.remove(user.avatar.public_id);
+        }
+
+        user.avatar = stored;
+        await user.save();
+        await updateCachedUser(user);
+
+        res.status(200).json({
+            success: true,
+            user,
         });
     }
     catch (error:any) {
-        return next(new ErrorHandle(error.message, 400));
+        return next(error);
     }
 });
\ No newline at end of file
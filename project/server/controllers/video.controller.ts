@@ -0,0 +1,162 @@
+import { Request, Response, NextFunction } from 'express';
+import ErrorHandle from "../utils/ErrorHandle";
+import { CatchAsyncError } from "../middleware/catchAsyncErrors";
+import courseModel from "../models/course.model";
+import { findLesson, hasCourseAccess } from "../utils/course";
+import { createPlaybackUrl, playbackUrlExpire, verifyPlaybackSignature } from "../utils/playback";
+import { videoStorage } from "../utils/videoStorage";
+
+/**
+ * @function getPlaybackUrl
+ * @description Function to issue a playback URL for the video of a lesson to an enrolled user, or to the instructor of the course.
+ * Stored videos get a signed URL that expires after a short time, so it cannot be shared for long.
+ * Lessons with a video hosted elsewhere get their video URL as it is.
+ * @param {Request} req - The request object, expected to contain the course ID and lesson ID in the params.
+ * @param {Response} res - The response object.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>}
+ */
+export const getPlaybackUrl = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        const { id, lessonId } = req.params;
+
+        if (!await hasCourseAccess(req.user, id)) {
+            return next(new ErrorHandle("You are not enrolled in this course.", 403, { code: 'NOT_ENROLLED' }));
+        }
+
+        const course = await courseModel.findById(id);
+        const lesson = course && findLesson(course, lessonId);
+
+        if (!lesson) {
+            return next(new ErrorHandle("Lesson not found.", 404));
+        }
+
+        if (lesson.video) {
+            const playback = createPlaybackUrl(id, lessonId, String(req.user?._id));
+
+            res.status(200).json({
+                success: true,
+                ...playback,
+            });
+        }
+        else if (lesson.videoUrl) {
+            res.status(200).json({
+                success: true,
+                url: lesson.videoUrl,
+                expiresAt: null,
+            });
+        }
+        else {
+            return next(new ErrorHandle("This lesson has no video.", 404));
+        }
+    }
+    catch (error:any) {
+        return next(error);
+    }
+});
+
+/**
+ * @function parseRange
+ * @description Function to parse the Range header of a request for a single byte range.
+ * Both `bytes=start-end` and `bytes=start-` are supported, as well as `bytes=-length` for the end of the file.
+ * @param {string} header - The Range header.
+ * @param {number} size - The size of the file, in bytes.
+ * @returns {{ start: number, end: number } | null} - The range, with the end included, or null if it cannot be satisfied.
+ */
+const parseRange = (header: string, size: number): { start: number, end: number } | null => {
+    const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+
+    if (!match || (!match[1] && !match[2])) {
+        return null;
+    }
+
+    let start: number;
+    let end: number;
+
+    if (!match[1]) {
+        start = Math.max(size - parseInt(match[2], 10), 0);
+        end = size - 1;
+    }
+    else {
+        start = parseInt(match[1], 10);
+        end = match[2] ? Math.min(parseInt(match[2], 10), size - 1) : size - 1;
+    }
+
+    return start <= end && start < size ? { start, end } : null;
+};
+
+/**
+ * @function streamVideo
+ * @description Function to stream the video of a lesson from a signed playback URL.
+ * It checks the signature and the expiry of the URL, then sends the video, or the byte range requested by the player
+ * with a 206 response, so players can seek without downloading the whole file.
+ * If reading the video fails once the response has started, the response is destroyed, since an error can no longer be sent.
+ * @param {Request} req - The request object, expected to contain the course ID and lesson ID in the params, and the signed parameters in the query string.
+ * @param {Response} res - The response object.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>}
+ */
+export const streamVideo = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    try {
+        const { courseId, lessonId } = req.params;
+        const { user, signature } = req.query as { user: string, signature: string };
+        const expires = Number(req.query.expires);
+
+        if (!verifyPlaybackSignature({ courseId, lessonId, userId: user, expires }, signature)) {
+            return next(new ErrorHandle("Playback URL is invalid or has expired.", 403, { code: 'INVALID_PLAYBACK_URL' }));
+        }
+
+        const course = await courseModel.findById(courseId).select('sections');
+        const lesson = course && findLesson(course, lessonId);
+        const info = lesson?.video && await videoStorage.stat(lesson.video);
+
+        if (!lesson?.video || !info) {
+            return next(new ErrorHandle("Video not found.", 404));
+        }
+
+        res.set({
+            'Accept-Ranges': 'bytes',
+            'Content-Type': info.contentType,
+            'Cache-Control': `private, max-age=${playbackUrlExpire}`,
+        });
+
+        const rangeHeader = req.headers.range;
+        let range: { start: number, end: number } | undefined;
+
+        if (rangeHeader) {
+            const parsed = parseRange(rangeHeader, info.size);
+
+            if (!parsed) {
+                res.set('Content-Range', `bytes */${info.size}`);
+                return next(new ErrorHandle("Requested range is not satisfiable.", 416, { code: 'RANGE_NOT_SATISFIABLE' }));
+            }
+
+            range = parsed;
+            res.status(206);
+            res.set('Content-Range', `bytes ${range.start}-${range.end}/${info.size}`);
+            res.set('Content-Length', String(range.end - range.start + 1));
+        }
+        else {
+            res.status(200);
+            res.set('Content-Length', String(info.size));
+        }
+
+        const stream = videoStorage.createReadStream(lesson.video, range);
+
+        stream.on('error', error => {
+            if (res.headersSent) {
+                console.log(error.message);
+                res.destroy(error);
+                return;
+            }
+
+            next(error);
+        });
+        req.on('close', () => stream.destroy());
+
+        stream.pipe(res);
+    }
+    catch (error:any) {
+        return next(error);
+    }
+});
@@ -0,0 +1,97 @@
+import { NextFunction, Request, Response } from "express";
+import * as jwt from "jsonwebtoken";
+import { JwtPayload, Secret } from "jsonwebtoken";
+import { CatchAsyncError } from "./catchAsyncErrors";
+import ErrorHandle from "../utils/ErrorHandle";
+import { redis } from "../utils/redis";
+import { getSession, touchSession } from "../utils/session";
+
+/**
+ * @summary This line of code loads the environment variables from a .env file into process.env.
+ */
+require('dotenv').config();
+
+/**
+ * @function isAuthenticated
+ * @summary This middleware is used to protect routes that require a logged-in user.
+ * @description It reads the access token from the `access_token` cookie set by `sendToken` and verifies it
+ * with the access token secret. Then, it checks that the session the token was issued for is still active,
+ * and loads the user data that `sendToken` cached in Redis under the user's ID.
+ * If the token is missing, invalid, or the session no longer exists, it passes an error to the next middleware function.
+ * Otherwise, it updates the last-seen date of the session, attaches the user and the session ID to the request object,
+ * and calls the next middleware function.
+ * @param {Request} req - The request object, expected to contain the access token cookie.
+ * @param {Response} res - The response object.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>} - Returns a promise that resolves to void.
+ */
+export const isAuthenticated = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    const access_token = req.cookies.access_token as string;
+
+    if (!access_token) {
+        return next(new ErrorHandle("Please login to access this resource.", 401, { code: 'AUTH_REQUIRED' }));
+    }
+
+    const decoded = jwt.verify(access_token, process.env.JWT_ACCESS_TOKEN as Secret || "") as JwtPayload;
+
+    if (!decoded || !decoded.id || !decoded.sid) {
+        return next(new ErrorHandle("Access token is not valid.", 401, { code: 'INVALID_TOKEN' }));
+    }
+
+    const session = await getSession(decoded.sid);
+
+    if (!session || session.userId !== String(decoded.id)) {
+        return next(new ErrorHandle("Session has expired. Please login again.", 401, { code: 'SESSION_EXPIRED' }));
+    }
+
+    const user = await redis.get(decoded.id);
+
+    if (!user) {
+        return next(new ErrorHandle("Please login to access this resource.", 401, { code: 'AUTH_REQUIRED' }));
+    }
+
+    await touchSession(session);
+
+    req.user = JSON.parse(user);
+    req.sessionId = session.id;
+
+    next();
+});
+
+/**
+ * @function authorizeRoles
+ * @summary This function is used to restrict a route to a set of user roles.
+ * @description It returns a middleware that checks the `role` field of the authenticated user against the allowed roles.
+ * It must be used after the `isAuthenticated` middleware, which attaches the user to the request.
+ * If the user's role is not one of the allowed roles, it passes a 403 error to the next middleware function.
+ * @param {...string} roles - The roles that are allowed to access the route.
+ * @returns {Function} - The Express middleware function.
+ */
+export const authorizeRoles = (...roles: string[]) => {
+    return (req: Request, res: Response, next: NextFunction) => {
+        const role = req.user?.role || '';
+
+        if (!roles.includes(role)) {
+            return next(new ErrorHandle(`Role: ${role} is not allowed to access this resource.`, 403, { code: 'ROLE_NOT_ALLOWED' }));
+        }
+
+        next();
+    };
+};
+
+/**
+ * @function loadUser
+ * @summary This middleware is used on public routes whose response depends on who is calling them.
+ * @description It runs the `isAuthenticated` middleware when an access token cookie is present,
+ * but never fails: if the token is missing, invalid, or its session has expired, the request continues without a user.
+ * @param {Request} req - The request object.
+ * @param {Response} res - The response object.
+ * @param {NextFunction} next - The next middleware function.
+ */
+export const loadUser = (req: Request, res: Response, next: NextFunction) => {
+    if (!req.cookies.access_token) {
+        return next();
+    }
+
+    isAuthenticated(req, res, () => next());
+};
@@ -1,86 +1,113 @@
-import ErrorHandle from "../utils/ErrorHandle";
+import ErrorHandle, { defaultErrorCodes } from "../utils/ErrorHandle";
 import {NextFunction, Request, Response} from "express";
 
 /**
- * @summary This is an Express middleware function for error handling.
- * It checks if the error object has a statusCode and message property, if not, it sets default values.
- * It then checks the name and code properties of the error object to determine the type of error.
- * If the error is a 'CastError', 'JsonWebTokenError', 'TokenExpiredError', or has a code of 11000,
- * it creates a new instance of the ErrorHandle class with a custom message and a status code of 400.
- * Finally, it sends a response to the client with the status code of the error and a JSON object.
- * The JSON object contains two properties: 'success' and 'message'.
- * The 'success' property is set to false, indicating that the request was not successful.
- * The 'message' property is set to the message of the error.
+ * @summary Whether the application runs in production, where internal error messages are hidden and stack traces are not logged.
  */
-export const ErrorMiddleware = (
-    err: any,
-    req: Request,
-    res: Response,
-    next: NextFunction
-) => {
-
-    /**
-     * @summary Checks if the error object has a statusCode and message property, if not, it sets default values.
-     */
-    let statusCode = err.statusCode || 500;
+const isProduction = process.env.NODE_ENV === 'production';
 
-    /**
-     * @summary Checks if the error object has a statusCode and message property, if not, it sets default values.
-     */
-    let message = err.message || 'Internal Server Error';
+/**
+ * @function normalizeError
+ * @summary This function converts any error into an ErrorHandle, with a status code, a code and a message that can be sent to the client.
+ * @description It checks the name and code properties of the error object to determine the type of error:
+ * - A 'CastError' is an invalid ID, which means the resource does not exist.
+ * - A code of 11000 is a duplicate key, and the duplicated fields are sent in the details.
+ * - A 'ValidationError' of Mongoose has the message of each invalid field, which are sent in the details and the errors.
+ * - A 'JsonWebTokenError' or 'TokenExpiredError' is an invalid or expired token.
+ * - An error of the body parser, such as malformed JSON or a body that is too large, keeps its status code.
+ * Any other error is unexpected, and becomes a 500 error. Its message is hidden in production, since it may reveal internals.
+ * @param {any} err - The error.
+ * @returns {ErrorHandle} - The error to send.
+ */
+const normalizeError = (err: any): ErrorHandle => {
+    if (err instanceof ErrorHandle) {
+        return err;
+    }
 
-    /**
-     * @summary Checks if the error name is 'CastError'.
-     * If it is, a new instance of the ErrorHandle class is created with a custom message and a status code of 400.
-     * The ErrorHandle class is designed to handle custom errors in the application.
-     * The new instance of ErrorHandle replaces the original error.
-     */
     if (err.name === 'CastError') {
-        message = `Resource not found. Invalid: ${err.path}`;
-        err = new ErrorHandle(message, 400);
+        return new ErrorHandle(`Resource not found. Invalid: ${err.path}`, 400, { code: 'INVALID_ID' });
     }
 
-    /**
-     * @summary Checks if the error code is 11000.
-     * If it is, a new instance of the ErrorHandle class is created with a custom message and a status code of 400.
-     * The ErrorHandle class is designed to handle custom errors in the application.
-     * The new instance of ErrorHandle replaces the original error.
-     */
     if (err.code === 11000) {
-        message = `Duplicate ${Object.keys(err.keyValue)} entered`;
-        err = new ErrorHandle(message, 400);
+        const details: { [field: string]: string } = {};
+
+        Object.keys(err.keyValue || {}).forEach(field => {
+            details[field] = `${field} already exists.`;
+        });
+
+        return new ErrorHandle(`Duplicate ${Object.keys(details)} entered`, 409, { code: 'DUPLICATE_KEY', details });
+    }
+
+    if (err.name === 'ValidationError' && err.errors) {
+        const details: { [field: string]: string } = {};
+
+        Object.keys(err.errors).forEach(field => {
+            details[field] = err.errors[field].message;
+        });
+
+        return new ErrorHandle("Please check the highlighted fields.", 422, { details, errors: details });
     }
 
-    /**
-     * @summary Checks if the error name is 'JsonWebTokenError'.
-     * If it is, a new instance of the ErrorHandle class is created with a custom message and a status code of 400.
-     * The ErrorHandle class is designed to handle custom errors in the application.
-     * The new instance of ErrorHandle replaces the original error.
-     */
     if (err.name === 'JsonWebTokenError') {
-        message = `JSON Web Token is invalid. Try Again!!!`;
-        err = new ErrorHandle(message, 400);
+        return new ErrorHandle("Token is invalid. Please try again.", 401, { code: 'INVALID_TOKEN' });
+    }
+
+    if (err.name === 'TokenExpiredError') {
+        return new ErrorHandle("Token has expired. Please try again.", 401, { code: 'TOKEN_EXPIRED' });
+    }
+
+    if (err.expose && err.status >= 400 && err.status < 500) {
+        return new ErrorHandle(err.message, err.status, {
+            code: err.type === 'entity.parse.failed' ? 'INVALID_JSON' : defaultErrorCodes[err.status],
+        });
     }
 
+    return new ErrorHandle(isProduction ? 'Internal Server Error' : err.message || 'Internal Server Error', 500);
+};
+
+/**
+ * @summary This is an Express middleware function for error handling.
+ * It converts the error into an ErrorHandle with `normalizeError`, so every error is sent in the same envelope.
+ * Unexpected errors are logged with the ID of the request, with their stack trace in development.
+ * Finally, it sends a response to the client with the status code of the error and a JSON object:
+ * - 'success' is set to false, indicating that the request was not successful.
+ * - 'code' is the machine-readable code of the error, which clients should check instead of the message.
+ * - 'message' is the human-readable message of the error.
+ * - 'details' is only set when the error has details, such as the per-field messages of a failed validation,
+ *   so the client can highlight the individual inputs.
+ * - 'errors' is only set when the request failed validation, with the same per-field messages as 'details'.
+ * - 'requestId' is the ID of the request, which can be found in the logs.
+ * The stack trace is never sent to the client, only logged.
+ */
+export const ErrorMiddleware = (
+    err: any,
+    req: Request,
+    res: Response,
+    next: NextFunction
+) => {
+    const error = normalizeError(err);
+
     /**
-     * @summary Checks if the error name is 'TokenExpiredError'.
-     * If it is, a new instance of the ErrorHandle class is created with a custom message and a status code of 400.
-     * The ErrorHandle class is designed to handle custom errors in the application.
-     * The new instance of ErrorHandle replaces the original error.
+     * @summary Logs the unexpected errors, with their stack trace in development only.
      */
-    if (err.name === 'TokenExpiredError') {
-        message = `JSON Web Token is expired. Try Again!!!`;
-        err = new ErrorHandle(message, 400);
+    if (error.statusCode >= 500) {
+        console.error(`[${req.id}]`, isProduction ? err.message : err.stack || err);
     }
 
     /**
-     * @summary Sends a response to the client with the status code of the error and a JSON object.
-     * The JSON object contains two properties: 'success' and 'message'.
-     * The 'success' property is set to false, indicating that the request was not successful.
-     * The 'message' property is set to the message of the error.
+     * @summary Checks if the error carries a retry delay, which is the case when the request was rate limited.
+     * If it does, the delay is sent in the 'Retry-After' header, so the client knows when it can try again.
      */
-    res.status(statusCode).json({
+    if (error.retryAfter) {
+        res.set('Retry-After', String(error.retryAfter));
+    }
+
+    res.status(error.statusCode).json({
         success: false,
-        message: message,
+        code: error.code,
+        message: error.message,
+        ...(error.details && { details: error.details }),
+        ...(error.errors && { errors: error.errors }),
+        requestId: req.id,
     });
-}
\ No newline at end of file
+}
@@ -0,0 +1,65 @@
+import { NextFunction, Request, Response } from "express";
+import { CatchAsyncError } from "./catchAsyncErrors";
+import ErrorHandle from "../utils/ErrorHandle";
+import quizModel from "../models/quiz.model";
+import quizAttemptModel from "../models/quizAttempt.model";
+import { canManageCourse, hasCourseAccess } from "../utils/course";
+import courseModel from "../models/course.model";
+import { expireAttempts } from "../utils/quiz";
+
+/**
+ * @function hasSubmittedQuiz
+ * @summary This middleware is used to protect the routes that reveal the correct answers of a quiz.
+ * @description It must be used after the `isAuthenticated` middleware, which attaches the user to the request.
+ * It looks the quiz up from the `quizId` route parameter and checks that the user is enrolled in its course, or is its instructor.
+ * Admins and the instructor of the course can always see the answers. Learners can only see them once they have submitted an attempt,
+ * since an attempt that expired was never answered, and only once they have passed the quiz or have no attempts left,
+ * so the answers of a failed attempt cannot be used for a retake. They can never see them while they have an attempt in progress.
+ * Otherwise, it passes a 403 error to the next middleware function.
+ * @param {Request} req - The request object, expected to contain the quiz ID in the params.
+ * @param {Response} res - The response object.
+ * @param {NextFunction} next - The next middleware function.
+ * @returns {Promise<void>} - Returns a promise that resolves to void.
+ */
+export const hasSubmittedQuiz = CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+    const quiz = await quizModel.findById(req.params.quizId).select('courseId maxAttempts');
+
+    if (!quiz) {
+        return next(new ErrorHandle("Quiz not found.", 404));
+    }
+
+    if (!await hasCourseAccess(req.user, quiz.courseId)) {
+        return next(new ErrorHandle("You are not enrolled in this course.", 403, { code: 'NOT_ENROLLED' }));
+    }
+
+    if (req.user?.role !== 'user') {
+        const course = await courseModel.findById(quiz.courseId).select('instructor');
+
+        if (course && canManageCourse(req.user, course)) {
+            return next();
+        }
+    }
+
+    const userId = String(req.user?._id);
+
+    await expireAttempts(String(quiz._id), userId);
+
+    const attempts = await quizAttemptModel.find({ quizId: String(quiz._id), userId }).select('status passed');
+
+    if (!attempts.some(attempt => attempt.status === 'submitted')) {
+        return next(new ErrorHandle("Submit the quiz to see its answers.", 403, { code: 'QUIZ_NOT_SUBMITTED' }));
+    }
+
+    if (attempts.some(attempt => attempt.status === 'in_progress')) {
+        return next(new ErrorHandle("Submit your current attempt to see the answers.", 403, { code: 'QUIZ_ATTEMPT_IN_PROGRESS' }));
+    }
+
+    const passed = attempts.some(attempt => attempt.status === 'submitted' && attempt.passed);
+    const attemptsLeft = !quiz.maxAttempts || attempts.length < quiz.maxAttempts;
+
+    if (!passed && attemptsLeft) {
+        return next(new ErrorHandle("Pass the quiz, or use all your attempts, to see its answers.", 403, { code: 'QUIZ_ANSWERS_LOCKED' }));
+    }
+
+    next();
+});
@@ -0,0 +1,86 @@
+import { NextFunction, Request, Response } from "express";
+import { createHash } from "crypto";
+import { CatchAsyncError } from "./catchAsyncErrors";
+import ErrorHandle from "../utils/ErrorHandle";
+import { redis } from "../utils/redis";
+
+/**
+ * @interface IRateLimitOptions
+ * @summary This interface represents the options of a rate limiter.
+ * @property {string} name - The name of the limiter, used in its Redis keys. Each route should use its own name.
+ * @property {number} windowSeconds - The length of the window the requests are counted in, in seconds.
+ * @property {number} max - The number of requests allowed in a window.
+ * @property {'ip' | 'account' | Function} [by='ip'] - What the requests are counted by:
+ * the IP address of the client, the account (the authenticated user, or the email in the request body),
+ * or a function that returns the key to count by.
+ * @property {string} [message] - The message of the error sent when the limit is reached.
+ */
+export interface IRateLimitOptions {
+    name: string;
+    windowSeconds: number;
+    max: number;
+    by?: 'ip' | 'account' | ((req: Request) => string | undefined);
+    message?: string;
+}
+
+/**
+ * @function getIdentity
+ * @summary This function returns what the requests of a client are counted by.
+ * @description Identities other than IP addresses are hashed, so emails and tokens are not stored in Redis keys in clear.
+ * @param {Request} req - The request object.
+ * @param {IRateLimitOptions['by']} by - What the requests are counted by.
+ * @returns {string | undefined} - The identity, or undefined if the request has none, in which case it is not counted.
+ */
+const getIdentity = (req: Request, by: IRateLimitOptions['by']): string | undefined => {
+    let identity: string | undefined;
+
+    if (by === 'account') {
+        identity = req.user?._id ? String(req.user._id) : req.body?.email && String(req.body.email).toLowerCase();
+    } else if (typeof by === 'function') {
+        identity = by(req);
+    } else {
+        return req.ip;
+    }
+
+    return identity && createHash('sha256').update(identity).digest('hex');
+};
+
+/**
+ * @function rateLimit
+ * @summary This function is used to limit how often a route can be called.
+ * @description It returns a middleware that counts the requests of each client in Redis, in fixed windows.
+ * The first request of a window creates the counter with the length of the window as its expiry, and every request increments it.
+ * Once the counter goes over the limit, it passes a 429 error to the next middleware function,
+ * with the number of seconds left in the window, which the error middleware sends in the 'Retry-After' header.
+ * Several limiters can be chained on the same route, for example one by IP address and one by account.
+ * @param {IRateLimitOptions} options - The options of the limiter.
+ * @returns {Function} - The Express middleware function.
+ */
+export const rateLimit = (options: IRateLimitOptions) => {
+    const { name, windowSeconds, max, by = 'ip', message = "Too many requests. Please try again later." } = options;
+
+    return CatchAsyncError(async ( req: Request, res: Response, next: NextFunction ) => {
+        const identity = getIdentity(req, by);
+
+        if (!identity) {
+            return next();
+        }
+
+        const key = `rate_limit:${name}:${identity}`;
+
+        const results = await redis.multi()
+            .set(key, 0, 'EX', windowSeconds, 'NX')
+            .incr(key)
+            .ttl(key)
+            .exec();
+
+        const count = Number(results?.[1][1]);
+        const ttl = Number(results?.[2][1]);
+
+        if (count > max) {
+            return next(new ErrorHandle(message, 429, { code: 'RATE_LIMITED', retryAfter: ttl > 0 ? ttl : windowSeconds }));
+        }
+
+        next();
+    });
+};
@@ -0,0 +1,26 @@
+import { randomUUID } from "crypto";
+import { NextFunction, Request, Response } from "express";
+
+/**
+ * @summary The header that carries the ID of a request.
+ */
+const requestIdHeader = 'X-Request-Id';
+
+/**
+ * @function requestId
+ * @summary This middleware gives every request an ID, which is sent back in the `X-Request-Id` header and in error responses.
+ * @description An ID sent by a proxy or by the client in the same header is kept, if it is a short token,
+ * so the request can be followed across services. Otherwise, a new UUID is generated.
+ * The ID is attached to the request object as `req.id`, so it can be written in the logs.
+ * @param {Request} req - The request object.
+ * @param {Response} res - The response object.
+ * @param {NextFunction} next - The next middleware function.
+ */
+export const requestId = (req: Request, res: Response, next: NextFunction) => {
+    const header = req.get(requestIdHeader);
+
+    req.id = header && /^[\w.-]{1,100}$/.test(header) ? header : randomUUID();
+    res.set(requestIdHeader, req.id);
+
+    next();
+};
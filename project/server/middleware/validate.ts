@@ -0,0 +1,237 @@
+import { NextFunction, Request, Response } from "express";
+import { isValidObjectId } from "mongoose";
+import ErrorHandle from "../utils/ErrorHandle";
+import { emailRegexPattern } from "../models/user.model";
+
+/**
+ * @summary The types a field of a request can be validated against.
+ * @description `objectId` is a string holding a valid MongoDB ObjectId, `email` is a string holding a valid email address,
+ * and `date` is a string holding an ISO 8601 date, such as `2024-05-01` or `2024-05-01T09:00:00Z`.
+ */
+export type FieldType = 'string' | 'number' | 'boolean' | 'array' | 'object' | 'objectId' | 'email' | 'date';
+
+/**
+ * @summary The pattern of an ISO 8601 date, with an optional time and time zone.
+ */
+const isoDatePattern = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?)?$/;
+
+/**
+ * @interface IFieldRule
+ * @summary This interface represents the rules a field of a request must follow.
+ * @property {FieldType} type - The type of the field.
+ * @property {boolean} [required] - Whether the field must be present and not empty.
+ * @property {number} [min] - The minimum length of a string or array, or the minimum value of a number.
+ * @property {number} [max] - The maximum length of a string or array, or the maximum value of a number.
+ * @property {boolean} [integer] - Whether a number must be an integer.
+ * @property {RegExp} [pattern] - A pattern a string must match.
+ * @property {ReadonlyArray<string | number>} [enum] - The values the field can take.
+ * @property {IFieldRule} [items] - The rules every item of an array must follow.
+ * @property {ValidationSchema} [fields] - The rules of the fields of an object.
+ * @property {string} [message] - A custom message, used instead of the generated one when the field is not valid.
+ */
+export interface IFieldRule {
+    type: FieldType;
+    required?: boolean;
+    min?: number;
+    max?: number;
+    integer?: boolean;
+    pattern?: RegExp;
+    enum?: ReadonlyArray<string | number>;
+    items?: IFieldRule;
+    fields?: ValidationSchema;
+    message?: string;
+}
+
+/**
+ * @summary A validation schema maps every field of a part of the request to its rules.
+ */
+export type ValidationSchema = { [field: string]: IFieldRule };
+
+/**
+ * @interface IRequestSchema
+ * @summary This interface represents the validation schemas of the parts of a request.
+ * @property {ValidationSchema} [body] - The schema of the request body.
+ * @property {ValidationSchema} [params] - The schema of the route parameters.
+ * @property {ValidationSchema} [query] - The schema of the query string.
+ */
+export interface IRequestSchema {
+    body?: ValidationSchema;
+    params?: ValidationSchema;
+    query?: ValidationSchema;
+}
+
+/**
+ * @function coerce
+ * @summary This function converts a route parameter or query string value to the type of its rule.
+ * @description Route parameters and query strings are always strings, so numbers and booleans have to be parsed before they are checked.
+ * Values that cannot be parsed are returned unchanged, and fail the type check.
+ * @param {any} value - The value to convert.
+ * @param {IFieldRule} rule - The rule of the field.
+ * @returns {any} - The converted value.
+ */
+const coerce = (value: any, rule: IFieldRule): any => {
+    if (typeof value !== 'string' || value === '') {
+        return value;
+    }
+
+    if (rule.type === 'number' && !isNaN(Number(value))) {
+        return Number(value);
+    }
+
+    if (rule.type === 'boolean' && (value === 'true' || value === 'false')) {
+        return value === 'true';
+    }
+
+    return value;
+};
+
+/**
+ * @function checkField
+ * @summary This function checks a value against the rules of its field.
+ * @description Arrays and objects are checked recursively, and the errors of their items and fields are reported
+ * under a path such as `sections[0].title`.
+ * @param {any} value - The value to check.
+ * @param {IFieldRule} rule - The rules of the field.
+ * @param {string} path - The path of the field, used as the key of its error.
+ * @param {{ [field: string]: string }} errors - The errors found so far, to which the errors of the field are added.
+ */
+const checkField = (value: any, rule: IFieldRule, path: string, errors: { [field: string]: string }) => {
+    const fail = (message: string) => {
+        errors[path] = rule.message || message;
+    };
+
+    if (value === undefined || value === null || value === '') {
+        if (rule.required) {
+            fail(`${path} is required.`);
+        }
+        return;
+    }
+
+    switch (rule.type) {
+        case 'string':
+        case 'email':
+        case 'objectId':
+        case 'date':
+            if (typeof value !== 'string') {
+                return fail(`${path} must be a string.`);
+            }
+            if (rule.type === 'email' && !emailRegexPattern.test(value)) {
+                return fail(`${path} must be a valid email address.`);
+            }
+            if (rule.type === 'objectId' && !isValidObjectId(value)) {
+                return fail(`${path} must be a valid ID.`);
+            }
+            if (rule.type === 'date' && (!isoDatePattern.test(value) || isNaN(Date.parse(value)))) {
+                return fail(`${path} must be a valid date.`);
+            }
+            if (rule.min !== undefined && value.length < rule.min) {
+                return fail(`${path} must be at least ${rule.min} characters long.`);
+            }
+            if (rule.max !== undefined && value.length > rule.max) {
+                return fail(`${path} must be at most ${rule.max} characters long.`);
+            }
+            if (rule.pattern && !rule.pattern.test(value)) {
+                return fail(`${path} is not valid.`);
+            }
+            break;
+        case 'number':
+            if (typeof value !== 'number' || isNaN(value)) {
+                return fail(`${path} must be a number.`);
+            }
+            if (rule.integer && !Number.isInteger(value)) {
+                return fail(`${path} must be an integer.`);
+            }
+            if (rule.min !== undefined && value < rule.min) {
+                return fail(`${path} must be at least ${rule.min}.`);
+            }
+            if (rule.max !== undefined && value > rule.max) {
+                return fail(`${path} must be at most ${rule.max}.`);
+            }
+            break;
+        case 'boolean':
+            if (typeof value !== 'boolean') {
+                return fail(`${path} must be true or false.`);
+            }
+            break;
+        case 'array':
+            if (!Array.isArray(value)) {
+                return fail(`${path} must be a list.`);
+            }
+            if (rule.min !== undefined && value.length < rule.min) {
+                return fail(`${path} must have at least ${rule.min} items.`);
+            }
+            if (rule.max !== undefined && value.length > rule.max) {
+                return fail(`${path} must have at most ${rule.max} items.`);
+            }
+            if (rule.items) {
+                value.forEach((item, index) => checkField(item, rule.items as IFieldRule, `${path}[${index}]`, errors));
+            }
+            return;
+        case 'object':
+            if (typeof value !== 'object' || Array.isArray(value)) {
+                return fail(`${path} must be an object.`);
+            }
+            if (rule.fields) {
+                checkSchema(value, rule.fields, `${path}.`, errors);
+            }
+            return;
+    }
+
+    if (rule.enum && !rule.enum.includes(value as string | number)) {
+        fail(`${path} must be one of: ${rule.enum.join(', ')}.`);
+    }
+};
+
+/**
+ * @function checkSchema
+ * @summary This function checks every field of an object against a validation schema.
+ * @param {any} data - The object to check.
+ * @param {ValidationSchema} schema - The validation schema.
+ * @param {string} prefix - The prefix of the paths of the fields, used for nested objects.
+ * @param {{ [field: string]: string }} errors - The errors found so far, to which the errors of the fields are added.
+ */
+const checkSchema = (data: any, schema: ValidationSchema, prefix: string, errors: { [field: string]: string }) => {
+    Object.keys(schema).forEach(field => {
+        checkField(data?.[field], schema[field], `${prefix}${field}`, errors);
+    });
+};
+
+/**
+ * @function validate
+ * @summary This function is used to declare the shape of the requests a route accepts.
+ * @description It returns a middleware that checks the body, route parameters and query string of the request against the given schemas,
+ * before the controller runs. Route parameters and query strings are converted to the declared types first.
+ * If any field is not valid, it passes a 422 error to the next middleware function, with an `errors` map from each field to its message,
+ * which the error middleware sends to the client. The same map is also sent in `details`, like the other errors with details.
+ * @param {IRequestSchema} schema - The validation schemas of the parts of the request.
+ * @returns {Function} - The Express middleware function.
+ */
+export const validate = (schema: IRequestSchema) => {
+    return (req: Request, res: Response, next: NextFunction) => {
+        const errors: { [field: string]: string } = {};
+
+        (['params', 'query'] as const).forEach(part => {
+            const partSchema = schema[part];
+
+            if (partSchema) {
+                Object.keys(partSchema).forEach(field => {
+                    if (req[part][field] !== undefined) {
+                        req[part][field] = coerce(req[part][field], partSchema[field]);
+                    }
+                });
+
+                checkSchema(req[part], partSchema, '', errors);
+            }
+        });
+
+        if (schema.body) {
+            checkSchema(req.body, schema.body, '', errors);
+        }
+
+        if (Object.keys(errors).length) {
+            return next(new ErrorHandle("Please check the highlighted fields.", 422, { details: errors, errors }));
+        }
+
+        next();
+    };
+};
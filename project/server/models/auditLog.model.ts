@@ -0,0 +1,60 @@
+/**
+ * @summary This code defines an AuditLog model for a MongoDB database using Mongoose and TypeScript.
+ * An audit log entry records an action an admin took on another record, with its values before and after the action.
+ */
+
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * @interface IAuditLog
+ * @summary This interface extends the Document object from Mongoose and represents an AuditLog document in the MongoDB database.
+ * @property {string} actor - The ID of the admin who took the action.
+ * @property {string} action - The name of the action, such as `user.role.update`.
+ * @property {string} target - The ID of the record the action was taken on.
+ * @property {string} targetType - The type of the record the action was taken on, such as `User`.
+ * @property {any} before - The values of the record before the action.
+ * @property {any} after - The values of the record after the action.
+ * @property {Date} createdAt - The date the action was taken.
+ */
+export interface IAuditLog extends Document {
+    actor: mongoose.Types.ObjectId;
+    action: string;
+    target: mongoose.Types.ObjectId;
+    targetType: string;
+    before: any;
+    after: any;
+    createdAt: Date;
+}
+
+/**
+ * @summary This is the AuditLogSchema object in Mongoose.
+ * @description Audit log entries are never updated, so only the createdAt timestamp is managed.
+ */
+const AuditLogSchema: Schema<IAuditLog> = new Schema({
+    actor: {
+        type: Schema.Types.ObjectId,
+        ref: 'User',
+        required: true
+    },
+    action: {
+        type: String,
+        required: true
+    },
+    target: {
+        type: Schema.Types.ObjectId,
+        required: true
+    },
+    targetType: {
+        type: String,
+        required: true
+    },
+    before: Schema.Types.Mixed,
+    after: Schema.Types.Mixed
+}, { timestamps: { createdAt: true, updatedAt: false } });
+
+AuditLogSchema.index({ target: 1, createdAt: -1 });
+
+/**
+ * @summary The model is created from the AuditLogSchema schema and exported
+ */
+export default mongoose.model<IAuditLog>('AuditLog', AuditLogSchema);
@@ -0,0 +1,74 @@
+/**
+ * @summary This code defines a Certificate model for a MongoDB database using Mongoose and TypeScript.
+ * A certificate is issued to a user when they complete a course, and can be verified by anyone from its serial.
+ */
+
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * @interface ICertificate
+ * @summary This interface extends the Document object from Mongoose and represents a Certificate document in the MongoDB database.
+ * @description The name of the user and the title of the course are copied when the certificate is issued,
+ * so the certificate keeps showing what it was issued for even if they are renamed later.
+ * @property {string} serial - The unique serial of the certificate, printed on it and used to verify it.
+ * @property {string} userId - The ID of the user.
+ * @property {string} courseId - The ID of the course.
+ * @property {string} name - The name of the user when the certificate was issued.
+ * @property {string} courseTitle - The title of the course when the certificate was issued.
+ * @property {Date} completedAt - The date the user completed the course.
+ * @property {string} [emailStatus] - Whether the certificate has been emailed to the user, 'pending' or 'sent'.
+ * Certificates issued before it was recorded have none, and count as sent.
+ */
+export interface ICertificate extends Document {
+    serial: string;
+    userId: string;
+    courseId: string;
+    name: string;
+    courseTitle: string;
+    completedAt: Date;
+    emailStatus?: string;
+}
+
+/**
+ * @summary This is the CertificateSchema object in Mongoose.
+ * @description Each user has at most one certificate per course, which is enforced by a unique index.
+ * The 'timestamps' option is set to true to automatically manage createdAt and updatedAt properties.
+ */
+const CertificateSchema: Schema<ICertificate> = new Schema({
+    serial: {
+        type: String,
+        required: true,
+        unique: true
+    },
+    userId: {
+        type: String,
+        required: true
+    },
+    courseId: {
+        type: String,
+        required: true
+    },
+    name: {
+        type: String,
+        required: true
+    },
+    courseTitle: {
+        type: String,
+        required: true
+    },
+    completedAt: {
+        type: Date,
+        required: true
+    },
+    emailStatus: {
+        type: String,
+        enum: ['pending', 'sent']
+    }
+}, { timestamps: true });
+
+CertificateSchema.index({ userId: 1, courseId: 1 }, { unique: true });
+
+/**
+ * @summary The model is created from the CertificateSchema schema and exported
+ */
+export default mongoose.model<ICertificate>('Certificate', CertificateSchema);
@@ -0,0 +1,111 @@
+/**
+ * @summary This code defines a Coupon model for a MongoDB database using Mongoose and TypeScript.
+ * A coupon is a code that gives a discount on the price of a course at checkout.
+ */
+
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * @summary The types of discount a coupon can give.
+ * @description A 'percentage' coupon takes a percentage off the price, and a 'fixed' coupon takes an amount off the price,
+ * in the currency of the payments, without going below zero.
+ */
+export const couponTypes = ['percentage', 'fixed'];
+
+/**
+ * @interface ICoupon
+ * @summary This interface extends the Document object from Mongoose and represents a Coupon document in the MongoDB database.
+ * @property {string} code - The code of the coupon, in upper case.
+ * @property {string} [description] - A description of the coupon, for the admins.
+ * @property {string} type - The type of discount of the coupon.
+ * @property {number} value - The percentage or the amount of the discount.
+ * @property {Date} [startsAt] - The date the coupon can be used from.
+ * @property {Date} [expiresAt] - The date the coupon expires.
+ * @property {number} maxUses - The number of times the coupon can be used in total, or 0 for no limit.
+ * @property {number} maxUsesPerUser - The number of times each user can use the coupon, or 0 for no limit.
+ * @property {string[]} courses - The IDs of the courses the coupon applies to, or an empty list for every course.
+ * @property {boolean} active - Whether the coupon can be used. Admins can deactivate a coupon without deleting it.
+ * @property {number} uses - The number of orders that hold the coupon, pending or paid.
+ */
+export interface ICoupon extends Document {
+    code: string;
+    description?: string;
+    type: string;
+    value: number;
+    startsAt?: Date;
+    expiresAt?: Date;
+    maxUses: number;
+    maxUsesPerUser: number;
+    courses: string[];
+    active: boolean;
+    uses: number;
+}
+
+/**
+ * @summary This is the CouponSchema object in Mongoose.
+ * @description This schema defines the structure of the Coupon document in the MongoDB database.
+ * The 'timestamps' option is set to true to automatically manage createdAt and updatedAt properties.
+ */
+const CouponSchema: Schema<ICoupon> = new Schema({
+    code: {
+        type: String,
+        required: [true, "Please enter the coupon code." ],
+        unique: true,
+        uppercase: true,
+        trim: true
+    },
+    description: String,
+    type: {
+        type: String,
+        enum: {
+            values: couponTypes,
+            message: "Type must be one of: " + couponTypes.join(', ') + "."
+        },
+        required: [true, "Please enter the coupon type." ]
+    },
+    value: {
+        type: Number,
+        required: [true, "Please enter the coupon value." ],
+        min: [0, "Value cannot be negative." ],
+        validate: {
+            validator: function (this: ICoupon, value: number) {
+                return this.type !== 'percentage' || value <= 100;
+            },
+            message: "A percentage cannot be over 100."
+        }
+    },
+    startsAt: Date,
+    expiresAt: {
+        type: Date,
+        validate: {
+            validator: function (this: ICoupon, expiresAt: Date) {
+                return !this.startsAt || expiresAt > this.startsAt;
+            },
+            message: "The coupon must expire after it starts."
+        }
+    },
+    maxUses: {
+        type: Number,
+        default: 0,
+        min: [0, "Maximum uses cannot be negative." ]
+    },
+    maxUsesPerUser: {
+        type: Number,
+        default: 1,
+        min: [0, "Maximum uses per user cannot be negative." ]
+    },
+    courses: [String],
+    active: {
+        type: Boolean,
+        default: true
+    },
+    uses: {
+        type: Number,
+        default: 0
+    }
+}, { timestamps: true });
+
+/**
+ * @summary The model is created from the CouponSchema schema and exported
+ */
+export default mongoose.model<ICoupon>('Coupon', CouponSchema);
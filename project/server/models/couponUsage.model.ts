@@ -0,0 +1,46 @@
+/**
+ * @summary This code defines a CouponUsage model for a MongoDB database using Mongoose and TypeScript.
+ * A coupon usage counts how many orders of a user hold a coupon, to enforce the per-user limit of the coupon.
+ */
+
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * @interface ICouponUsage
+ * @summary This interface extends the Document object from Mongoose and represents a CouponUsage document in the MongoDB database.
+ * @property {string} couponId - The ID of the coupon.
+ * @property {string} userId - The ID of the user.
+ * @property {number} uses - The number of orders of the user that hold the coupon, pending or paid.
+ */
+export interface ICouponUsage extends Document {
+    couponId: string;
+    userId: string;
+    uses: number;
+}
+
+/**
+ * @summary This is the CouponUsageSchema object in Mongoose.
+ * @description Each user has at most one usage document per coupon, which is enforced by a unique index.
+ * The index also makes the reservation of a coupon atomic, see `reserveCoupon`.
+ */
+const CouponUsageSchema: Schema<ICouponUsage> = new Schema({
+    couponId: {
+        type: String,
+        required: true
+    },
+    userId: {
+        type: String,
+        required: true
+    },
+    uses: {
+        type: Number,
+        default: 0
+    }
+}, { timestamps: true });
+
+CouponUsageSchema.index({ couponId: 1, userId: 1 }, { unique: true });
+
+/**
+ * @summary The model is created from the CouponUsageSchema schema and exported
+ */
+export default mongoose.model<ICouponUsage>('CouponUsage', CouponUsageSchema);
@@ -0,0 +1,318 @@
+/**
+ * @summary This code defines a Course model for a MongoDB database using Mongoose and TypeScript.
+ * A course is made of ordered sections, and each section is made of ordered lessons.
+ */
+
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * @interface ILink
+ * @summary This interface represents a link attached to a lesson, such as a resource or source code repository.
+ * @property {string} title - The title of the link.
+ * @property {string} url - The URL of the link.
+ */
+export interface ILink extends Document {
+    title: string;
+    url: string;
+}
+
+/**
+ * @interface ILesson
+ * @summary This interface represents a lesson of a course section.
+ * @property {string} title - The title of the lesson.
+ * @property {string} description - The description of the lesson.
+ * @property {string} [videoUrl] - The URL of a lesson video hosted elsewhere.
+ * @property {string} [video] - The ID of the lesson video in the video storage. It is only streamed to enrolled users, through signed playback URLs.
+ * @property {number} videoLength - The duration of the lesson video, in minutes.
+ * @property {ILink[]} links - The links attached to the lesson.
+ */
+export interface ILesson extends Document {
+    title: string;
+    description: string;
+    videoUrl?: string;
+    video?: string;
+    videoLength: number;
+    links: ILink[];
+}
+
+/**
+ * @interface ISection
+ * @summary This interface represents a section of a course, which groups an ordered list of lessons.
+ * @property {string} title - The title of the section.
+ * @property {ILesson[]} lessons - The lessons of the section, in order.
+ */
+export interface ISection extends Document {
+    title: string;
+    lessons: ILesson[];
+}
+
+/**
+ * @interface ISale
+ * @summary This interface represents a time-boxed sale of a course.
+ * @property {number} price - The price of the course during the sale.
+ * @property {Date} [startsAt] - The date the sale starts. A sale without a start date starts right away.
+ * @property {Date} endsAt - The date the sale ends.
+ */
+export interface ISale {
+    price: number;
+    startsAt?: Date;
+    endsAt: Date;
+}
+
+/**
+ * @interface ICourse
+ * @summary This interface extends the Document object from Mongoose and represents a Course document in the MongoDB database.
+ * @property {string} title - The title of the course.
+ * @property {string} description - The description of the course.
+ * @property {number} price - The price of the course.
+ * @property {number} [estimatedPrice] - The estimated price of the course, shown as the original price.
+ * @property {ISale} [sale] - The sale of the course, if it has one.
+ * @property {number} currentPrice - The price the course is sold at right now: the sale price during the sale, the price otherwise. It is a virtual.
+ * @property {number | null} wasPrice - The "was" price shown next to the current price: the estimated price, or the price during a sale. It is a virtual.
+ * @property {Object} thumbnail - The thumbnail of the course, including a public_id and url.
+ * @property {string[]} tags - The tags of the course.
+ * @property {string} level - The level of the course.
+ * @property {string} demoUrl - The URL of the demo video of the course.
+ * @property {Array<{ title: string }>} benefits - What the learner gets from the course.
+ * @property {Array<{ title: string }>} prerequisites - What the learner needs to know before taking the course.
+ * @property {ISection[]} sections - The sections of the course, in order.
+ * @property {number} purchased - The number of times the course has been bought.
+ * @property {number} ratings - The average rating of the course reviews.
+ * @property {number} reviewCount - The number of reviews of the course.
+ * @property {string} [instructor] - The ID of the instructor who owns the course. Courses created by admins have none unless one is given.
+ * @property {string} [status] - The publication state of the course, see `courseStatuses`.
+ * @property {string} [reviewNote] - Why an admin sent the course back to draft, for the instructor.
+ */
+export interface ICourse extends Document {
+    title: string;
+    description: string;
+    price: number;
+    estimatedPrice?: number;
+    sale?: ISale;
+    currentPrice: number;
+    wasPrice: number | null;
+    thumbnail: {
+        public_id: string;
+        url: string;
+    };
+    tags: string[];
+    level: string;
+    demoUrl: string;
+    benefits: Array<{ title: string }>;
+    prerequisites: Array<{ title: string }>;
+    sections: ISection[];
+    purchased: number;
+    ratings: number;
+    reviewCount: number;
+    instructor?: string;
+    status?: string;
+    reviewNote?: string;
+}
+
+/**
+ * @summary The levels a course can have.
+ */
+export const courseLevels = ['beginner', 'intermediate', 'advanced'];
+
+/**
+ * @summary The publication states of a course.
+ * @description A course is written as a 'draft', submitted for 'review' by its instructor, and 'published' once an admin approves it.
+ * Only published courses are listed in the catalogue and can be bought.
+ * Courses created before the publication workflow have no status, and count as published.
+ */
+export const courseStatuses = ['draft', 'review', 'published'];
+
+/**
+ * @summary The Mongoose filter of the published courses, including the courses without a status.
+ */
+export const publishedCourseFilter = { status: { $nin: ['draft', 'review'] } };
+
+/**
+ * @function isPublished
+ * @summary This function checks whether a course is published, like `publishedCourseFilter`.
+ * @param {ICourse} course - The course.
+ * @returns {boolean} - Whether the course is published.
+ */
+export const isPublished = (course: ICourse): boolean => {
+    return !course.status || course.status === 'published';
+}
+
+/**
+ * @summary The lesson fields that are only sent to users who have bought the course.
+ * @description They are used as a Mongoose projection to strip the lesson content from public responses.
+ */
+export const lessonContentFields = '-sections.lessons.videoUrl -sections.lessons.video -sections.lessons.links';
+
+/**
+ * @function isSaleActive
+ * @summary This function checks whether the sale of a course is running.
+ * @param {ISale | undefined} sale - The sale of the course.
+ * @param {Date} [now] - The date to check, which defaults to the current date.
+ * @returns {boolean} - Whether the sale is running.
+ */
+export const isSaleActive = (sale: ISale | undefined, now: Date = new Date()): boolean => {
+    if (!sale || sale.price === undefined || sale.price === null || !sale.endsAt) {
+        return false;
+    }
+
+    return (!sale.startsAt || sale.startsAt <= now) && sale.endsAt > now;
+}
+
+/**
+ * @summary This is the LinkSchema object in Mongoose.
+ */
+const LinkSchema: Schema<ILink> = new Schema({
+    title: String,
+    url: String
+});
+
+/**
+ * @summary This is the LessonSchema object in Mongoose.
+ */
+const LessonSchema: Schema<ILesson> = new Schema({
+    title: {
+        type: String,
+        required: [true, "Please enter the lesson title." ]
+    },
+    description: String,
+    videoUrl: String,
+    video: String,
+    videoLength: {
+        type: Number,
+        default: 0
+    },
+    links: [LinkSchema]
+});
+
+/**
+ * @summary This is the SectionSchema object in Mongoose.
+ */
+const SectionSchema: Schema<ISection> = new Schema({
+    title: {
+        type: String,
+        required: [true, "Please enter the section title." ]
+    },
+    lessons: [LessonSchema]
+});
+
+/**
+ * @summary This is the CourseSchema object in Mongoose.
+ * @description This schema defines the structure of the Course document in the MongoDB database.
+ * The 'timestamps' option is set to true to automatically manage createdAt and updatedAt properties.
+ * The status has no default, so the courses created before the publication workflow stay published.
+ * The virtuals are included when a course is sent as JSON, without the `id` virtual, which would duplicate `_id`.
+ */
+const CourseSchema: Schema<ICourse> = new Schema({
+    title: {
+        type: String,
+        required: [true, "Please enter the course title." ]
+    },
+    description: {
+        type: String,
+        required: [true, "Please enter the course description." ]
+    },
+    price: {
+        type: Number,
+        required: [true, "Please enter the course price." ],
+        min: [0, "Price cannot be negative." ]
+    },
+    estimatedPrice: {
+        type: Number,
+        min: [0, "Estimated price cannot be negative." ]
+    },
+    sale: {
+        type: new Schema({
+            price: {
+                type: Number,
+                required: [true, "Please enter the sale price." ],
+                min: [0, "Sale price cannot be negative." ]
+            },
+            startsAt: Date,
+            endsAt: {
+                type: Date,
+                required: [true, "Please enter the end date of the sale." ],
+                validate: {
+                    validator: function (this: ISale, endsAt: Date) {
+                        return !this.startsAt || endsAt > this.startsAt;
+                    },
+                    message: "The sale must end after it starts."
+                }
+            }
+        }, { _id: false }),
+        default: undefined
+    },
+    thumbnail: {
+        public_id: String,
+        url: String
+    },
+    tags: [String],
+    level: {
+        type: String,
+        enum: {
+            values: courseLevels,
+            message: "Level must be one of: " + courseLevels.join(', ') + "."
+        },
+        default: "beginner"
+    },
+    demoUrl: String,
+    benefits: [{ title: String }],
+    prerequisites: [{ title: String }],
+    sections: [SectionSchema],
+    purchased: {
+        type: Number,
+        default: 0
+    },
+    ratings: {
+        type: Number,
+        default: 0
+    },
+    reviewCount: {
+        type: Number,
+        default: 0
+    },
+    instructor: {
+        type: String,
+        index: true
+    },
+    status: {
+        type: String,
+        enum: {
+            values: courseStatuses,
+            message: "Status must be one of: " + courseStatuses.join(', ') + "."
+        }
+    },
+    reviewNote: String
+}, { timestamps: true, id: false, toJSON: { virtuals: true }, toObject: { virtuals: true } });
+
+/**
+ * @summary The price the course is sold at right now, which is the sale price while the sale is running.
+ */
+CourseSchema.virtual('currentPrice').get(function (this: ICourse) {
+    return isSaleActive(this.sale) ? this.sale?.price : this.price;
+});
+
+/**
+ * @summary The "was" price shown next to the current price.
+ * @description It is the estimated price when the course has one. During a sale, it falls back to the regular price,
+ * so the discount is always shown. It is null when there is nothing to compare the current price to.
+ */
+CourseSchema.virtual('wasPrice').get(function (this: ICourse) {
+    const wasPrice = this.estimatedPrice ?? (isSaleActive(this.sale) ? this.price : undefined);
+
+    return wasPrice !== undefined && wasPrice > this.currentPrice ? wasPrice : null;
+});
+
+/**
+ * @summary This text index is used by the course search.
+ * @description Keywords are matched against the title, tags, lesson titles and description of the courses,
+ * and the weights rank a match in the title above a match in the description.
+ */
+CourseSchema.index(
+    { title: 'text', tags: 'text', 'sections.lessons.title': 'text', description: 'text' },
+    { name: 'course_search', weights: { title: 10, tags: 5, 'sections.lessons.title': 3, description: 1 } }
+);
+
+/**
+ * @summary The model is created from the CourseSchema schema and exported
+ */
+export default mongoose.model<ICourse>('Course', CourseSchema);
\ No newline at end of file
@@ -0,0 +1,73 @@
+/**
+ * @summary This code defines an InstructorApplication model for a MongoDB database using Mongoose and TypeScript.
+ * An instructor application is the request of a user to become an instructor, which is approved or rejected by an admin.
+ */
+
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * @summary The states of an instructor application.
+ */
+export const instructorApplicationStatuses = ['pending', 'approved', 'rejected'];
+
+/**
+ * @interface IInstructorApplication
+ * @summary This interface extends the Document object from Mongoose and represents an InstructorApplication document in the MongoDB database.
+ * @property {string} userId - The ID of the user who applied.
+ * @property {string} motivation - Why the user wants to teach.
+ * @property {string} expertise - The subjects the user wants to teach, and their experience in them.
+ * @property {string} status - The state of the application, see `instructorApplicationStatuses`.
+ * @property {string} [reviewedBy] - The ID of the admin who approved or rejected the application.
+ * @property {string} [reviewNote] - The note of the admin, such as why the application was rejected.
+ * @property {Date} [reviewedAt] - When the application was approved or rejected.
+ */
+export interface IInstructorApplication extends Document {
+    userId: string;
+    motivation: string;
+    expertise: string;
+    status: string;
+    reviewedBy?: string;
+    reviewNote?: string;
+    reviewedAt?: Date;
+}
+
+/**
+ * @summary This is the InstructorApplicationSchema object in Mongoose.
+ * @description A user can only have one pending application at a time, which is enforced by a partial unique index.
+ */
+const InstructorApplicationSchema: Schema<IInstructorApplication> = new Schema({
+    userId: {
+        type: String,
+        required: true
+    },
+    motivation: {
+        type: String,
+        required: [true, "Please enter your motivation"],
+        maxlength: [2000, "Motivation cannot exceed 2000 characters"]
+    },
+    expertise: {
+        type: String,
+        required: [true, "Please enter your expertise"],
+        maxlength: [2000, "Expertise cannot exceed 2000 characters"]
+    },
+    status: {
+        type: String,
+        enum: {
+            values: instructorApplicationStatuses,
+            message: "Status must be one of: " + instructorApplicationStatuses.join(', ') + "."
+        },
+        default: 'pending'
+    },
+    reviewedBy: String,
+    reviewNote: String,
+    reviewedAt: Date
+}, { timestamps: true });
+
+InstructorApplicationSchema.index({ userId: 1 }, { unique: true, partialFilterExpression: { status: 'pending' } });
+InstructorApplicationSchema.index({ userId: 1, createdAt: -1 });
+InstructorApplicationSchema.index({ status: 1, createdAt: 1 });
+
+/**
+ * @summary The model is created from the InstructorApplicationSchema schema and exported
+ */
+export default mongoose.model<IInstructorApplication>('InstructorApplication', InstructorApplicationSchema);
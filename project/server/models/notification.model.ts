@@ -0,0 +1,56 @@
+/**
+ * @summary This code defines a Notification model for a MongoDB database using Mongoose and TypeScript.
+ * A notification is sent to a user, or to every admin when it has no target user.
+ */
+
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * @interface INotification
+ * @summary This interface extends the Document object from Mongoose and represents a Notification document in the MongoDB database.
+ * @property {string} title - The title of the notification.
+ * @property {string} message - The message of the notification.
+ * @property {string} status - Whether the notification has been read, either `unread` or `read`.
+ * @property {string} [user] - The ID of the target user. Notifications without a target user are for the admins.
+ * @property {Date} [readAt] - The date the notification was read.
+ */
+export interface INotification extends Document {
+    title: string;
+    message: string;
+    status: string;
+    user?: mongoose.Types.ObjectId | null;
+    readAt?: Date;
+}
+
+/**
+ * @summary This is the NotificationSchema object in Mongoose.
+ * @description The 'timestamps' option is set to true to automatically manage createdAt and updatedAt properties.
+ */
+const NotificationSchema: Schema<INotification> = new Schema({
+    title: {
+        type: String,
+        required: true
+    },
+    message: {
+        type: String,
+        required: true
+    },
+    status: {
+        type: String,
+        enum: ['unread', 'read'],
+        default: "unread"
+    },
+    user: {
+        type: Schema.Types.ObjectId,
+        ref: 'User',
+        default: null
+    },
+    readAt: Date
+}, { timestamps: true });
+
+NotificationSchema.index({ user: 1, createdAt: -1 });
+
+/**
+ * @summary The model is created from the NotificationSchema schema and exported
+ */
+export default mongoose.model<INotification>('Notification', NotificationSchema);
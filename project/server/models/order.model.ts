@@ -0,0 +1,110 @@
+/**
+ * @summary This code defines an Order model for a MongoDB database using Mongoose and TypeScript.
+ * An order records the purchase of a course by a user and the state of its payment.
+ */
+
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * @summary The states an order can be in.
+ * @description An order is created as pending, and becomes paid or failed once the payment provider confirms the payment.
+ * A pending order expires when the user checks out the same course again, or when it has waited too long for its payment.
+ */
+export const orderStatuses = ['pending', 'paid', 'failed', 'expired'];
+
+/**
+ * @interface IOrder
+ * @summary This interface extends the Document object from Mongoose and represents an Order document in the MongoDB database.
+ * @property {string} courseId - The ID of the course being bought.
+ * @property {string} userId - The ID of the user buying the course.
+ * @property {number} amount - The amount charged for the course, after the discount of the coupon.
+ * @property {number} originalAmount - The price of the course at checkout, before the discount of the coupon.
+ * It defaults to the amount, for the orders created before coupons existed.
+ * @property {number} discount - The discount of the coupon.
+ * @property {Object} [coupon] - The coupon applied to the order, with its ID and its code at checkout.
+ * @property {string} currency - The currency of the amount.
+ * @property {string} provider - The name of the payment provider handling the payment.
+ * @property {string} [paymentId] - The ID of the payment at the payment provider.
+ * @property {string} status - The state of the order.
+ * @property {Date} [paidAt] - The date the payment was confirmed.
+ * @property {Date} createdAt - The date the order was created.
+ */
+export interface IOrder extends Document {
+    courseId: string;
+    userId: string;
+    amount: number;
+    originalAmount: number;
+    discount: number;
+    coupon?: {
+        couponId: string;
+        code: string;
+    };
+    currency: string;
+    provider: string;
+    paymentId?: string;
+    status: string;
+    paidAt?: Date;
+    createdAt: Date;
+}
+
+/**
+ * @summary This is the OrderSchema object in Mongoose.
+ * @description The 'timestamps' option is set to true to automatically manage createdAt and updatedAt properties.
+ */
+const OrderSchema: Schema<IOrder> = new Schema({
+    courseId: {
+        type: String,
+        required: [true, "Please enter the course ID." ]
+    },
+    userId: {
+        type: String,
+        required: [true, "Please enter the user ID." ]
+    },
+    amount: {
+        type: Number,
+        required: true
+    },
+    originalAmount: {
+        type: Number,
+        default: function (this: IOrder) {
+            return this.amount;
+        }
+    },
+    discount: {
+        type: Number,
+        default: 0
+    },
+    coupon: {
+        couponId: {
+            type: String,
+            index: true
+        },
+        code: String
+    },
+    currency: {
+        type: String,
+        default: "USD"
+    },
+    provider: {
+        type: String,
+        required: true
+    },
+    paymentId: {
+        type: String,
+        index: true
+    },
+    status: {
+        type: String,
+        enum: orderStatuses,
+        default: "pending"
+    },
+    paidAt: Date
+}, { timestamps: true });
+
+OrderSchema.index({ userId: 1, courseId: 1, status: 1 });
+OrderSchema.index({ status: 1, createdAt: 1 });
+
+/**
+ * @summary The model is created from the OrderSchema schema and exported
+ */
+export default mongoose.model<IOrder>('Order', OrderSchema);
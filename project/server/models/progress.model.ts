@@ -0,0 +1,89 @@
+/**
+ * @summary This code defines a Progress model for a MongoDB database using Mongoose and TypeScript.
+ * A progress document records how far a user has got in one of their courses.
+ */
+
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * @interface ILessonProgress
+ * @summary This interface represents the progress of a user in one lesson.
+ * @property {string} lessonId - The ID of the lesson.
+ * @property {boolean} completed - Whether the user has watched the lesson.
+ * @property {number} position - The last playback position in the lesson video, in seconds.
+ * @property {Date} updatedAt - The date the lesson progress was last updated.
+ */
+export interface ILessonProgress extends Document {
+    lessonId: string;
+    completed: boolean;
+    position: number;
+    updatedAt: Date;
+}
+
+/**
+ * @interface IProgress
+ * @summary This interface extends the Document object from Mongoose and represents a Progress document in the MongoDB database.
+ * @property {string} userId - The ID of the user.
+ * @property {string} courseId - The ID of the course.
+ * @property {ILessonProgress[]} lessons - The progress of the user in each lesson they have started.
+ * @property {string[]} passedQuizzes - The IDs of the quizzes of the course the user has passed.
+ * @property {number} percentage - The percentage of the course the user has completed.
+ * @property {Date} [completedAt] - The date the user completed the course.
+ */
+export interface IProgress extends Document {
+    userId: string;
+    courseId: string;
+    lessons: ILessonProgress[];
+    passedQuizzes: string[];
+    percentage: number;
+    completedAt?: Date;
+}
+
+/**
+ * @summary This is the LessonProgressSchema object in Mongoose.
+ */
+const LessonProgressSchema: Schema<ILessonProgress> = new Schema({
+    lessonId: {
+        type: String,
+        required: true
+    },
+    completed: {
+        type: Boolean,
+        default: false
+    },
+    position: {
+        type: Number,
+        default: 0,
+        min: [0, "Position cannot be negative." ]
+    }
+}, { timestamps: { createdAt: false, updatedAt: true } });
+
+/**
+ * @summary This is the ProgressSchema object in Mongoose.
+ * @description Each user has at most one progress document per course, which is enforced by a unique index.
+ * The 'timestamps' option is set to true to automatically manage createdAt and updatedAt properties.
+ */
+const ProgressSchema: Schema<IProgress> = new Schema({
+    userId: {
+        type: String,
+        required: true
+    },
+    courseId: {
+        type: String,
+        required: true
+    },
+    lessons: [LessonProgressSchema],
+    passedQuizzes: [String],
+    percentage: {
+        type: Number,
+        default: 0
+    },
+    completedAt: Date
+}, { timestamps: true });
+
+ProgressSchema.index({ userId: 1, courseId: 1 }, { unique: true });
+
+/**
+ * @summary The model is created from the ProgressSchema schema and exported
+ */
+export default mongoose.model<IProgress>('Progress', ProgressSchema);
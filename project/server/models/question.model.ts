@@ -0,0 +1,83 @@
+/**
+ * @summary This code defines a Question model for a MongoDB database using Mongoose and TypeScript.
+ * A question is asked by a learner under a lesson of a course, and holds the thread of replies to it.
+ */
+
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * @interface IReply
+ * @summary This interface represents a reply in a question thread.
+ * @property {string} user - The ID of the user who wrote the reply.
+ * @property {string} answer - The text of the reply.
+ * @property {Date} createdAt - The date the reply was written.
+ */
+export interface IReply extends Document {
+    user: mongoose.Types.ObjectId;
+    answer: string;
+    createdAt: Date;
+}
+
+/**
+ * @interface IQuestion
+ * @summary This interface extends the Document object from Mongoose and represents a Question document in the MongoDB database.
+ * @property {string} courseId - The ID of the course.
+ * @property {string} lessonId - The ID of the lesson the question is asked under.
+ * @property {string} user - The ID of the user who asked the question.
+ * @property {string} question - The text of the question.
+ * @property {IReply[]} replies - The replies to the question, in order.
+ */
+export interface IQuestion extends Document {
+    courseId: string;
+    lessonId: string;
+    user: mongoose.Types.ObjectId;
+    question: string;
+    replies: mongoose.Types.DocumentArray<IReply>;
+}
+
+/**
+ * @summary This is the ReplySchema object in Mongoose.
+ */
+const ReplySchema: Schema<IReply> = new Schema({
+    user: {
+        type: Schema.Types.ObjectId,
+        ref: 'User',
+        required: true
+    },
+    answer: {
+        type: String,
+        required: [true, "Please enter your reply." ]
+    }
+}, { timestamps: true });
+
+/**
+ * @summary This is the QuestionSchema object in Mongoose.
+ * @description The 'timestamps' option is set to true to automatically manage createdAt and updatedAt properties.
+ */
+const QuestionSchema: Schema<IQuestion> = new Schema({
+    courseId: {
+        type: String,
+        required: true
+    },
+    lessonId: {
+        type: String,
+        required: true
+    },
+    user: {
+        type: Schema.Types.ObjectId,
+        ref: 'User',
+        required: true
+    },
+    question: {
+        type: String,
+        required: [true, "Please enter your question." ]
+    },
+    replies: [ReplySchema]
+}, { timestamps: true });
+
+QuestionSchema.index({ courseId: 1, lessonId: 1, createdAt: -1 });
+
+/**
+ * @summary The model is created from the QuestionSchema schema and exported
+ */
+export default mongoose.model<IQuestion>('Question', QuestionSchema);
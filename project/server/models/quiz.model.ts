@@ -0,0 +1,196 @@
+/**
+ * @summary This code defines a Quiz model for a MongoDB database using Mongoose and TypeScript.
+ * A quiz is attached to a section of a course, and is graded on the server when a learner submits an attempt.
+ */
+
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * @interface IQuizOption
+ * @summary This interface represents an option of a multiple-choice or multi-select question.
+ * @property {string} text - The text of the option.
+ * @property {boolean} correct - Whether the option is a correct answer. It is never loaded unless it is selected explicitly.
+ */
+export interface IQuizOption extends Document {
+    text: string;
+    correct: boolean;
+}
+
+/**
+ * @interface IQuizQuestion
+ * @summary This interface represents a question of a quiz.
+ * @description The type of a question decides how it is answered and graded:
+ * - 'single' is a multiple-choice question, answered with exactly one option.
+ * - 'multiple' is a multi-select question, answered with every correct option and no other.
+ * - 'short' is a short-answer question, answered with a text that matches one of the accepted answers.
+ * @property {string} type - The type of the question.
+ * @property {string} prompt - The text of the question.
+ * @property {IQuizOption[]} options - The options of a multiple-choice or multi-select question.
+ * @property {string[]} acceptedAnswers - The accepted answers of a short-answer question. They are never loaded unless they are selected explicitly.
+ * @property {string} [explanation] - Why the answer is correct, shown once the learner can see the answers.
+ * @property {number} points - The number of points the question is worth.
+ */
+export interface IQuizQuestion extends Document {
+    type: string;
+    prompt: string;
+    options: IQuizOption[];
+    acceptedAnswers: string[];
+    explanation?: string;
+    points: number;
+}
+
+/**
+ * @interface IQuiz
+ * @summary This interface extends the Document object from Mongoose and represents a Quiz document in the MongoDB database.
+ * @property {string} courseId - The ID of the course.
+ * @property {string} sectionId - The ID of the section of the course the quiz is attached to.
+ * @property {string} title - The title of the quiz.
+ * @property {string} [description] - The description of the quiz.
+ * @property {IQuizQuestion[]} questions - The questions of the quiz, in order.
+ * @property {number} passingScore - The score, in percent, a learner needs to pass the quiz.
+ * @property {number} maxAttempts - The number of attempts a learner has, or 0 for no limit.
+ * @property {number} timeLimit - The time a learner has to submit an attempt, in minutes, or 0 for no limit.
+ */
+export interface IQuiz extends Document {
+    courseId: string;
+    sectionId: string;
+    title: string;
+    description?: string;
+    questions: IQuizQuestion[];
+    passingScore: number;
+    maxAttempts: number;
+    timeLimit: number;
+}
+
+/**
+ * @summary The types a question can have.
+ */
+export const quizQuestionTypes = ['single', 'multiple', 'short'];
+
+/**
+ * @summary The fields that hold the answers of a quiz.
+ * @description They are excluded from every query by default, and are only selected with this projection,
+ * to grade an attempt or to show the answers to a learner who has submitted the quiz.
+ */
+export const quizAnswerFields = '+questions.options.correct +questions.acceptedAnswers +questions.explanation';
+
+/**
+ * @summary This is the QuizOptionSchema object in Mongoose.
+ */
+const QuizOptionSchema: Schema<IQuizOption> = new Schema({
+    text: {
+        type: String,
+        required: [true, "Please enter the option text." ]
+    },
+    correct: {
+        type: Boolean,
+        default: false,
+        select: false
+    }
+});
+
+/**
+ * @summary This is the QuizQuestionSchema object in Mongoose.
+ */
+const QuizQuestionSchema: Schema<IQuizQuestion> = new Schema({
+    type: {
+        type: String,
+        enum: {
+            values: quizQuestionTypes,
+            message: "Type must be one of: " + quizQuestionTypes.join(', ') + "."
+        },
+        required: [true, "Please enter the question type." ]
+    },
+    prompt: {
+        type: String,
+        required: [true, "Please enter the question." ]
+    },
+    options: [QuizOptionSchema],
+    acceptedAnswers: {
+        type: [String],
+        select: false
+    },
+    explanation: {
+        type: String,
+        select: false
+    },
+    points: {
+        type: Number,
+        default: 1,
+        min: [1, "Points must be at least 1." ]
+    }
+});
+
+/**
+ * @summary Checks that every question can be answered correctly before it is saved.
+ * @description Multiple-choice questions need at least two options and exactly one correct option,
+ * multi-select questions need at least two options and one correct option, and short-answer questions need an accepted answer.
+ */
+QuizQuestionSchema.pre('validate', function (next) {
+    const correct = this.options.filter(option => option.correct).length;
+
+    if (this.type === 'short') {
+        if (!this.acceptedAnswers.length) {
+            this.invalidate('acceptedAnswers', "A short-answer question needs at least one accepted answer.");
+        }
+    } else if (this.options.length < 2) {
+        this.invalidate('options', "A question needs at least two options.");
+    } else if (this.type === 'single' && correct !== 1) {
+        this.invalidate('options', "A multiple-choice question needs exactly one correct option.");
+    } else if (this.type === 'multiple' && correct < 1) {
+        this.invalidate('options', "A multi-select question needs at least one correct option.");
+    }
+
+    next();
+});
+
+/**
+ * @summary This is the QuizSchema object in Mongoose.
+ * @description This schema defines the structure of the Quiz document in the MongoDB database.
+ * The 'timestamps' option is set to true to automatically manage createdAt and updatedAt properties.
+ */
+const QuizSchema: Schema<IQuiz> = new Schema({
+    courseId: {
+        type: String,
+        required: true
+    },
+    sectionId: {
+        type: String,
+        required: [true, "Please enter the section of the quiz." ]
+    },
+    title: {
+        type: String,
+        required: [true, "Please enter the quiz title." ]
+    },
+    description: String,
+    questions: {
+        type: [QuizQuestionSchema],
+        validate: {
+            validator: (questions: IQuizQuestion[]) => questions.length > 0,
+            message: "A quiz needs at least one question."
+        }
+    },
+    passingScore: {
+        type: Number,
+        default: 70,
+        min: [0, "Passing score cannot be negative." ],
+        max: [100, "Passing score cannot be over 100." ]
+    },
+    maxAttempts: {
+        type: Number,
+        default: 0,
+        min: [0, "Maximum attempts cannot be negative." ]
+    },
+    timeLimit: {
+        type: Number,
+        default: 0,
+        min: [0, "Time limit cannot be negative." ]
+    }
+}, { timestamps: true });
+
+QuizSchema.index({ courseId: 1, sectionId: 1 });
+
+/**
+ * @summary The model is created from the QuizSchema schema and exported
+ */
+export default mongoose.model<IQuiz>('Quiz', QuizSchema);
@@ -0,0 +1,139 @@
+/**
+ * @summary This code defines a QuizAttempt model for a MongoDB database using Mongoose and TypeScript.
+ * An attempt records the answers of a user to a quiz, and their grade once it has been submitted.
+ */
+
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * @interface IQuizAnswer
+ * @summary This interface represents the answer of a user to a question of a quiz.
+ * @property {string} questionId - The ID of the question.
+ * @property {string[]} options - The IDs of the selected options, for multiple-choice and multi-select questions.
+ * @property {string} [text] - The text of the answer, for short-answer questions.
+ */
+export interface IQuizAnswer {
+    questionId: string;
+    options: string[];
+    text?: string;
+}
+
+/**
+ * @interface IQuizResult
+ * @summary This interface represents the grade of an answer.
+ * @property {string} questionId - The ID of the question.
+ * @property {boolean} correct - Whether the answer is correct.
+ * @property {number} points - The points the answer earned.
+ */
+export interface IQuizResult {
+    questionId: string;
+    correct: boolean;
+    points: number;
+}
+
+/**
+ * @interface IQuizAttempt
+ * @summary This interface extends the Document object from Mongoose and represents a QuizAttempt document in the MongoDB database.
+ * @description An attempt is 'in_progress' from the moment it is started until it is 'submitted',
+ * or 'expired' if the time limit of the quiz runs out first, in which case it is graded as failed.
+ * @property {string} quizId - The ID of the quiz.
+ * @property {string} userId - The ID of the user.
+ * @property {string} courseId - The ID of the course of the quiz.
+ * @property {string} status - The status of the attempt.
+ * @property {IQuizAnswer[]} answers - The answers of the user.
+ * @property {IQuizResult[]} results - The grade of each question.
+ * @property {number} points - The points the user earned.
+ * @property {number} maxPoints - The points the quiz is worth.
+ * @property {number} score - The score of the attempt, in percent.
+ * @property {boolean} passed - Whether the score reached the passing score of the quiz.
+ * @property {Date} startedAt - The date the attempt was started.
+ * @property {Date} [expiresAt] - The date the time limit runs out, if the quiz has one.
+ * @property {Date} [submittedAt] - The date the attempt was submitted or expired.
+ */
+export interface IQuizAttempt extends Document {
+    quizId: string;
+    userId: string;
+    courseId: string;
+    status: string;
+    answers: IQuizAnswer[];
+    results: IQuizResult[];
+    points: number;
+    maxPoints: number;
+    score: number;
+    passed: boolean;
+    startedAt: Date;
+    expiresAt?: Date;
+    submittedAt?: Date;
+}
+
+/**
+ * @summary The statuses an attempt can have.
+ */
+export const quizAttemptStatuses = ['in_progress', 'submitted', 'expired'];
+
+/**
+ * @summary This is the QuizAttemptSchema object in Mongoose.
+ * @description A user can only have one attempt in progress per quiz, which is enforced by a partial unique index.
+ * The 'timestamps' option is set to true to automatically manage createdAt and updatedAt properties.
+ */
+const QuizAttemptSchema: Schema<IQuizAttempt> = new Schema({
+    quizId: {
+        type: String,
+        required: true
+    },
+    userId: {
+        type: String,
+        required: true
+    },
+    courseId: {
+        type: String,
+        required: true
+    },
+    status: {
+        type: String,
+        enum: quizAttemptStatuses,
+        default: 'in_progress'
+    },
+    answers: [{
+        _id: false,
+        questionId: String,
+        options: [String],
+        text: String
+    }],
+    results: [{
+        _id: false,
+        questionId: String,
+        correct: Boolean,
+        points: Number
+    }],
+    points: {
+        type: Number,
+        default: 0
+    },
+    maxPoints: {
+        type: Number,
+        default: 0
+    },
+    score: {
+        type: Number,
+        default: 0
+    },
+    passed: {
+        type: Boolean,
+        default: false
+    },
+    startedAt: {
+        type: Date,
+        default: Date.now
+    },
+    expiresAt: Date,
+    submittedAt: Date
+}, { timestamps: true });
+
+QuizAttemptSchema.index({ quizId: 1, userId: 1, createdAt: -1 });
+QuizAttemptSchema.index({ quizId: 1, userId: 1 }, { unique: true, partialFilterExpression: { status: 'in_progress' } });
+
+/**
+ * @summary The model is created from the QuizAttemptSchema schema and exported
+ */
+export default mongoose.model<IQuizAttempt>('QuizAttempt', QuizAttemptSchema);
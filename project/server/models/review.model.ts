@@ -0,0 +1,55 @@
+/**
+ * @summary This code defines a Review model for a MongoDB database using Mongoose and TypeScript.
+ * A review is a rating and a comment left on a course by a learner who owns it.
+ */
+
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * @interface IReview
+ * @summary This interface extends the Document object from Mongoose and represents a Review document in the MongoDB database.
+ * @property {string} courseId - The ID of the reviewed course.
+ * @property {string} user - The ID of the user who wrote the review.
+ * @property {number} rating - The rating, from 1 to 5.
+ * @property {string} comment - The comment of the review.
+ */
+export interface IReview extends Document {
+    courseId: string;
+    user: mongoose.Types.ObjectId;
+    rating: number;
+    comment: string;
+}
+
+/**
+ * @summary This is the ReviewSchema object in Mongoose.
+ * @description A user can only review a course once, which is enforced by a unique index.
+ * The 'timestamps' option is set to true to automatically manage createdAt and updatedAt properties.
+ */
+const ReviewSchema: Schema<IReview> = new Schema({
+    courseId: {
+        type: String,
+        required: true
+    },
+    user: {
+        type: Schema.Types.ObjectId,
+        ref: 'User',
+        required: true
+    },
+    rating: {
+        type: Number,
+        required: [true, "Please enter a rating." ],
+        min: [1, "Rating must be between 1 and 5." ],
+        max: [5, "Rating must be between 1 and 5." ]
+    },
+    comment: {
+        type: String,
+        required: [true, "Please enter a comment." ]
+    }
+}, { timestamps: true });
+
+ReviewSchema.index({ courseId: 1, user: 1 }, { unique: true });
+
+/**
+ * @summary The model is created from the ReviewSchema schema and exported
+ */
+export default mongoose.model<IReview>('Review', ReviewSchema);
@@ -7,6 +7,7 @@
 import mongoose, { Document, Model, Schema } from 'mongoose';
 import bcrypt from 'bcryptjs';
 import jwt, {Secret} from 'jsonwebtoken';
+import { defaultLocale, supportedLocales } from '../utils/i18n';
 
 /**
  * @summary This line of code loads the environment variables from a .env file into process.env.
@@ -18,10 +19,17 @@ import jwt, {Secret} from 'jsonwebtoken';
  */
 require('dotenv').config();
 
+/**
+ * @summary The roles a user can have.
+ * @description Instructors author their own courses, which admins approve before they are published.
+ * Users become instructors through an instructor application, or when an admin changes their role.
+ */
+export const userRoles = ['user', 'instructor', 'admin'];
+
 /**
  * @summary This regex pattern is used to validate the email field.
  */
-const emailRegexPattern: RegExp = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+export const emailRegexPattern: RegExp = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
 
 /**
  * @interface IUser
@@ -30,29 +38,41 @@ const emailRegexPattern: RegExp = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
  * It also includes methods for password comparison and JWT generation.
  * @property {string} name - The name of the user.
  * @property {string} email - The email of the user.
- * @property {string} password - The password of the user.
+ * @property {string} [password] - The password of the user. Accounts created through a social login provider have none until the user sets one.
  * @property {Object} avatar - The avatar of the user, including a public_id and url.
  * @property {string} role - The role of the user.
  * @property {boolean} isVerified - Whether the user is verified.
+ * @property {boolean} isSuspended - Whether the account has been suspended by an admin, which blocks login.
  * @property {Array<{ courseId: string }>} courses - The courses the user is enrolled in.
+ * @property {string} locale - The locale the emails of the user are written in.
+ * @property {Array<{ provider: string, subject: string }>} providers - The social login identities linked to the account.
+ * @property {Object} twoFactor - The two-factor authentication of the user: whether it is enabled, the secret of the authenticator app, and the hashes of the unused recovery codes.
  * @method comparePassword - A method that takes a password as a parameter and returns a Promise that resolves to a boolean value indicating whether the provided password matches the hashed password stored in the database.
- * @method SignAccessToken - A method that generates a JWT (JSON Web Token) for the user.
- * @method SignRefreshToken - A method that generates a refresh JWT for the user.
+ * @method SignAccessToken - A method that generates a JWT (JSON Web Token) for a session of the user.
+ * @method SignRefreshToken - A method that generates a refresh JWT for a session of the user, identified by a token ID.
  */
 export interface IUser extends Document {
     name: string;
     email: string;
-    password: string;
+    password?: string;
     avatar: {
         public_id: string;
         url: string;
     }
     role: string;
     isVerified: boolean;
+    isSuspended: boolean;
     courses: Array<{ courseId: string }>;
+    locale: string;
+    providers: Array<{ provider: string, subject: string }>;
+    twoFactor: {
+        enabled: boolean;
+        secret?: string;
+        recoveryCodes: string[];
+    };
     comparePassword(password: string): Promise<boolean>;
-    SignAccessToken: () => string;
-    SignRefreshToken: () => string;
+    SignAccessToken: (sessionId: string) => string;
+    SignRefreshToken: (tokenId: string, sessionId: string) => string;
 }
 
 /**
@@ -74,11 +94,12 @@ const UserSchema: Schema = new Schema({
             validator: (email: string) => emailRegexPattern.test(email),
             message: "Please enter a valid email address."
         },
-        unique: true
+        unique: true,
+        lowercase: true,
+        trim: true
     },
     password: {
         type: String,
-        required: [true, "Please enter your password." ],
         minlength: [6, "Password must be at least 6 characters long." ],
         select: false
     },
@@ -88,19 +109,58 @@ const UserSchema: Schema = new Schema({
     },
     role: {
         type: String,
+        enum: {
+            values: userRoles,
+            message: "Role must be one of: " + userRoles.join(', ') + "."
+        },
         default: "user"
     },
     isVerified: {
         type: Boolean,
         default: false
     },
+    isSuspended: {
+        type: Boolean,
+        default: false
+    },
     courses: [
         {
             courseId: String,
         }
-    ]
+    ],
+    locale: {
+        type: String,
+        enum: supportedLocales,
+        default: defaultLocale
+    },
+    providers: [
+        {
+            _id: false,
+            provider: String,
+            subject: String,
+        }
+    ],
+    twoFactor: {
+        enabled: {
+            type: Boolean,
+            default: false
+        },
+        secret: {
+            type: String,
+            select: false
+        },
+        recoveryCodes: {
+            type: [String],
+            select: false
+        }
+    }
 }, { timestamps: true });
 
+/**
+ * @summary This index finds the account linked to a social login identity.
+ */
+UserSchema.index({ 'providers.provider': 1, 'providers.subject': 1 });
+
 /**
  * @summary This pre-save hook hashes the password before saving it to the database.
  * @description This function is triggered before the save operation on the UserSchema object in Mongoose.
@@ -112,7 +172,7 @@ const UserSchema: Schema = new Schema({
  * @param {function} next - The next middleware function to execute.
  */
 UserSchema.pre<IUser>('save', async function(next) {
-    if (!this.isModified('password')) next();
+    if (!this.isModified('password') || !this.password) return next();
     this.password = await bcrypt.hash(this.password, 10);
     next();
 });
@@ -124,21 +184,34 @@ UserSchema.pre<IUser>('save', async function(next) {
  * @description The JWT is signed with the user's ID (`this._id`) and a secret key (`process.env.ACCESS_TOKEN`).
  * The secret key is retrieved from the environment variables.
  * If the `ACCESS_TOKEN` environment variable is not set, an empty string is used as the fallback.
+ * The token carries the ID of the session it was issued for, so it stops working as soon as the session is revoked.
+ * The token expires after `JWT_ACCESS_TOKEN_EXPIRES_TIME` seconds, which defaults to 300 seconds.
  * The generated token can be used for user authentication in the application.
+ * @param {string} sessionId - The ID of the session.
  * @returns {string} The generated JWT for the user.
  */
-UserSchema.methods.SignAccessToken = function(): string {
-    return jwt.sign({ id: this._id }, process.env.JWT_ACCESS_TOKEN as Secret || "" );
+UserSchema.methods.SignAccessToken = function(sessionId: string): string {
+    return jwt.sign({ id: this._id, sid: sessionId }, process.env.JWT_ACCESS_TOKEN as Secret || "", {
+        expiresIn: parseInt(process.env.JWT_ACCESS_TOKEN_EXPIRES_TIME || '300', 10)
+    });
 };
 
 /**
  * @method SignRefreshToken
  * @summary This method is part of the UserSchema object in Mongoose. It's used to generate a refresh JWT (JSON Web Token) for the user.
  * @description The refresh JWT is signed with the user's ID (`this._id`) and a secret key (`process.env.REFRESH_TOKEN`). The secret key is retrieved from the environment variables. If the `REFRESH_TOKEN` environment variable is not set, an empty string is used as the fallback. The generated refresh token can be used for refreshing the user's authentication in the application.
+ * The token carries its own ID (`jti`) and the ID of its session, so it can be tracked in Redis and rotated on every use.
+ * Every token rotated from the same login shares the same session, which acts as the token family.
+ * The token expires after `JWT_REFRESH_TOKEN_EXPIRES_TIME` seconds, which defaults to 1200 seconds.
+ * @param {string} tokenId - The unique ID of the refresh token.
+ * @param {string} sessionId - The ID of the session.
  * @returns {string} The generated refresh JWT for the user.
  */
-UserSchema.methods.SignRefreshToken = function(): string {
-    return jwt.sign({ id: this._id }, process.env.JWT_REFRESH_TOKEN as Secret || "" );
+UserSchema.methods.SignRefreshToken = function(tokenId: string, sessionId: string): string {
+    return jwt.sign({ id: this._id, sid: sessionId }, process.env.JWT_REFRESH_TOKEN as Secret || "", {
+        expiresIn: parseInt(process.env.JWT_REFRESH_TOKEN_EXPIRES_TIME || '1200', 10),
+        jwtid: tokenId
+    });
 };
 
 /**
@@ -148,10 +221,15 @@ UserSchema.methods.SignRefreshToken = function(): string {
  * @description The method takes a password as a parameter
  * and uses bcrypt's compare method to check if the provided password matches the hashed password stored in the database.
  * It returns a Promise that resolves to a boolean value indicating whether the passwords match.
+ * Accounts without a password never match, so they can only sign in through their social login provider.
  * @param {string} password - The password to compare with the user's hashed password.
  * @returns {Promise<boolean>} A Promise that resolves to a boolean value indicating whether the passwords match.
  */
 UserSchema.methods.comparePassword = async function(password: string): Promise<boolean> {
+    if (!this.password) {
+        return false;
+    }
+
     return await bcrypt.compare(password, this.password);
 }
 
@@ -0,0 +1,64 @@
+/**
+ * @file This file defines the routes for admin operations.
+ * @description Every route of this router is restricted to admins.
+ */
+
+// Importing the necessary modules
+import * as express from "express";
+import {
+    deleteUser,
+    getAllUsers,
+    getAuditLogs,
+    updateUserRole,
+    updateUserSuspension
+} from "../controllers/admin.controller";
+import {authorizeRoles, isAuthenticated} from "../middleware/auth";
+import {validate} from "../middleware/validate";
+import {
+    getAllUsersSchema,
+    getAuditLogsSchema,
+    updateUserRoleSchema,
+    updateUserSuspensionSchema,
+    userIdSchema
+} from "../validators/admin.validator";
+
+// Creating a new router object
+const adminRouter = express.Router();
+
+/**
+ * @route GET /admin/users
+ * @description This route is used to list the users, with pagination, search by name or email, and filters on role and verification.
+ * @access Admin
+ */
+adminRouter.get('/admin/users', isAuthenticated, authorizeRoles('admin'), validate(getAllUsersSchema), getAllUsers);
+
+/**
+ * @route PUT /admin/users/:id/role
+ * @description This route is used to change the role of a user.
+ * @access Admin
+ */
+adminRouter.put('/admin/users/:id/role', isAuthenticated, authorizeRoles('admin'), validate(updateUserRoleSchema), updateUserRole);
+
+/**
+ * @route PUT /admin/users/:id/suspension
+ * @description This route is used to suspend or unsuspend the account of a user.
+ * @access Admin
+ */
+adminRouter.put('/admin/users/:id/suspension', isAuthenticated, authorizeRoles('admin'), validate(updateUserSuspensionSchema), updateUserSuspension);
+
+/**
+ * @route DELETE /admin/users/:id
+ * @description This route is used to delete a user.
+ * @access Admin
+ */
+adminRouter.delete('/admin/users/:id', isAuthenticated, authorizeRoles('admin'), validate(userIdSchema), deleteUser);
+
+/**
+ * @route GET /admin/audit-logs
+ * @description This route is used to list the admin actions recorded in the audit log.
+ * @access Admin
+ */
+adminRouter.get('/admin/audit-logs', isAuthenticated, authorizeRoles('admin'), validate(getAuditLogsSchema), getAuditLogs);
+
+// Exporting the router object
+export default adminRouter;
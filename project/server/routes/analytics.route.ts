@@ -0,0 +1,48 @@
+/**
+ * @file This file defines the routes for the admin analytics.
+ * @description Every route of this router is restricted to admins, and its results are cached in Redis.
+ */
+
+// Importing the necessary modules
+import * as express from "express";
+import {
+    getCourseAnalytics,
+    getOrderAnalytics,
+    getUserAnalytics,
+    getUserOverview
+} from "../controllers/analytics.controller";
+import {authorizeRoles, isAuthenticated} from "../middleware/auth";
+
+// Creating a new router object
+const analyticsRouter = express.Router();
+
+/**
+ * @route GET /admin/analytics/users
+ * @description This route is used to get the number of new users in each of the last 12 months.
+ * @access Admin
+ */
+analyticsRouter.get('/admin/analytics/users', isAuthenticated, authorizeRoles('admin'), getUserAnalytics);
+
+/**
+ * @route GET /admin/analytics/courses
+ * @description This route is used to get the number of new courses in each of the last 12 months.
+ * @access Admin
+ */
+analyticsRouter.get('/admin/analytics/courses', isAuthenticated, authorizeRoles('admin'), getCourseAnalytics);
+
+/**
+ * @route GET /admin/analytics/orders
+ * @description This route is used to get the number of paid orders in each of the last 12 months.
+ * @access Admin
+ */
+analyticsRouter.get('/admin/analytics/orders', isAuthenticated, authorizeRoles('admin'), getOrderAnalytics);
+
+/**
+ * @route GET /admin/analytics/overview
+ * @description This route is used to get the verified and unverified user ratios and the number of active sessions.
+ * @access Admin
+ */
+analyticsRouter.get('/admin/analytics/overview', isAuthenticated, authorizeRoles('admin'), getUserOverview);
+
+// Exporting the router object
+export default analyticsRouter;
@@ -0,0 +1,37 @@
+/**
+ * @file This file defines the routes for course completion certificates.
+ */
+
+// Importing the necessary modules
+import * as express from "express";
+import {downloadCertificate, getMyCertificates, verifyCertificate} from "../controllers/certificate.controller";
+import {isAuthenticated} from "../middleware/auth";
+import {validate} from "../middleware/validate";
+import {certificateSerialSchema} from "../validators/certificate.validator";
+
+// Creating a new router object
+const certificateRouter = express.Router();
+
+/**
+ * @route GET /certificates
+ * @description This route is used to list the certificates of the authenticated user.
+ * @access Private
+ */
+certificateRouter.get('/certificates', isAuthenticated, getMyCertificates);
+
+/**
+ * @route GET /certificates/:serial/download
+ * @description This route is used to download the PDF of a certificate of the authenticated user.
+ * @access Private (owner of the certificate)
+ */
+certificateRouter.get('/certificates/:serial/download', isAuthenticated, validate(certificateSerialSchema), downloadCertificate);
+
+/**
+ * @route GET /certificates/:serial/verify
+ * @description This route is used to confirm that a certificate is genuine.
+ * @access Public
+ */
+certificateRouter.get('/certificates/:serial/verify', validate(certificateSerialSchema), verifyCertificate);
+
+// Exporting the router object
+export default certificateRouter;
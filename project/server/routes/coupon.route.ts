@@ -0,0 +1,90 @@
+/**
+ * @file This file defines the routes for coupons, their management by the admins, and their redemption reports.
+ */
+
+// Importing the necessary modules
+import * as express from "express";
+import {
+    createCoupon,
+    deleteCoupon,
+    getAllCoupons,
+    getCoupon,
+    getCouponRedemptions,
+    getCouponsReport,
+    previewCoupon,
+    updateCoupon
+} from "../controllers/coupon.controller";
+import {authorizeRoles, isAuthenticated} from "../middleware/auth";
+import {validate} from "../middleware/validate";
+import {
+    couponIdSchema,
+    createCouponSchema,
+    getAllCouponsSchema,
+    getCouponRedemptionsSchema,
+    getCouponsReportSchema,
+    previewCouponSchema,
+    updateCouponSchema
+} from "../validators/coupon.validator";
+
+// Creating a new router object
+const couponRouter = express.Router();
+
+/**
+ * @route POST /coupons/preview
+ * @description This route is used to check a coupon against a course and get the discounted price, before checking out.
+ * @access Private
+ */
+couponRouter.post('/coupons/preview', isAuthenticated, validate(previewCouponSchema), previewCoupon);
+
+/**
+ * @route POST /admin/coupons
+ * @description This route is used to create a coupon.
+ * @access Admin
+ */
+couponRouter.post('/admin/coupons', isAuthenticated, authorizeRoles('admin'), validate(createCouponSchema), createCoupon);
+
+/**
+ * @route GET /admin/coupons
+ * @description This route is used to list the coupons, with pagination, search by code, and a filter on whether they are active.
+ * @access Admin
+ */
+couponRouter.get('/admin/coupons', isAuthenticated, authorizeRoles('admin'), validate(getAllCouponsSchema), getAllCoupons);
+
+/**
+ * @route GET /admin/coupons/report
+ * @description This route is used to report the paid redemptions, revenue and discount of every coupon.
+ * It is declared before /admin/coupons/:couponId, so "report" is not taken for a coupon ID.
+ * @access Admin
+ */
+couponRouter.get('/admin/coupons/report', isAuthenticated, authorizeRoles('admin'), validate(getCouponsReportSchema), getCouponsReport);
+
+/**
+ * @route GET /admin/coupons/:couponId
+ * @description This route is used to get a coupon.
+ * @access Admin
+ */
+couponRouter.get('/admin/coupons/:couponId', isAuthenticated, authorizeRoles('admin'), validate(couponIdSchema), getCoupon);
+
+/**
+ * @route PUT /admin/coupons/:couponId
+ * @description This route is used to update a coupon.
+ * @access Admin
+ */
+couponRouter.put('/admin/coupons/:couponId', isAuthenticated, authorizeRoles('admin'), validate(updateCouponSchema), updateCoupon);
+
+/**
+ * @route DELETE /admin/coupons/:couponId
+ * @description This route is used to delete a coupon.
+ * @access Admin
+ */
+couponRouter.delete('/admin/coupons/:couponId', isAuthenticated, authorizeRoles('admin'), validate(couponIdSchema), deleteCoupon);
+
+/**
+ * @route GET /admin/coupons/:couponId/redemptions
+ * @description This route is used to report the redemptions of a coupon, by status and by course, with the orders that used it.
+ * @access Admin
+ */
+couponRouter.get('/admin/coupons/:couponId/redemptions', isAuthenticated, authorizeRoles('admin'), validate(getCouponRedemptionsSchema), getCouponRedemptions);
+
+// Exporting the router object
+export default couponRouter;
@@ -0,0 +1,156 @@
+/**
+ * @file This file defines the routes for course-related operations.
+ */
+
+// Importing the necessary modules
+import * as express from "express";
+import {
+    approveCourse,
+    createCourse,
+    deleteCourse,
+    getAllCourses,
+    getCoursesForReview,
+    getSingleCourse,
+    rejectCourse,
+    searchCourses,
+    submitCourse,
+    unpublishCourse,
+    updateCourse
+} from "../controllers/course.controller";
+import {addQuestion, addReply, getLessonQuestions} from "../controllers/question.controller";
+import {addReview, getCourseReviews} from "../controllers/review.controller";
+import {authorizeRoles, isAuthenticated, loadUser} from "../middleware/auth";
+import {validate} from "../middleware/validate";
+import {
+    addQuestionSchema,
+    addReplySchema,
+    addReviewSchema,
+    courseIdSchema,
+    createCourseSchema,
+    lessonIdSchema,
+    rejectCourseSchema,
+    searchCoursesSchema,
+    updateCourseSchema
+} from "../validators/course.validator";
+
+// Creating a new router object
+const courseRouter = express.Router();
+
+/**
+ * @route POST /courses
+ * @description This route is used to create a new course.
+ * Courses created by instructors are owned by them and start as drafts, courses created by admins are published.
+ * @access Private (instructors and admins)
+ */
+courseRouter.post('/courses', isAuthenticated, authorizeRoles('instructor', 'admin'), validate(createCourseSchema), createCourse);
+
+/**
+ * @route GET /courses
+ * @description This route is used to list the published courses of the catalogue, without their lesson content.
+ * @access Public
+ */
+courseRouter.get('/courses', getAllCourses);
+
+/**
+ * @route GET /courses/search
+ * @description This route is used to search the catalogue by keywords, with filters, sorting, cursor pagination and facet counts.
+ * It is declared before /courses/:id, so "search" is not taken for a course ID.
+ * @access Public
+ */
+courseRouter.get('/courses/search', validate(searchCoursesSchema), searchCourses);
+
+/**
+ * @route GET /courses/:id
+ * @description This route is used to get the details of a course.
+ * The lesson content is only included for users who have bought the course, its instructor and admins.
+ * Courses that are not published are only found by their instructor, admins and users who bought them.
+ * @access Public
+ */
+courseRouter.get('/courses/:id', validate(courseIdSchema), loadUser, getSingleCourse);
+
+/**
+ * @route PUT /courses/:id
+ * @description This route is used to update a course. Instructors can only update their own drafts.
+ * @access Private (instructors and admins)
+ */
+courseRouter.put('/courses/:id', isAuthenticated, authorizeRoles('instructor', 'admin'), validate(updateCourseSchema), updateCourse);
+
+/**
+ * @route DELETE /courses/:id
+ * @description This route is used to delete a course. Instructors can only delete their own drafts.
+ * @access Private (instructors and admins)
+ */
+courseRouter.delete('/courses/:id', isAuthenticated, authorizeRoles('instructor', 'admin'), validate(courseIdSchema), deleteCourse);
+
+/**
+ * @route GET /admin/courses/review
+ * @description This route is used to list the courses waiting for approval, oldest first.
+ * @access Admin
+ */
+courseRouter.get('/admin/courses/review', isAuthenticated, authorizeRoles('admin'), getCoursesForReview);
+
+/**
+ * @route POST /courses/:id/submit
+ * @description This route is used by the instructor of a draft course to submit it for review. The admins are notified.
+ * @access Private (instructors and admins)
+ */
+courseRouter.post('/courses/:id/submit', isAuthenticated, authorizeRoles('instructor', 'admin'), validate(courseIdSchema), submitCourse);
+
+/**
+ * @route POST /courses/:id/approve
+ * @description This route is used to approve a course in review, which publishes it. The instructor is notified.
+ * @access Admin
+ */
+courseRouter.post('/courses/:id/approve', isAuthenticated, authorizeRoles('admin'), validate(courseIdSchema), approveCourse);
+
+/**
+ * @route POST /courses/:id/reject
+ * @description This route is used to send a course in review back to draft, with the reason. The instructor is notified.
+ * @access Admin
+ */
+courseRouter.post('/courses/:id/reject', isAuthenticated, authorizeRoles('admin'), validate(rejectCourseSchema), rejectCourse);
+
+/**
+ * @route POST /courses/:id/unpublish
+ * @description This route is used to take a published course out of the catalogue, back to draft.
+ * @access Admin
+ */
+courseRouter.post('/courses/:id/unpublish', isAuthenticated, authorizeRoles('admin'), validate(courseIdSchema), unpublishCourse);
+
+/**
+ * @route GET /courses/:id/lessons/:lessonId/questions
+ * @description This route is used to list the questions asked under a lesson, with their replies.
+ * @access Private (enrolled users, the instructor of the course and admins)
+ */
+courseRouter.get('/courses/:id/lessons/:lessonId/questions', isAuthenticated, validate(lessonIdSchema), getLessonQuestions);
+
+/**
+ * @route POST /courses/:id/lessons/:lessonId/questions
+ * @description This route is used to ask a question under a lesson.
+ * @access Private (enrolled users, the instructor of the course and admins)
+ */
+courseRouter.post('/courses/:id/lessons/:lessonId/questions', isAuthenticated, validate(addQuestionSchema), addQuestion);
+
+/**
+ * @route POST /courses/:id/questions/:questionId/replies
+ * @description This route is used to reply to a question. The author of the question is notified by email.
+ * @access Private (enrolled users, the instructor of the course and admins)
+ */
+courseRouter.post('/courses/:id/questions/:questionId/replies', isAuthenticated, validate(addReplySchema), addReply);
+
+/**
+ * @route GET /courses/:id/reviews
+ * @description This route is used to list the reviews of a course.
+ * @access Public
+ */
+courseRouter.get('/courses/:id/reviews', validate(courseIdSchema), getCourseReviews);
+
+/**
+ * @route POST /courses/:id/reviews
+ * @description This route is used to review a course, once per user.
+ * @access Private (enrolled users)
+ */
+courseRouter.post('/courses/:id/reviews', isAuthenticated, validate(addReviewSchema), addReview);
+
+// Exporting the router object
+export default courseRouter;
@@ -0,0 +1,78 @@
+/**
+ * @file This file defines the routes for instructors, their courses and figures, and the applications for the instructor role.
+ */
+
+// Importing the necessary modules
+import * as express from "express";
+import {
+    applyForInstructor,
+    approveInstructorApplication,
+    getInstructorApplications,
+    getInstructorCourses,
+    getInstructorStats,
+    getMyInstructorApplications,
+    rejectInstructorApplication
+} from "../controllers/instructor.controller";
+import {authorizeRoles, isAuthenticated} from "../middleware/auth";
+import {validate} from "../middleware/validate";
+import {
+    applyForInstructorSchema,
+    getInstructorApplicationsSchema,
+    getInstructorStatsSchema,
+    reviewInstructorApplicationSchema
+} from "../validators/instructor.validator";
+
+// Creating a new router object
+const instructorRouter = express.Router();
+
+/**
+ * @route GET /instructor/courses
+ * @description This route is used to list the courses owned by the authenticated instructor, in every publication state.
+ * @access Private (instructors and admins)
+ */
+instructorRouter.get('/instructor/courses', isAuthenticated, authorizeRoles('instructor', 'admin'), getInstructorCourses);
+
+/**
+ * @route GET /instructor/stats
+ * @description This route is used to get the enrollments and revenue of each course owned by the authenticated instructor, and their totals.
+ * @access Private (instructors and admins)
+ */
+instructorRouter.get('/instructor/stats', isAuthenticated, authorizeRoles('instructor', 'admin'), validate(getInstructorStatsSchema), getInstructorStats);
+
+/**
+ * @route POST /instructor/applications
+ * @description This route is used to apply for the instructor role. The admins are notified.
+ * @access Private
+ */
+instructorRouter.post('/instructor/applications', isAuthenticated, validate(applyForInstructorSchema), applyForInstructor);
+
+/**
+ * @route GET /instructor/applications/me
+ * @description This route is used to list the instructor applications of the authenticated user, with the notes of the admins.
+ * @access Private
+ */
+instructorRouter.get('/instructor/applications/me', isAuthenticated, getMyInstructorApplications);
+
+/**
+ * @route GET /admin/instructor-applications
+ * @description This route is used to list the instructor applications, with pagination and a filter on their state.
+ * @access Admin
+ */
+instructorRouter.get('/admin/instructor-applications', isAuthenticated, authorizeRoles('admin'), validate(getInstructorApplicationsSchema), getInstructorApplications);
+
+/**
+ * @route PUT /admin/instructor-applications/:applicationId/approve
+ * @description This route is used to approve an instructor application, which gives the applicant the instructor role.
+ * @access Admin
+ */
+instructorRouter.put('/admin/instructor-applications/:applicationId/approve', isAuthenticated, authorizeRoles('admin'), validate(reviewInstructorApplicationSchema), approveInstructorApplication);
+
+/**
+ * @route PUT /admin/instructor-applications/:applicationId/reject
+ * @description This route is used to reject an instructor application, with a note for the applicant.
+ * @access Admin
+ */
+instructorRouter.put('/admin/instructor-applications/:applicationId/reject', isAuthenticated, authorizeRoles('admin'), validate(reviewInstructorApplicationSchema), rejectInstructorApplication);
+
+// Exporting the router object
+export default instructorRouter;
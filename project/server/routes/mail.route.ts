@@ -0,0 +1,31 @@
+/**
+ * @file This file defines the routes for email templates.
+ * @description Every route of this router is restricted to admins.
+ */
+
+// Importing the necessary modules
+import * as express from "express";
+import {getMailTemplates, previewMail} from "../controllers/mail.controller";
+import {authorizeRoles, isAuthenticated} from "../middleware/auth";
+import {validate} from "../middleware/validate";
+import {previewMailSchema} from "../validators/mail.validator";
+
+// Creating a new router object
+const mailRouter = express.Router();
+
+/**
+ * @route GET /admin/mails
+ * @description This route is used to list the email templates.
+ * @access Admin
+ */
+mailRouter.get('/admin/mails', isAuthenticated, authorizeRoles('admin'), getMailTemplates);
+
+/**
+ * @route GET /admin/mails/:template/preview
+ * @description This route is used to render an email template with sample data, in a locale and as HTML, plain text or JSON.
+ * @access Admin
+ */
+mailRouter.get('/admin/mails/:template/preview', isAuthenticated, authorizeRoles('admin'), validate(previewMailSchema), previewMail);
+
+// Exporting the router object
+export default mailRouter;
@@ -0,0 +1,49 @@
+/**
+ * @file This file defines the routes for notification operations.
+ */
+
+// Importing the necessary modules
+import * as express from "express";
+import {
+    getNotifications,
+    markAllNotificationsRead,
+    markNotificationRead,
+    streamNotifications
+} from "../controllers/notification.controller";
+import {isAuthenticated} from "../middleware/auth";
+import {validate} from "../middleware/validate";
+import {getNotificationsSchema, notificationIdSchema} from "../validators/notification.validator";
+
+// Creating a new router object
+const notificationRouter = express.Router();
+
+/**
+ * @route GET /notifications
+ * @description This route is used to list the notifications of the authenticated user. Admins also get the notifications sent to the admins.
+ * @access Private
+ */
+notificationRouter.get('/notifications', isAuthenticated, validate(getNotificationsSchema), getNotifications);
+
+/**
+ * @route GET /notifications/stream
+ * @description This route is used to receive the new notifications of the authenticated user in real time, as Server-Sent Events.
+ * @access Private
+ */
+notificationRouter.get('/notifications/stream', isAuthenticated, streamNotifications);
+
+/**
+ * @route PUT /notifications/read-all
+ * @description This route is used to mark every notification of the authenticated user as read.
+ * @access Private
+ */
+notificationRouter.put('/notifications/read-all', isAuthenticated, markAllNotificationsRead);
+
+/**
+ * @route PUT /notifications/:id/read
+ * @description This route is used to mark a notification as read.
+ * @access Private
+ */
+notificationRouter.put('/notifications/:id/read', isAuthenticated, validate(notificationIdSchema), markNotificationRead);
+
+// Exporting the router object
+export default notificationRouter;
@@ -0,0 +1,45 @@
+/**
+ * @file This file defines the routes for order-related operations.
+ */
+
+// Importing the necessary modules
+import * as express from "express";
+import {confirmFakePayment, createOrder, getUserOrders, paymentWebhook} from "../controllers/order.controller";
+import {isAuthenticated} from "../middleware/auth";
+import {validate} from "../middleware/validate";
+import {confirmFakePaymentSchema, createOrderSchema} from "../validators/order.validator";
+
+// Creating a new router object
+const orderRouter = express.Router();
+
+/**
+ * @route POST /orders
+ * @description This route is used to start the purchase of a course.
+ * @access Private
+ */
+orderRouter.post('/orders', isAuthenticated, validate(createOrderSchema), createOrder);
+
+/**
+ * @route GET /orders
+ * @description This route is used to list the orders of the authenticated user.
+ * @access Private
+ */
+orderRouter.get('/orders', isAuthenticated, getUserOrders);
+
+/**
+ * @route POST /payments/webhook
+ * @description This route is used by the payment provider to report the result of a payment.
+ * The callback must be signed, and the user is only enrolled once its signature has been verified.
+ * @access Public
+ */
+orderRouter.post('/payments/webhook', paymentWebhook);
+
+/**
+ * @route POST /payments/fake/:paymentId/confirm
+ * @description This route is used to complete a payment of the fake payment provider, in development and tests.
+ * @access Private
+ */
+orderRouter.post('/payments/fake/:paymentId/confirm', isAuthenticated, validate(confirmFakePaymentSchema), confirmFakePayment);
+
+// Exporting the router object
+export default orderRouter;
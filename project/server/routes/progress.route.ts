@@ -0,0 +1,37 @@
+/**
+ * @file This file defines the routes for learner progress operations.
+ */
+
+// Importing the necessary modules
+import * as express from "express";
+import {getCourseProgress, getProgressDashboard, updateLessonProgress} from "../controllers/progress.controller";
+import {isAuthenticated} from "../middleware/auth";
+import {validate} from "../middleware/validate";
+import {courseProgressSchema, lessonProgressSchema} from "../validators/progress.validator";
+
+// Creating a new router object
+const progressRouter = express.Router();
+
+/**
+ * @route GET /progress
+ * @description This route is used to get the progress dashboard of the authenticated user across all of their courses.
+ * @access Private
+ */
+progressRouter.get('/progress', isAuthenticated, getProgressDashboard);
+
+/**
+ * @route GET /progress/:courseId
+ * @description This route is used to get the progress of the authenticated user in a course.
+ * @access Private
+ */
+progressRouter.get('/progress/:courseId', isAuthenticated, validate(courseProgressSchema), getCourseProgress);
+
+/**
+ * @route PUT /progress/:courseId/lessons/:lessonId
+ * @description This route is used to record the playback position of a lesson and whether it has been watched.
+ * @access Private
+ */
+progressRouter.put('/progress/:courseId/lessons/:lessonId', isAuthenticated, validate(lessonProgressSchema), updateLessonProgress);
+
+// Exporting the router object
+export default progressRouter;
@@ -0,0 +1,91 @@
+/**
+ * @file This file defines the routes for the quizzes of the course sections and their attempts.
+ */
+
+// Importing the necessary modules
+import * as express from "express";
+import {
+    createQuiz,
+    deleteQuiz,
+    getCourseQuizzes,
+    getQuiz,
+    getQuizAnswers,
+    getQuizAttempts,
+    startQuizAttempt,
+    submitQuizAttempt,
+    updateQuiz
+} from "../controllers/quiz.controller";
+import {authorizeRoles, isAuthenticated} from "../middleware/auth";
+import {hasSubmittedQuiz} from "../middleware/quiz";
+import {validate} from "../middleware/validate";
+import {courseIdSchema} from "../validators/course.validator";
+import {createQuizSchema, quizIdSchema, submitQuizAttemptSchema, updateQuizSchema} from "../validators/quiz.validator";
+
+// Creating a new router object
+const quizRouter = express.Router();
+
+/**
+ * @route POST /courses/:id/quizzes
+ * @description This route is used to create a quiz in a section of a course.
+ * @access Private (the instructor of the course and admins)
+ */
+quizRouter.post('/courses/:id/quizzes', isAuthenticated, authorizeRoles('instructor', 'admin'), validate(createQuizSchema), createQuiz);
+
+/**
+ * @route GET /courses/:id/quizzes
+ * @description This route is used to list the quizzes of a course, without their answers.
+ * @access Private (enrolled users, the instructor of the course and admins)
+ */
+quizRouter.get('/courses/:id/quizzes', isAuthenticated, validate(courseIdSchema), getCourseQuizzes);
+
+/**
+ * @route GET /quizzes/:quizId
+ * @description This route is used to get a quiz, without its answers.
+ * @access Private (enrolled users, the instructor of the course and admins)
+ */
+quizRouter.get('/quizzes/:quizId', isAuthenticated, validate(quizIdSchema), getQuiz);
+
+/**
+ * @route PUT /quizzes/:quizId
+ * @description This route is used to update a quiz.
+ * @access Private (the instructor of the course and admins)
+ */
+quizRouter.put('/quizzes/:quizId', isAuthenticated, authorizeRoles('instructor', 'admin'), validate(updateQuizSchema), updateQuiz);
+
+/**
+ * @route DELETE /quizzes/:quizId
+ * @description This route is used to delete a quiz and its attempts.
+ * @access Private (the instructor of the course and admins)
+ */
+quizRouter.delete('/quizzes/:quizId', isAuthenticated, authorizeRoles('instructor', 'admin'), validate(quizIdSchema), deleteQuiz);
+
+/**
+ * @route GET /quizzes/:quizId/answers
+ * @description This route is used to get a quiz with its correct answers and explanations.
+ * @access Private (enrolled users who have passed the quiz or used all their attempts, the instructor of the course, and admins)
+ */
+quizRouter.get('/quizzes/:quizId/answers', isAuthenticated, validate(quizIdSchema), hasSubmittedQuiz, getQuizAnswers);
+
+/**
+ * @route GET /quizzes/:quizId/attempts
+ * @description This route is used to list the attempts of the authenticated user at a quiz, with their grades.
+ * @access Private (enrolled users and admins)
+ */
+quizRouter.get('/quizzes/:quizId/attempts', isAuthenticated, validate(quizIdSchema), getQuizAttempts);
+
+/**
+ * @route POST /quizzes/:quizId/attempts
+ * @description This route is used to start an attempt at a quiz, or to resume the attempt in progress.
+ * @access Private (enrolled users and admins)
+ */
+quizRouter.post('/quizzes/:quizId/attempts', isAuthenticated, validate(quizIdSchema), startQuizAttempt);
+
+/**
+ * @route POST /quizzes/:quizId/attempts/:attemptId/submit
+ * @description This route is used to submit an attempt at a quiz, and get its grade.
+ * @access Private (owner of the attempt)
+ */
+quizRouter.post('/quizzes/:quizId/attempts/:attemptId/submit', isAuthenticated, validate(submitQuizAttemptSchema), submitQuizAttempt);
+
+// Exporting the router object
+export default quizRouter;
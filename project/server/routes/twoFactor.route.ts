@@ -0,0 +1,75 @@
+/**
+ * @file This file defines the routes for two-factor authentication.
+ */
+
+// Importing the necessary modules
+import * as express from "express";
+import {
+    disableTwoFactor,
+    enableTwoFactor,
+    setupTwoFactor,
+    verifyLoginChallenge
+} from "../controllers/twoFactor.controller";
+import {isAuthenticated} from "../middleware/auth";
+import {validate} from "../middleware/validate";
+import {rateLimit} from "../middleware/rateLimit";
+import {disableTwoFactorSchema, enableTwoFactorSchema, loginChallengeSchema} from "../validators/twoFactor.validator";
+
+// Creating a new router object
+const twoFactorRouter = express.Router();
+
+/**
+ * @summary The rate limiter of the second step of a login.
+ * @description Each challenge also allows only a few attempts, this limits how many challenges an IP address can go through.
+ */
+const loginChallengeLimiters = [
+    rateLimit({ name: 'login_two_factor_ip', windowSeconds: 15 * 60, max: 30 }),
+];
+
+/**
+ * @summary The rate limiter of the confirmation of the enrollment, which checks a code of the authenticator app.
+ * @description It is counted by user, so a stolen session cannot be used to guess the code.
+ */
+const verifyCodeLimiters = [
+    rateLimit({ name: 'two_factor_verify_account', windowSeconds: 15 * 60, max: 10, by: 'account' }),
+];
+
+/**
+ * @summary The rate limiter of the disabling of two-factor authentication, which checks a code and the password.
+ * @description It is counted by user, so a stolen session cannot be used to guess the code or the password.
+ */
+const disableLimiters = [
+    rateLimit({ name: 'two_factor_disable_account', windowSeconds: 15 * 60, max: 10, by: 'account' }),
+];
+
+/**
+ * @route POST /login/two-factor
+ * @description This route is used to finish the login of a user who enabled two-factor authentication,
+ * with the challenge token sent by the login and a code of the authenticator app or a recovery code.
+ * @access Public
+ */
+twoFactorRouter.post('/login/two-factor', validate(loginChallengeSchema), loginChallengeLimiters, verifyLoginChallenge);
+
+/**
+ * @route POST /two-factor/setup
+ * @description This route is used to start the enrollment in two-factor authentication, and returns the provisioning URI of the authenticator app.
+ * @access Private
+ */
+twoFactorRouter.post('/two-factor/setup', isAuthenticated, setupTwoFactor);
+
+/**
+ * @route POST /two-factor/verify
+ * @description This route is used to confirm the enrollment with a first code of the authenticator app, and returns the recovery codes.
+ * @access Private
+ */
+twoFactorRouter.post('/two-factor/verify', isAuthenticated, validate(enableTwoFactorSchema), verifyCodeLimiters, enableTwoFactor);
+
+/**
+ * @route POST /two-factor/disable
+ * @description This route is used to disable two-factor authentication, with a code of the authenticator app or a recovery code.
+ * @access Private
+ */
+twoFactorRouter.post('/two-factor/disable', isAuthenticated, validate(disableTwoFactorSchema), disableLimiters, disableTwoFactor);
+
+// Exporting the router object
+export default twoFactorRouter;
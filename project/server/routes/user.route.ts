@@ -4,17 +4,82 @@
 
 // Importing the necessary modules
 import * as express from "express";
-import {activateUser, loginUser, logoutUser, registerUser} from "../controllers/user.controller";
+import {
+    activateUser,
+    forgotPassword,
+    getUserInfo,
+    getUserSessions,
+    loginUser,
+    logoutAllSessions,
+    logoutUser,
+    refreshAccessToken,
+    registerUser,
+    resetPassword,
+    revokeUserSession,
+    socialAuth,
+    updateAvatar,
+    updatePassword,
+    updateUserInfo
+} from "../controllers/user.controller";
+import {isAuthenticated} from "../middleware/auth";
+import {validate} from "../middleware/validate";
+import {rateLimit} from "../middleware/rateLimit";
+import {
+    activationSchema,
+    forgotPasswordSchema,
+    loginSchema,
+    registrationSchema,
+    resetPasswordSchema,
+    sessionIdSchema,
+    socialAuthSchema,
+    updateAvatarSchema,
+    updatePasswordSchema,
+    updateUserInfoSchema
+} from "../validators/user.validator";
 
 // Creating a new router object
 const userRouter = express.Router();
 
+/**
+ * @summary The rate limiters of the public user routes.
+ * @description Each limiter counts requests in Redis, by IP address or by account, and sends a 429 error with a Retry-After header once its limit is reached.
+ * The activation limiter counts the attempts made with each activation token, so the 4-digit code cannot be brute-forced within its lifetime.
+ */
+const registrationLimiters = [
+    rateLimit({ name: 'registration_ip', windowSeconds: 60 * 60, max: 10 }),
+    rateLimit({ name: 'registration_account', windowSeconds: 60 * 60, max: 3, by: 'account', message: "Too many activation emails sent to this address. Please try again later." }),
+];
+
+const activationLimiters = [
+    rateLimit({ name: 'activation_ip', windowSeconds: 10 * 60, max: 20 }),
+    rateLimit({
+        name: 'activation_token',
+        windowSeconds: 10 * 60,
+        max: 5,
+        by: req => req.body?.activation_token,
+        message: "Too many wrong activation codes. Please register again to get a new code.",
+    }),
+];
+
+const loginLimiters = [
+    rateLimit({ name: 'login_ip', windowSeconds: 15 * 60, max: 30 }),
+];
+
+const passwordResetLimiters = [
+    rateLimit({ name: 'forgot_password_ip', windowSeconds: 60 * 60, max: 10 }),
+    rateLimit({ name: 'forgot_password_account', windowSeconds: 60 * 60, max: 3, by: 'account' }),
+];
+
+const resetPasswordLimiters = [
+    rateLimit({ name: 'reset_password_ip', windowSeconds: 15 * 60, max: 20 }),
+];
+
 /**
  * @route POST /registration
  * @description This route is used to register a new user.
  * @access Public
  */
-userRouter.post('/registration', registerUser);
+userRouter.post('/registration', validate(registrationSchema), registrationLimiters, registerUser);
 
 /**
  * @route POST /activation
@@ -23,7 +88,7 @@ userRouter.post('/registration', registerUser);
  * such as checking an activation token.
  * @access Public
  */
-userRouter.post('/activation', activateUser);
+userRouter.post('/activation', validate(activationSchema), activationLimiters, activateUser);
 
 /**
  * @route POST /login
@@ -32,15 +97,96 @@ userRouter.post('/activation', activateUser);
  * such as checking the user's credentials and generating JWT tokens.
  * @access Public
  */
-userRouter.post('/login', loginUser);
+userRouter.post('/login', validate(loginSchema), loginLimiters, loginUser);
+
+/**
+ * @route POST /social-auth
+ * @description This route is used to sign in with a social login provider, from an ID token issued by the provider.
+ * The account is created, or linked by its verified email, on the first sign in.
+ * @access Public
+ */
+userRouter.post('/social-auth', validate(socialAuthSchema), loginLimiters, socialAuth);
 
 /**
  * @route GET /logout
  * @description This route is used to log out a user.
- * The logoutUser function is expected to handle the logic of user logout, such as clearing the JWT tokens.
+ * The logoutUser function is expected to handle the logic of user logout, such as revoking the session and clearing the JWT tokens.
+ * @access Private
+ */
+userRouter.get('/logout', isAuthenticated, logoutUser);
+
+/**
+ * @route GET /refresh
+ * @description This route is used to exchange a refresh token for a new access token and refresh token pair.
+ * The refreshAccessToken function is expected to handle the logic of refresh token rotation,
+ * such as revoking the token family when a used refresh token is presented again.
  * @access Public
  */
-userRouter.get('/logout', logoutUser);
+userRouter.get('/refresh', refreshAccessToken);
+
+/**
+ * @route GET /sessions
+ * @description This route is used to list the active sessions of the authenticated user, one per device.
+ * @access Private
+ */
+userRouter.get('/sessions', isAuthenticated, getUserSessions);
+
+/**
+ * @route DELETE /sessions/:id
+ * @description This route is used to revoke a single session of the authenticated user, which logs that device out.
+ * @access Private
+ */
+userRouter.delete('/sessions/:id', isAuthenticated, validate(sessionIdSchema), revokeUserSession);
+
+/**
+ * @route POST /logout-all
+ * @description This route is used to log the authenticated user out of every device.
+ * @access Private
+ */
+userRouter.post('/logout-all', isAuthenticated, logoutAllSessions);
+
+/**
+ * @route POST /forgot-password
+ * @description This route is used to request a password reset code by email.
+ * @access Public
+ */
+userRouter.post('/forgot-password', validate(forgotPasswordSchema), passwordResetLimiters, forgotPassword);
+
+/**
+ * @route POST /reset-password
+ * @description This route is used to choose a new password with the code sent by email.
+ * All existing sessions of the user are revoked once the password has changed.
+ * @access Public
+ */
+userRouter.post('/reset-password', validate(resetPasswordSchema), resetPasswordLimiters, resetPassword);
+
+/**
+ * @route GET /me
+ * @description This route is used to get the profile of the authenticated user.
+ * @access Private
+ */
+userRouter.get('/me', isAuthenticated, getUserInfo);
+
+/**
+ * @route PUT /update-user-info
+ * @description This route is used to update the name and the locale of the authenticated user.
+ * @access Private
+ */
+userRouter.put('/update-user-info', isAuthenticated, validate(updateUserInfoSchema), updateUserInfo);
+
+/**
+ * @route PUT /update-user-password
+ * @description This route is used to change the password of the authenticated user, or to set the first password of an account created through a social login provider.
+ * @access Private
+ */
+userRouter.put('/update-user-password', isAuthenticated, validate(updatePasswordSchema), updatePassword);
+
+/**
+ * @route PUT /update-user-avatar
+ * @description This route is used to upload a new avatar for the authenticated user.
+ * @access Private
+ */
+userRouter.put('/update-user-avatar', isAuthenticated, validate(updateAvatarSchema), updateAvatar);
 
 // Exporting the router object
 export default userRouter;
\ No newline at end of file
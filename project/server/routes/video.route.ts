@@ -0,0 +1,31 @@
+/**
+ * @file This file defines the routes for lesson video playback.
+ */
+
+// Importing the necessary modules
+import * as express from "express";
+import {getPlaybackUrl, streamVideo} from "../controllers/video.controller";
+import {isAuthenticated} from "../middleware/auth";
+import {validate} from "../middleware/validate";
+import {playbackUrlSchema, streamVideoSchema} from "../validators/video.validator";
+
+// Creating a new router object
+const videoRouter = express.Router();
+
+/**
+ * @route GET /courses/:id/lessons/:lessonId/playback
+ * @description This route is used to get a short-lived signed URL to play the video of a lesson.
+ * @access Private (enrolled users and admins)
+ */
+videoRouter.get('/courses/:id/lessons/:lessonId/playback', isAuthenticated, validate(playbackUrlSchema), getPlaybackUrl);
+
+/**
+ * @route GET /videos/:courseId/:lessonId
+ * @description This route is used to stream the video of a lesson, with support for HTTP Range requests.
+ * It does not use the session cookies: the signature of the playback URL proves that it was issued to an enrolled user.
+ * @access Signed URL
+ */
+videoRouter.get('/videos/:courseId/:lessonId', validate(streamVideoSchema), streamVideo);
+
+// Exporting the router object
+export default videoRouter;
@@ -1,68 +1,126 @@
-import nodemailer, { Transporter } from 'nodemailer';
 import ejs from 'ejs';
 import path from 'path';
+import { convert } from 'html-to-text';
+import { enqueueMail } from './utils/mailQueue';
+import { IMailAttachment, mailTransport } from './utils/mailTransport';
+import { resolveLocale, translate } from './utils/i18n';
 
 /**
  * @interface IMailOptions
  * @description Interface for the mail options.
  * @property {string} email - The email address to send the mail to.
- * @property {string} subject - The subject of the email.
+ * @property {string} [subject] - The subject of the email, which defaults to the translated `subject` message of the template.
  * @property {string} template - The name of the ejs template to use for the email body.
  * @property {{ [key: string]: any; }} data - The data to pass to the ejs template.
+ * @property {string} [locale] - The locale of the recipient, which defaults to the default locale.
+ * @property {IMailAttachment[]} [attachments] - The files attached to the email.
  */
-interface IMailOptions {
+export interface IMailOptions {
     email: string;
-    subject: string;
+    subject?: string;
     template: string;
     data: { [key: string]: any; };
+    locale?: string;
+    attachments?: IMailAttachment[];
 }
 
 /**
- * @function sendMail
- * @description Function to send an email using nodemailer and ejs for templating.
- * @param {IMailOptions} options - The mail options including email, subject, template, and data.
- * @returns {Promise<void>} - Returns a promise that resolves when the email has been sent.
+ * @interface IRenderedMail
+ * @description Interface for a rendered email.
+ * @property {string} subject - The subject of the email.
+ * @property {string} html - The HTML body of the email.
+ * @property {string} text - The plain-text alternative of the HTML body.
  */
-const sendMail = async (options: IMailOptions): Promise <void> => {
-    // Create a nodemailer transporter using the SMTP settings from the environment variables.
-    const transporter: Transporter = nodemailer.createTransport({
-        host: process.env.SMTP_MAIL_HOST,
-        port: Number(process.env.SMTP_MAIL_PORT || 587),
-        service: process.env.SMTP_MAIL_SERVICE,
-        auth: {
-            user: process.env.SMTP_MAIL_USERNAME,
-            pass: process.env.SMTP_MAIL_PASSWORD
-        }
-    });
+export interface IRenderedMail {
+    subject: string;
+    html: string;
+    text: string;
+}
+
+/**
+ * @summary The directory of the ejs templates.
+ */
+export const mailsDir = path.join(__dirname, 'mails');
 
+/**
+ * @function renderMail
+ * @description Function to render an email template in the locale of the recipient.
+ * Templates include the shared layout partials of `mails/partials`, and translate their text with the `t` helper,
+ * which looks messages up in the `locales` directory under the name of the template, such as `activation-mail.title`.
+ * The plain-text alternative is generated from the rendered HTML.
+ * @param {IMailOptions} options - The mail options including template, data, and locale.
+ * @returns {Promise<IRenderedMail>} - Returns a promise that resolves to the rendered email.
+ */
+export const renderMail = async (options: Omit<IMailOptions, 'email'>): Promise <IRenderedMail> => {
     // Destructure the options parameter into individual variables.
-    const { email, subject, template, data } = options;
+    const { template, data } = options;
+    const locale = resolveLocale(options.locale);
 
     // Construct the path to the ejs template.
-    const templatePath = path.join(__dirname, '../server/mails', template);
+    const templatePath = path.join(mailsDir, template);
+
+    // The name of the template is the namespace of its messages.
+    const name = path.basename(template, '.ejs');
+
+    // Render the ejs template with the provided data and the helpers of the layout.
+    const html = await ejs.renderFile(templatePath, {
+        ...data,
+        locale,
+        t: (key: string, params?: { [key: string]: any }) => translate(locale, key, params),
+        appName: process.env.APP_NAME || 'LMS',
+        supportEmail: process.env.SMTP_MAIL_FROM_ADDRESS,
+        year: new Date().getFullYear(),
+    });
+
+    // Generate the plain-text alternative from the HTML.
+    const text = convert(html, { wordwrap: 80 });
+
+    return {
+        subject: options.subject || translate(locale, `${name}.subject`, data),
+        html,
+        text,
+    };
+};
 
-    // Render the ejs template with the provided data.
-    const html = await ejs.renderFile(templatePath, data);
+/**
+ * @function sendMail
+ * @description Function to send an email.
+ * The email is added to the Redis mail queue and sent in the background by the mail worker,
+ * which retries it with an exponential backoff if the mail server fails.
+ * The mail options must therefore be serializable to JSON.
+ * @param {IMailOptions} options - The mail options including email, template, data, and locale.
+ * @returns {Promise<void>} - Returns a promise that resolves when the email has been queued.
+ */
+const sendMail = async (options: IMailOptions): Promise <void> => {
+    await enqueueMail(options);
+};
 
-    // Set the sender name to the application name from the environment variables.
-    process.env.SMTP_MAIL_FROM_NAME = process.env.APP_NAME;
+/**
+ * @function deliverMail
+ * @description Function to render an email and send it through the mail transport.
+ * It is called by the mail worker for every job of the mail queue.
+ * @param {IMailOptions} options - The mail options including email, template, data, and locale.
+ * @returns {Promise<void>} - Returns a promise that resolves when the email has been sent.
+ */
+export const deliverMail = async (options: IMailOptions): Promise <void> => {
+    // Render the email in the locale of the recipient.
+    const { subject, html, text } = await renderMail(options);
 
-    // Get the sender name from the environment variables, defaulting to 'Admin' if not set.
-    const senderName = process.env.SMTP_MAIL_FROM_NAME || 'Admin';
+    // Get the sender name from the application name, defaulting to 'Admin' if not set.
+    const senderName = process.env.APP_NAME || 'Admin';
 
     // Get the sender address from the environment variables.
     const senderAddress = process.env.SMTP_MAIL_FROM_ADDRESS;
 
-    // Construct the mail options for nodemailer.
-    const mailOptions = {
+    // Send the email through the shared mail transport.
+    await mailTransport.send({
         from: `"${senderName}" <${senderAddress}>`,
-        to: email,
+        to: options.email,
         subject,
-        html
-    };
-
-    // Send the email.
-    await transporter.sendMail(mailOptions);
+        html,
+        text,
+        attachments: options.attachments
+    });
 };
 
-export default sendMail;
\ No newline at end of file
+export default sendMail;
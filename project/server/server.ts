@@ -1,5 +1,9 @@
 import {app} from './app';
 import connectDB from "./utils/db";
+import {scheduleNotificationCleanup, startNotificationStream} from "./utils/notification";
+import {startMailWorker} from "./utils/mailQueue";
+import {scheduleOrderExpiry} from "./utils/order";
+import {deliverMail} from "./sendMail";
 
 /**
  * @summary  Used to load environment variables from a .env file into the process.env object in Node.js.
@@ -19,4 +23,12 @@ app.listen(port, '127.0.0.1',() => {
     console.log(`Listening on port ${ port }`);
     // Connect to the database.
     connectDB().then(error => console.log(error));
+    // Subscribe to the notifications published by every server instance, to push them to the connected clients.
+    startNotificationStream().catch(error => console.log(error.message));
+    // Purge the old read notifications once a day.
+    scheduleNotificationCleanup();
+    // Expire the pending orders that were never paid, which gives back the coupon uses they reserved.
+    scheduleOrderExpiry();
+    // Send the queued emails in the background.
+    startMailWorker(deliverMail).catch(error => console.log(error.message));
 });
\ No newline at end of file
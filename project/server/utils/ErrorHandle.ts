@@ -1,18 +1,61 @@
+/**
+ * @summary The default machine-readable codes of the errors, by HTTP status code.
+ * @description They are used when an error is created without a more specific code.
+ * Codes are part of the API: clients can rely on them, so an existing code must never be renamed.
+ */
+export const defaultErrorCodes: { [statusCode: number]: string } = {
+    400: 'BAD_REQUEST',
+    401: 'UNAUTHORIZED',
+    403: 'FORBIDDEN',
+    404: 'NOT_FOUND',
+    409: 'CONFLICT',
+    413: 'PAYLOAD_TOO_LARGE',
+    422: 'VALIDATION_FAILED',
+    429: 'TOO_MANY_REQUESTS',
+    500: 'INTERNAL_ERROR',
+};
+
+/**
+ * @interface IErrorOptions
+ * @summary This interface represents the optional details of an error.
+ * @property {string} [code] - The machine-readable code of the error, such as `INVALID_CREDENTIALS`. It defaults to the code of the status code.
+ * @property {{ [key: string]: any }} [details] - The details of the error, such as the per-field error messages when the request failed validation.
+ * @property {{ [field: string]: string }} [errors] - The per-field error messages when the request failed validation,
+ * sent in the `errors` property clients relied on before `details` was added.
+ * @property {number} [retryAfter] - The number of seconds after which the request can be retried, used when it was rate limited.
+ */
+export interface IErrorOptions {
+    code?: string;
+    details?: { [key: string]: any };
+    errors?: { [field: string]: string };
+    retryAfter?: number;
+}
+
 /**
  * @class ErrorHandle
  * @extends {Error}
  * @summary This class extends the built-in Error class in JavaScript.
  * It adds a statusCode property to the error, which can be used to indicate the HTTP status code associated with the error.
- * The constructor takes two parameters: message and statusCode.
+ * The constructor takes two parameters: message and statusCode, and an optional third parameter with the details of the error.
  * The message parameter is passed to the parent Error class, and the statusCode is assigned to the statusCode property of the instance.
+ * The code, the details, the per-field errors and the retry delay, if any, are assigned to the code, details and retryAfter properties of the instance,
+ * so the error middleware can send them to the client.
  * The Error.captureStackTrace method is used to create a stack trace for the error, which can be useful for debugging.
  */
 class ErrorHandle extends Error {
     private readonly _statusCode: number;
+    private readonly _code: string;
+    private readonly _details?: { [key: string]: any };
+    private readonly _errors?: { [field: string]: string };
+    private readonly _retryAfter?: number;
 
-    constructor(message: string, statusCode: number) {
+    constructor(message: string, statusCode: number, options: IErrorOptions = {}) {
         super(message);
         this._statusCode = statusCode;
+        this._code = options.code || defaultErrorCodes[statusCode] || defaultErrorCodes[500];
+        this._details = options.details;
+        this._errors = options.errors;
+        this._retryAfter = options.retryAfter;
 
         Error.captureStackTrace(this, this.constructor);
     }
@@ -20,6 +63,22 @@ class ErrorHandle extends Error {
     get statusCode() {
         return this._statusCode;
     }
+
+    get code() {
+        return this._code;
+    }
+
+    get details() {
+        return this._details;
+    }
+
+    get errors() {
+        return this._errors;
+    }
+
+    get retryAfter() {
+        return this._retryAfter;
+    }
 }
 
-export default ErrorHandle;
\ No newline at end of file
+export default ErrorHandle;
@@ -0,0 +1,52 @@
+import { FilterQuery, Model } from "mongoose";
+
+/**
+ * @interface IMonthData
+ * @summary This interface represents the number of documents created in a month.
+ * @property {string} month - The label of the month, such as `Oct 2026`.
+ * @property {number} count - The number of documents created in the month.
+ */
+export interface IMonthData {
+    month: string;
+    count: number;
+}
+
+/**
+ * @function generateLast12MonthsData
+ * @summary This function is used to count the documents of a model created in each of the last 12 months.
+ * @description It works with any model whose schema has the 'timestamps' option, since it groups the documents by their createdAt date.
+ * The months are calendar months in UTC, oldest first, and the last one is the current month.
+ * The window, the grouping and the labels all use UTC, like the `$year` and `$month` operators, so the counts do not depend on the timezone of the server.
+ * Months without any document are included with a count of 0, so the series always has 12 points.
+ * @param {Model<T>} model - The Mongoose model to count the documents of.
+ * @param {FilterQuery<T>} [filter={}] - An optional filter the counted documents must match, such as `{ status: 'paid' }`.
+ * @returns {Promise<{ last12Months: IMonthData[] }>} - The monthly counts.
+ */
+export const generateLast12MonthsData = async <T>(model: Model<T>, filter: FilterQuery<T> = {}): Promise<{ last12Months: IMonthData[] }> => {
+    const now = new Date();
+    const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 11, 1));
+
+    const results: Array<{ _id: { year: number, month: number }, count: number }> = await model.aggregate([
+        { $match: { ...filter, createdAt: { $gte: start } } },
+        {
+            $group: {
+                _id: { year: { $year: '$createdAt' }, month: { $month: '$createdAt' } },
+                count: { $sum: 1 },
+            },
+        },
+    ]);
+
+    const last12Months: IMonthData[] = [];
+
+    for (let i = 0; i < 12; i++) {
+        const date = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + i, 1));
+        const result = results.find(item => item._id.year === date.getUTCFullYear() && item._id.month === date.getUTCMonth() + 1);
+
+        last12Months.push({
+            month: date.toLocaleDateString('en-US', { month: 'short', year: 'numeric', timeZone: 'UTC' }),
+            count: result ? result.count : 0,
+        });
+    }
+
+    return { last12Months };
+}
@@ -0,0 +1,30 @@
+import auditLogModel from "../models/auditLog.model";
+
+/**
+ * @interface IAuditEntry
+ * @summary This interface represents an admin action to record in the audit log.
+ * @property {any} actor - The ID of the admin who took the action.
+ * @property {string} action - The name of the action, such as `user.role.update`.
+ * @property {any} target - The ID of the record the action was taken on.
+ * @property {string} targetType - The type of the record the action was taken on.
+ * @property {any} [before] - The values of the record before the action.
+ * @property {any} [after] - The values of the record after the action.
+ */
+export interface IAuditEntry {
+    actor: any;
+    action: string;
+    target: any;
+    targetType: string;
+    before?: any;
+    after?: any;
+}
+
+/**
+ * @function recordAudit
+ * @summary This function is used to write an admin action to the audit log collection.
+ * @param {IAuditEntry} entry - The action to record.
+ * @returns {Promise<void>}
+ */
+export const recordAudit = async (entry: IAuditEntry): Promise<void> => {
+    await auditLogModel.create(entry);
+}
@@ -0,0 +1,153 @@
+import ejs from "ejs";
+import path from "path";
+import { randomBytes } from "crypto";
+import certificateModel, { ICertificate } from "../models/certificate.model";
+import { ICourse } from "../models/course.model";
+import { IUser } from "../models/user.model";
+import sendMail from "../sendMail";
+import { resolveLocale, translate } from "./i18n";
+import { renderPdf } from "./pdf";
+
+/**
+ * @summary This line of code loads the environment variables from a .env file into process.env.
+ */
+require('dotenv').config();
+
+/**
+ * @summary The directory of the ejs templates of the certificates.
+ */
+const certificatesDir = path.join(__dirname, '../certificates');
+
+/**
+ * @summary The characters of the serials, without the ones that are easily confused, such as 0 and O, or 1 and I.
+ */
+const serialAlphabet = '23456789ABCDEFGHJKLMNPQRSTUVWXYZ';
+
+/**
+ * @function generateSerial
+ * @summary This function generates a random serial for a certificate, such as `7Q2K-9XWD-4HRM-B3NA`.
+ * @description The 16 characters carry 80 random bits, so serials cannot be guessed to find the certificates of other users.
+ * @returns {string} - The serial.
+ */
+export const generateSerial = (): string => {
+    const characters = Array.from(randomBytes(16), byte => serialAlphabet[byte % serialAlphabet.length]).join('');
+
+    return characters.match(/.{4}/g)!.join('-');
+}
+
+/**
+ * @function getVerifyUrl
+ * @summary This function returns the public URL that confirms a certificate is genuine.
+ * @description It is built from `API_URL`, the public URL of the server, which defaults to the local server.
+ * @param {string} serial - The serial of the certificate.
+ * @returns {string} - The URL.
+ */
+export const getVerifyUrl = (serial: string): string => {
+    const apiUrl = process.env.API_URL || `http://localhost:${process.env.PORT || 8000}`;
+
+    return `${apiUrl}/api/v1/certificates/${serial}/verify`;
+}
+
+/**
+ * @function renderCertificate
+ * @summary This function renders the PDF of a certificate, in the locale of its owner.
+ * @description The PDF is not stored: it is rendered from the certificate whenever it is needed,
+ * so it always matches the certificate in the database.
+ * @param {ICertificate} certificate - The certificate.
+ * @param {string} [locale] - The locale of the owner of the certificate.
+ * @returns {Promise<Buffer>} - The PDF.
+ */
+export const renderCertificate = async (certificate: ICertificate, locale?: string): Promise<Buffer> => {
+    const resolved = resolveLocale(locale);
+
+    const html = await ejs.renderFile(path.join(certificatesDir, 'certificate.ejs'), {
+        certificate,
+        completedOn: certificate.completedAt.toLocaleDateString(resolved, { year: 'numeric', month: 'long', day: 'numeric' }),
+        verifyUrl: getVerifyUrl(certificate.serial),
+        locale: resolved,
+        t: (key: string, params?: { [key: string]: any }) => translate(resolved, key, params),
+        appName: process.env.APP_NAME || 'LMS',
+    });
+
+    return renderPdf(html);
+}
+
+/**
+ * @function issueCertificate
+ * @summary This function issues the certificate of a user who has completed a course, and emails it to them.
+ * @description A user gets a single certificate per course. The certificate is created with an atomic upsert on the unique index of the user and course,
+ * and only the call that created it renders and emails it, so concurrent completions of the course send a single email.
+ * The other calls return the existing certificate.
+ * If rendering the PDF or queuing the email fails, the new certificate is deleted,
+ * so the next completion of a lesson or quiz of the course issues and sends it again.
+ * The name of the user and the title of the course are copied to the certificate, with the completion date of the progress.
+ * @param {IUser} user - The user who completed the course.
+ * @param {ICourse} course - The completed course.
+ * @param {Date} completedAt - The date the course was completed.
+ * @returns {Promise<ICertificate>} - The certificate.
+ */
+export const issueCertificate = async (user: IUser, course: ICourse, completedAt: Date): Promise<ICertificate> => {
+    const userId = String(user._id);
+    const courseId = String(course._id);
+
+    let result;
+
+    try {
+        result = await certificateModel.findOneAndUpdate(
+            { userId, courseId },
+            {
+                $setOnInsert: {
+                    serial: generateSerial(),
+                    name: user.name,
+                    courseTitle: course.title,
+                    completedAt,
+                    emailStatus: 'pending',
+                },
+            },
+            { upsert: true, new: true, includeResultMetadata: true }
+        );
+    }
+    catch (error:any) {
+        // A concurrent completion issued the certificate first, and sends it.
+        if (error.code === 11000) {
+            return await certificateModel.findOne({ userId, courseId }) as ICertificate;
+        }
+
+        throw error;
+    }
+
+    const certificate = result.value as ICertificate;
+
+    if (result.lastErrorObject?.updatedExisting) {
+        return certificate;
+    }
+
+    try {
+        const pdf = await renderCertificate(certificate, user.locale);
+
+        await sendMail({
+            email: user.email,
+            template: 'certificate-mail.ejs',
+            data: {
+                user: { name: user.name },
+                course: { title: course.title },
+                certificate: { serial: certificate.serial, verifyUrl: getVerifyUrl(certificate.serial) },
+            },
+            locale: user.locale,
+            attachments: [{
+                filename: `certificate-${certificate.serial}.pdf`,
+                content: pdf.toString('base64'),
+                contentType: 'application/pdf',
+            }],
+        });
+    }
+    catch (error:any) {
+        await certificateModel.deleteOne({ _id: certificate._id });
+        throw error;
+    }
+
+    await certificateModel.updateOne({ _id: certificate._id }, { emailStatus: 'sent' });
+    certificate.emailStatus = 'sent';
+
+    return certificate;
+}
@@ -0,0 +1,183 @@
+import couponModel, { ICoupon } from "../models/coupon.model";
+import couponUsageModel from "../models/couponUsage.model";
+
+/**
+ * @class CouponError
+ * @extends {Error}
+ * @summary This error is thrown when a coupon cannot be applied to an order.
+ * @property {number} statusCode - The HTTP status code of the error.
+ * @property {string} code - The machine-readable code of the error, such as `COUPON_EXPIRED`.
+ */
+export class CouponError extends Error {
+    constructor(message: string, public statusCode: number, public code: string) {
+        super(message);
+    }
+}
+
+/**
+ * @interface ICouponQuote
+ * @summary This interface represents the price of a course with a coupon.
+ * @property {number} originalAmount - The price of the course before the discount.
+ * @property {number} discount - The discount of the coupon.
+ * @property {number} amount - The price of the course after the discount.
+ */
+export interface ICouponQuote {
+    originalAmount: number;
+    discount: number;
+    amount: number;
+}
+
+/**
+ * @function roundAmount
+ * @summary This function rounds an amount to the cent.
+ * @param {number} amount - The amount.
+ * @returns {number} - The rounded amount.
+ */
+const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * @function findCoupon
+ * @summary This function finds a coupon by its code, regardless of case and surrounding spaces.
+ * @param {string} code - The code of the coupon.
+ * @returns {Promise<ICoupon>} - The coupon.
+ * @throws {CouponError} - If there is no coupon with this code.
+ */
+export const findCoupon = async (code: string): Promise<ICoupon> => {
+    const coupon = await couponModel.findOne({ code: code.trim().toUpperCase() });
+
+    if (!coupon) {
+        throw new CouponError("This coupon does not exist.", 404, 'COUPON_NOT_FOUND');
+    }
+
+    return coupon;
+}
+
+/**
+ * @function checkCoupon
+ * @summary This function checks that a coupon can be applied to a course right now, and computes the discount.
+ * @description The limits of the coupon are checked against its current uses, which is enough to show the discount to the user.
+ * The checkout must still reserve the coupon with `reserveCoupon`, which checks the limits atomically.
+ * @param {ICoupon} coupon - The coupon.
+ * @param {string} courseId - The ID of the course.
+ * @param {number} price - The current price of the course.
+ * @returns {ICouponQuote} - The price of the course with the coupon.
+ * @throws {CouponError} - If the coupon is inactive, not started, expired, used up, or does not apply to the course.
+ */
+export const checkCoupon = (coupon: ICoupon, courseId: string, price: number): ICouponQuote => {
+    const now = new Date();
+
+    if (!coupon.active || (coupon.startsAt && coupon.startsAt > now)) {
+        throw new CouponError("This coupon is not active.", 400, 'COUPON_INACTIVE');
+    }
+
+    if (coupon.expiresAt && coupon.expiresAt <= now) {
+        throw new CouponError("This coupon has expired.", 400, 'COUPON_EXPIRED');
+    }
+
+    if (coupon.courses.length && !coupon.courses.includes(courseId)) {
+        throw new CouponError("This coupon does not apply to this course.", 400, 'COUPON_NOT_APPLICABLE');
+    }
+
+    if (coupon.maxUses && coupon.uses >= coupon.maxUses) {
+        throw new CouponError("This coupon has been used up.", 409, 'COUPON_EXHAUSTED');
+    }
+
+    const discount = coupon.type === 'percentage'
+        ? roundAmount(price * coupon.value / 100)
+        : Math.min(coupon.value, price);
+
+    return {
+        originalAmount: price,
+        discount,
+        amount: roundAmount(price - discount),
+    };
+}
+
+/**
+ * @function reserveCoupon
+ * @summary This function reserves a use of a coupon for an order of a user.
+ * @description Both limits of the coupon are checked and counted in single atomic updates, so concurrent checkouts cannot go over them:
+ * - The per-user limit is counted in the usage document of the user, which is only incremented while it is under the limit.
+ *   When the usage document is at the limit, the upsert tries to insert a second one, which the unique index rejects,
+ *   and the increment is retried without the upsert, in case the document was inserted by a concurrent checkout.
+ * - The total limit is counted in the coupon itself, which is only incremented while the coupon is active, not expired, and under the limit.
+ * If the total limit is reached, the per-user use is given back.
+ * @param {ICoupon} coupon - The coupon, checked with `checkCoupon`.
+ * @param {string} userId - The ID of the user.
+ * @returns {Promise<void>}
+ * @throws {CouponError} - If the user or the coupon has reached its limit, or the coupon has expired in the meantime.
+ */
+export const reserveCoupon = async (coupon: ICoupon, userId: string): Promise<void> => {
+    const couponId = String(coupon._id);
+
+    if (coupon.maxUsesPerUser) {
+        const underLimit = { couponId, userId, uses: { $lt: coupon.maxUsesPerUser } };
+
+        try {
+            await couponUsageModel.updateOne(underLimit, { $inc: { uses: 1 } }, { upsert: true });
+        }
+        catch (error:any) {
+            if (error.code !== 11000) {
+                throw error;
+            }
+
+            // The usage document exists: either it is at the limit, or it was inserted by a concurrent checkout of the same user.
+            const { modifiedCount } = await couponUsageModel.updateOne(underLimit, { $inc: { uses: 1 } });
+
+            if (!modifiedCount) {
+                throw new CouponError("You have already used this coupon.", 409, 'COUPON_USER_LIMIT_REACHED');
+            }
+        }
+    }
+
+    const now = new Date();
+
+    const reserved = await couponModel.findOneAndUpdate(
+        {
+            _id: coupon._id,
+            active: true,
+            $and: [
+                { $or: [{ startsAt: null }, { startsAt: { $lte: now } }] },
+                { $or: [{ expiresAt: null }, { expiresAt: { $gt: now } }] },
+                { $or: [{ maxUses: 0 }, { $expr: { $lt: ['$uses', '$maxUses'] } }] },
+            ],
+        },
+        { $inc: { uses: 1 } },
+        { new: true }
+    );
+
+    if (!reserved) {
+        if (coupon.maxUsesPerUser) {
+            await couponUsageModel.updateOne({ couponId, userId, uses: { $gt: 0 } }, { $inc: { uses: -1 } });
+        }
+
+        throw new CouponError("This coupon has been used up.", 409, 'COUPON_EXHAUSTED');
+    }
+}
+
+/**
+ * @function releaseCoupon
+ * @summary This function gives back the use of a coupon reserved for an order that will not be paid.
+ * @description The caller must make sure the use is only released once for each order, such as by changing the status of the order atomically.
+ * @param {string} couponId - The ID of the coupon.
+ * @param {string} userId - The ID of the user.
+ * @returns {Promise<void>}
+ */
+export const releaseCoupon = async (couponId: string, userId: string): Promise<void> => {
+    await couponModel.updateOne({ _id: couponId, uses: { $gt: 0 } }, { $inc: { uses: -1 } });
+    await couponUsageModel.updateOne({ couponId, userId, uses: { $gt: 0 } }, { $inc: { uses: -1 } });
+}
+
+/**
+ * @function restoreCoupon
+ * @summary This function counts again the use of a coupon that was given back, for an order that was paid after all.
+ * @description The limits of the coupon are not checked, since the order has already been paid at the discounted price.
+ * The caller must make sure the use is only restored once for each order, such as by changing the status of the order atomically.
+ * @param {string} couponId - The ID of the coupon.
+ * @param {string} userId - The ID of the user.
+ * @returns {Promise<void>}
+ */
+export const restoreCoupon = async (couponId: string, userId: string): Promise<void> => {
+    await couponModel.updateOne({ _id: couponId }, { $inc: { uses: 1 } });
+    await couponUsageModel.updateOne({ couponId, userId }, { $inc: { uses: 1 } }, { upsert: true });
+}
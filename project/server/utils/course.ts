@@ -0,0 +1,111 @@
+import { IUser } from "../models/user.model";
+import courseModel, { ICourse, ILesson, isPublished } from "../models/course.model";
+import ErrorHandle from "./ErrorHandle";
+
+/**
+ * @function isEnrolled
+ * @summary This function is used to check whether a user has access to the content of a course.
+ * @description A user has access when the course is in their `courses` list, which happens once they have bought it.
+ * Admins have access to every course.
+ * @param {IUser | undefined} user - The user, usually the authenticated user attached to the request.
+ * @param {string} courseId - The ID of the course.
+ * @returns {boolean} - Whether the user has access to the course content.
+ */
+export const isEnrolled = (user: IUser | undefined, courseId: string): boolean => {
+    if (!user) {
+        return false;
+    }
+
+    if (user.role === 'admin') {
+        return true;
+    }
+
+    return (user.courses || []).some(course => String(course.courseId) === String(courseId));
+}
+
+/**
+ * @function findLesson
+ * @summary This function is used to find a lesson of a course by its ID.
+ * @param {ICourse} course - The course.
+ * @param {string} lessonId - The ID of the lesson.
+ * @returns {ILesson | undefined} - The lesson, or undefined if the course has no lesson with this ID.
+ */
+export const findLesson = (course: ICourse, lessonId: string): ILesson | undefined => {
+    for (const section of course.sections) {
+        const lesson = section.lessons.find(item => String(item._id) === lessonId);
+
+        if (lesson) {
+            return lesson;
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * @function canManageCourse
+ * @summary This function is used to check whether a user can edit a course and see its content without buying it.
+ * @description Admins can manage every course, and instructors can manage the courses they own.
+ * @param {IUser | undefined} user - The user, usually the authenticated user attached to the request.
+ * @param {ICourse} course - The course.
+ * @returns {boolean} - Whether the user can manage the course.
+ */
+export const canManageCourse = (user: IUser | undefined, course: ICourse): boolean => {
+    if (!user) {
+        return false;
+    }
+
+    if (user.role === 'admin') {
+        return true;
+    }
+
+    return user.role === 'instructor' && !!course.instructor && course.instructor === String(user._id);
+}
+
+/**
+ * @function getCourseLockError
+ * @summary This function is used to check whether the content of a course, such as its lessons and quizzes, can be changed by a user.
+ * @description Admins can change every course. Instructors can only change their drafts, so admins approve what they reviewed,
+ * and published courses only change with their approval: an admin unpublishes the course, and the instructor submits it for review again.
+ * Whether the user owns the course is checked separately, with `canManageCourse`.
+ * @param {IUser | undefined} user - The user, usually the authenticated user attached to the request.
+ * @param {ICourse} course - The course, with its status.
+ * @returns {ErrorHandle | undefined} - The 409 error to pass to the next middleware function, or undefined if the course can be changed.
+ */
+export const getCourseLockError = (user: IUser | undefined, course: ICourse): ErrorHandle | undefined => {
+    if (user?.role === 'admin') {
+        return undefined;
+    }
+
+    if (course.status === 'review') {
+        return new ErrorHandle("This course is in review, and cannot be changed until it has been reviewed.", 409, { code: 'COURSE_IN_REVIEW' });
+    }
+
+    if (isPublished(course)) {
+        return new ErrorHandle("This course is published, and can only be changed once an admin has unpublished it.", 409, { code: 'COURSE_PUBLISHED' });
+    }
+
+    return undefined;
+}
+
+/**
+ * @function hasCourseAccess
+ * @summary This function is used to check whether a user can see the content of a course, as a learner or as its instructor.
+ * @description Enrolled users and admins are checked without a query. For instructors, the owner of the course is looked up.
+ * @param {IUser | undefined} user - The user, usually the authenticated user attached to the request.
+ * @param {string} courseId - The ID of the course.
+ * @returns {Promise<boolean>} - Whether the user has access to the course content.
+ */
+export const hasCourseAccess = async (user: IUser | undefined, courseId: string): Promise<boolean> => {
+    if (isEnrolled(user, courseId)) {
+        return true;
+    }
+
+    if (user?.role !== 'instructor') {
+        return false;
+    }
+
+    const course = await courseModel.findById(courseId).select('instructor');
+
+    return !!course && canManageCourse(user, course);
+}
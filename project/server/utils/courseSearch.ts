@@ -0,0 +1,372 @@
+/**
+ * @file This file implements the full-text search of the course catalogue.
+ * @description Keywords are matched by the `course_search` text index of the Course model, across the title, tags, lesson titles and description.
+ * Results can be filtered by level, price range and minimum rating, sorted by relevance, newest or most popular,
+ * and are paginated with an opaque cursor, so pages stay consistent while courses are added.
+ * The price filter and facets use the current price of the courses, which is the sale price while a sale is running.
+ * Only published courses are searched, drafts and courses in review are left out of the results and the facets.
+ *
+ * Popular queries are cached in Redis. Each query is counted for `COURSE_SEARCH_POPULAR_WINDOW` seconds,
+ * and once it has been searched `COURSE_SEARCH_POPULAR_THRESHOLD` times, its results are cached for `COURSE_SEARCH_CACHE_TTL` seconds.
+ *
+ * Cache invalidation rules:
+ * - Every cache key contains the version of the catalogue, stored in `course_search:version`.
+ * - Creating, updating or deleting a course calls `invalidateCourseSearch`, which increments the version,
+ *   so every cached search is ignored right away, and expires on its own.
+ * - Purchases and reviews do not increment the version, since they happen far more often than catalogue edits.
+ *   The popularity sort and the rating filter and facets can therefore be stale for up to `COURSE_SEARCH_CACHE_TTL` seconds.
+ * - Sales starting or ending do not increment the version either, so the current prices can be stale for up to `COURSE_SEARCH_CACHE_TTL` seconds.
+ */
+
+import { createHash } from "crypto";
+import mongoose, { PipelineStage } from "mongoose";
+import courseModel, { publishedCourseFilter } from "../models/course.model";
+import { redis } from "./redis";
+
+/**
+ * @summary This line of code loads the environment variables from a .env file into process.env.
+ */
+require('dotenv').config();
+
+/**
+ * @summary The settings of the cache of the popular queries.
+ */
+const searchCacheTtl = parseInt(process.env.COURSE_SEARCH_CACHE_TTL || '300', 10);
+const popularThreshold = parseInt(process.env.COURSE_SEARCH_POPULAR_THRESHOLD || '3', 10);
+const popularWindow = parseInt(process.env.COURSE_SEARCH_POPULAR_WINDOW || '3600', 10);
+
+/**
+ * @summary The Redis keys of the search cache.
+ */
+const versionKey = 'course_search:version';
+const hitsKey = (hash: string) => `course_search:hits:${hash}`;
+const resultsKey = (version: string, hash: string) => `course_search:results:${version}:${hash}`;
+
+/**
+ * @summary The sort orders of a search.
+ */
+export const courseSearchSorts = ['relevance', 'newest', 'popular'];
+
+/**
+ * @summary The field each sort order sorts on, from the highest value to the lowest.
+ */
+const sortFields: { [sort: string]: string } = {
+    relevance: 'score',
+    newest: 'createdAt',
+    popular: 'purchased',
+};
+
+/**
+ * @summary The boundaries of the price and rating facets. Each bucket goes from a boundary to the next one, excluded.
+ */
+const priceBoundaries = [0, 0.01, 25, 50, 100];
+const ratingBoundaries = [0, 1, 2, 3, 4, 5.01];
+
+/**
+ * @summary The fields of the courses sent in the search results.
+ */
+const resultFields = {
+    title: 1,
+    description: 1,
+    price: 1,
+    estimatedPrice: 1,
+    sale: 1,
+    currentPrice: 1,
+    wasPrice: 1,
+    thumbnail: 1,
+    tags: 1,
+    level: 1,
+    ratings: 1,
+    reviewCount: 1,
+    purchased: 1,
+    createdAt: 1,
+};
+
+/**
+ * @summary The expression that checks whether the sale of a course is running, like `isSaleActive`.
+ */
+const saleActive = {
+    $and: [
+        { $lte: [{ $ifNull: ['$sale.startsAt', '$$NOW'] }, '$$NOW'] },
+        { $gt: ['$sale.endsAt', '$$NOW'] },
+    ],
+};
+
+/**
+ * @summary The stage that adds the current and "was" prices of the courses, like the virtuals of the Course model.
+ */
+const pricingStage: PipelineStage.AddFields = {
+    $addFields: {
+        currentPrice: { $cond: [saleActive, { $ifNull: ['$sale.price', '$price'] }, '$price'] },
+        wasPrice: {
+            $let: {
+                vars: {
+                    current: { $cond: [saleActive, { $ifNull: ['$sale.price', '$price'] }, '$price'] },
+                    was: { $ifNull: ['$estimatedPrice', { $cond: [saleActive, '$price', null] }] },
+                },
+                in: { $cond: [{ $gt: ['$$was', '$$current'] }, '$$was', null] },
+            },
+        },
+    },
+};
+
+/**
+ * @interface ICourseSearchParams
+ * @summary This interface represents the parameters of a search.
+ * @property {string} [q] - The keywords.
+ * @property {string} [level] - The level of the courses.
+ * @property {number} [minPrice] - The minimum price of the courses.
+ * @property {number} [maxPrice] - The maximum price of the courses.
+ * @property {number} [minRating] - The minimum average rating of the courses.
+ * @property {string} [sort] - The sort order, which defaults to relevance when there are keywords, and to newest otherwise.
+ * @property {number} limit - The number of courses of a page.
+ * @property {string} [cursor] - The cursor of the page, from the previous page.
+ */
+export interface ICourseSearchParams {
+    q?: string;
+    level?: string;
+    minPrice?: number;
+    maxPrice?: number;
+    minRating?: number;
+    sort?: string;
+    limit: number;
+    cursor?: string;
+}
+
+/**
+ * @interface ICourseSearchResult
+ * @summary This interface represents a page of search results.
+ * @property {any[]} courses - The courses of the page.
+ * @property {string | null} nextCursor - The cursor of the next page, or null if this is the last page.
+ * @property {Object} facets - The number of courses matching the keywords for each level, price range and rating.
+ */
+export interface ICourseSearchResult {
+    courses: any[];
+    nextCursor: string | null;
+    facets: {
+        level: { [level: string]: number };
+        price: Array<{ min: number, max: number | null, count: number }>;
+        rating: Array<{ min: number, max: number, count: number }>;
+    };
+}
+
+/**
+ * @class InvalidCursorError
+ * @extends {Error}
+ * @summary This error is thrown when the cursor of a search cannot be decoded, or was issued for another sort order.
+ */
+export class InvalidCursorError extends Error {}
+
+/**
+ * @function encodeCursor
+ * @summary This function encodes the position after a course as a cursor.
+ * @param {string} sort - The sort order.
+ * @param {any} course - The last course of the page.
+ * @returns {string} - The cursor, in base64url.
+ */
+const encodeCursor = (sort: string, course: any): string => {
+    const value = course[sortFields[sort]];
+
+    return Buffer.from(JSON.stringify({
+        s: sort,
+        v: value instanceof Date ? value.toISOString() : value,
+        id: String(course._id),
+    })).toString('base64url');
+}
+
+/**
+ * @function decodeCursor
+ * @summary This function decodes a cursor into the filter of the courses that come after it.
+ * @param {string} sort - The sort order.
+ * @param {string} cursor - The cursor.
+ * @returns {object} - The Mongoose filter.
+ */
+const decodeCursor = (sort: string, cursor: string): object => {
+    let position: { s: string, v: any, id: string };
+
+    try {
+        position = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    } catch (error) {
+        throw new InvalidCursorError("The cursor is invalid.");
+    }
+
+    if (position.s !== sort || !mongoose.isValidObjectId(position.id)) {
+        throw new InvalidCursorError("The cursor is invalid.");
+    }
+
+    const field = sortFields[sort];
+    const value = sort === 'newest' ? new Date(position.v) : position.v;
+    const id = new mongoose.Types.ObjectId(position.id);
+
+    return {
+        $or: [
+            { [field]: { $lt: value } },
+            { [field]: value, _id: { $lt: id } },
+        ],
+    };
+}
+
+/**
+ * @function buildFilters
+ * @summary This function builds the filter of the level, price and rating of a search.
+ * @description The price is filtered on the current price, so the filter must run after the pricing stage.
+ * @param {ICourseSearchParams} params - The parameters of the search.
+ * @returns {object} - The Mongoose filter.
+ */
+const buildFilters = (params: ICourseSearchParams): { [field: string]: any } => {
+    const filters: { [field: string]: any } = {};
+
+    if (params.level) {
+        filters.level = params.level;
+    }
+
+    if (params.minPrice !== undefined || params.maxPrice !== undefined) {
+        filters.currentPrice = {
+            ...(params.minPrice !== undefined && { $gte: params.minPrice }),
+            ...(params.maxPrice !== undefined && { $lte: params.maxPrice }),
+        };
+    }
+
+    if (params.minRating !== undefined) {
+        filters.ratings = { $gte: params.minRating };
+    }
+
+    return filters;
+}
+
+/**
+ * @function computeFacets
+ * @summary This function counts the courses matching the keywords for each level, price range and rating.
+ * @description The filters of the search are not applied, so the facets show how many courses each other choice would give.
+ * @param {object} keywordMatch - The filter of the published courses matching the keywords.
+ * @returns {Promise<ICourseSearchResult['facets']>} - The facets.
+ */
+const computeFacets = async (keywordMatch: object): Promise<ICourseSearchResult['facets']> => {
+    const [result] = await courseModel.aggregate([
+        { $match: keywordMatch },
+        pricingStage,
+        {
+            $facet: {
+                level: [{ $group: { _id: '$level', count: { $sum: 1 } } }],
+                price: [{ $bucket: { groupBy: '$currentPrice', boundaries: priceBoundaries, default: 'more', output: { count: { $sum: 1 } } } }],
+                rating: [{ $bucket: { groupBy: '$ratings', boundaries: ratingBoundaries, default: 'other', output: { count: { $sum: 1 } } } }],
+            },
+        },
+    ]);
+
+    const level: { [level: string]: number } = {};
+
+    result.level.forEach((bucket: { _id: string, count: number }) => {
+        level[bucket._id] = bucket.count;
+    });
+
+    return {
+        level,
+        price: result.price.map((bucket: { _id: number | string, count: number }) => {
+            if (bucket._id === 'more') {
+                return { min: priceBoundaries[priceBoundaries.length - 1], max: null, count: bucket.count };
+            }
+
+            const index = priceBoundaries.indexOf(bucket._id as number);
+            return { min: bucket._id, max: priceBoundaries[index + 1], count: bucket.count };
+        }),
+        rating: result.rating
+            .filter((bucket: { _id: number | string }) => bucket._id !== 'other')
+            .map((bucket: { _id: number, count: number }) => ({ min: bucket._id, max: Math.min(bucket._id + 1, 5), count: bucket.count })),
+    };
+}
+
+/**
+ * @function runSearch
+ * @summary This function runs a search against the database.
+ * @param {ICourseSearchParams} params - The parameters of the search.
+ * @param {string} sort - The resolved sort order.
+ * @returns {Promise<ICourseSearchResult>} - The page of results.
+ */
+const runSearch = async (params: ICourseSearchParams, sort: string): Promise<ICourseSearchResult> => {
+    const keywordMatch = {
+        ...publishedCourseFilter,
+        ...(params.q && { $text: { $search: params.q } }),
+    };
+
+    const pipeline: PipelineStage[] = [
+        { $match: keywordMatch },
+        pricingStage,
+        { $match: buildFilters(params) },
+    ];
+
+    if (params.q) {
+        pipeline.push({ $addFields: { score: { $meta: 'textScore' } } });
+    }
+
+    if (params.cursor) {
+        pipeline.push({ $match: decodeCursor(sort, params.cursor) });
+    }
+
+    pipeline.push(
+        { $sort: { [sortFields[sort]]: -1, _id: -1 } },
+        { $limit: params.limit + 1 },
+        { $project: { ...resultFields, ...(params.q && { score: 1 }) } },
+    );
+
+    const [courses, facets] = await Promise.all([
+        courseModel.aggregate(pipeline),
+        computeFacets(keywordMatch),
+    ]);
+
+    const hasMore = courses.length > params.limit;
+    const page = hasMore ? courses.slice(0, params.limit) : courses;
+
+    return {
+        courses: page,
+        nextCursor: hasMore ? encodeCursor(sort, page[page.length - 1]) : null,
+        facets,
+    };
+}
+
+/**
+ * @function searchCatalogue
+ * @summary This function searches the course catalogue, using the cache for popular queries.
+ * @description The cache key is a hash of the normalized parameters, so the same search always hits the same entry,
+ * whatever the case and spacing of the keywords.
+ * @param {ICourseSearchParams} params - The parameters of the search.
+ * @returns {Promise<ICourseSearchResult>} - The page of results.
+ */
+export const searchCatalogue = async (params: ICourseSearchParams): Promise<ICourseSearchResult> => {
+    const q = params.q?.trim().toLowerCase().replace(/\s+/g, ' ') || undefined;
+    const sort = params.sort === 'relevance' && !q ? 'newest' : params.sort || (q ? 'relevance' : 'newest');
+    const normalized: ICourseSearchParams = { ...params, q, sort };
+
+    const hash = createHash('sha1').update(JSON.stringify([
+        q, params.level, params.minPrice, params.maxPrice, params.minRating, sort, params.limit, params.cursor,
+    ])).digest('hex');
+
+    const version = await redis.get(versionKey) || '0';
+    const cached = await redis.get(resultsKey(version, hash));
+
+    if (cached) {
+        return JSON.parse(cached) as ICourseSearchResult;
+    }
+
+    const result = await runSearch(normalized, sort);
+
+    const [[, hits]] = await redis.multi()
+        .incr(hitsKey(hash))
+        .expire(hitsKey(hash), popularWindow, 'NX')
+        .exec() as [[Error | null, number]];
+
+    if (searchCacheTtl > 0 && hits >= popularThreshold) {
+        await redis.set(resultsKey(version, hash), JSON.stringify(result), 'EX', searchCacheTtl);
+    }
+
+    return result;
+}
+
+/**
+ * @function invalidateCourseSearch
+ * @summary This function invalidates every cached search, after the catalogue has changed.
+ * @returns {Promise<void>}
+ */
+export const invalidateCourseSearch = async (): Promise<void> => {
+    await redis.incr(versionKey);
+}
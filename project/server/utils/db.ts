@@ -1,4 +1,5 @@
 import mongoose from 'mongoose';
+import userModel from '../models/user.model';
 
 /**
  * @summary  Used to load environment variables from a .env file into the process.env object in Node.js.
@@ -12,9 +13,34 @@ require ('dotenv').config();
  */
 const dbUrl:string = process.env.DB_URL || '';
 
+/**
+ * @function normalizeUserEmails
+ * @summary This function lowercases the emails of the accounts registered before emails were stored in lowercase.
+ * @description Emails are looked up in lowercase, so these accounts could not sign in, and social logins with the same email created duplicates.
+ * An email that differs only by case from the email of another account is left as it is, and logged, so the accounts can be merged by hand.
+ * @returns {Promise<void>}
+ */
+const normalizeUserEmails = async (): Promise<void> => {
+    const users = await userModel.find({ email: /[A-Z]|^\s|\s$/ }).select('email');
+
+    for (const user of users) {
+        try {
+            await userModel.updateOne({ _id: user._id }, { $set: { email: user.email } });
+        }
+        catch (error:any) {
+            if (error.code !== 11000) {
+                throw error;
+            }
+
+            console.log(`The email of user ${user._id} is used by another account with a different case.`);
+        }
+    }
+}
+
 /**
  * @summary This function connects to the MongoDB database using the Mongoose library.
  * It uses the dbUrl variable to connect to the database.
+ * Once connected, it lowercases the emails of the older accounts, see `normalizeUserEmails`.
  * The connectDB function is called in the app.ts file.
  */
 const connectDB = async () => {
@@ -23,6 +49,8 @@ const connectDB = async () => {
         await mongoose.connect(dbUrl).then((data:any) => {
             console.log(`Database connected with ${data.connection.host}`);
         });
+
+        normalizeUserEmails().catch(error => console.log(error.message));
     } catch (error:any) {
         // If the connection fails, log the error message to the console and try again after 5 seconds.
         if (error instanceof Error) {
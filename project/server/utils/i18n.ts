@@ -0,0 +1,74 @@
+import fs from "fs";
+import path from "path";
+
+/**
+ * @summary This line of code loads the environment variables from a .env file into process.env.
+ */
+require('dotenv').config();
+
+/**
+ * @summary The locales the application is translated to. Each one has a JSON file of messages in the `locales` directory.
+ */
+export const supportedLocales = ['en', 'es'];
+
+/**
+ * @summary The locale used when a user has no locale, or when a message is missing from the locale of the user.
+ * @description It is set by the `DEFAULT_LOCALE` environment variable, and defaults to English.
+ */
+export const defaultLocale = supportedLocales.includes(process.env.DEFAULT_LOCALE as string)
+    ? process.env.DEFAULT_LOCALE as string
+    : 'en';
+
+/**
+ * @summary The messages of every supported locale, loaded once from the `locales` directory.
+ */
+const messages: { [locale: string]: { [key: string]: any } } = {};
+
+for (const locale of supportedLocales) {
+    messages[locale] = JSON.parse(fs.readFileSync(path.join(__dirname, '../locales', `${locale}.json`), 'utf8'));
+}
+
+/**
+ * @function resolveLocale
+ * @summary This function is used to get a supported locale from a requested one.
+ * @param {string} [locale] - The requested locale.
+ * @returns {string} - The requested locale if it is supported, the default locale otherwise.
+ */
+export const resolveLocale = (locale?: string | false | null): string => {
+    return locale && supportedLocales.includes(locale) ? locale : defaultLocale;
+}
+
+/**
+ * @function lookup
+ * @summary This function is used to find a message of a locale from its dotted key, such as `activation-mail.subject`.
+ * @param {string} locale - The locale.
+ * @param {string} key - The key of the message.
+ * @returns {string | undefined} - The message, or undefined if the locale has no message for the key.
+ */
+const lookup = (locale: string, key: string): string | undefined => {
+    let value: any = messages[locale];
+
+    for (const part of key.split('.')) {
+        value = value?.[part];
+    }
+
+    return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * @function translate
+ * @summary This function is used to translate a message to a locale.
+ * @description The message is looked up in the locale, then in the default locale, and the key itself is returned if both miss it.
+ * Placeholders of the message, such as `{{name}}`, are replaced by the matching parameters.
+ * @param {string} locale - The locale.
+ * @param {string} key - The key of the message.
+ * @param {{ [key: string]: any }} [params] - The values of the placeholders.
+ * @returns {string} - The translated message.
+ */
+export const translate = (locale: string, key: string, params: { [key: string]: any } = {}): string => {
+    const message = lookup(resolveLocale(locale), key) ?? lookup(defaultLocale, key) ?? key;
+
+    return message.replace(/{{\s*(\w+)\s*}}/g, (placeholder, name) => {
+        return params[name] !== undefined ? String(params[name]) : placeholder;
+    });
+}
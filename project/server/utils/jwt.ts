@@ -1,6 +1,10 @@
-import {Response} from "express";
+import {Request, Response} from "express";
+import * as jwt from "jsonwebtoken";
+import {JwtPayload, Secret} from "jsonwebtoken";
+import {randomUUID} from "crypto";
 import {IUser} from "../models/user.model";
 import {redis} from "./redis";
+import {createSession, getSession, revokeSession, touchSession} from "./session";
 
 /**
  * @summary This line of code loads the environment variables from a .env file into process.env.
@@ -30,25 +34,122 @@ interface ITokenOptions {
     secure?: boolean;
 }
 
+/**
+ * @interface IRefreshTokenPayload
+ * @summary This interface represents the payload of a verified refresh token.
+ * @property {string} id - The ID of the user the token was issued to.
+ * @property {string} sid - The ID of the session, which is also the token family the token belongs to.
+ */
+export interface IRefreshTokenPayload {
+    id: string;
+    sid: string;
+}
+
+/**
+ * @summary The expiry times of the access and refresh tokens, in seconds.
+ */
+export const accessTokenExpire = parseInt(process.env.JWT_ACCESS_TOKEN_EXPIRES_TIME || '300', 10);
+export const refreshTokenExpire = parseInt(process.env.JWT_REFRESH_TOKEN_EXPIRES_TIME || '1200', 10);
+
+/**
+ * @summary This function builds the Redis key used to track refresh tokens.
+ * @description Every refresh token ID is stored under `refresh_token:<jti>` until it is used once.
+ * The value is the ID of the session the token was issued for.
+ */
+const refreshTokenKey = (tokenId: string) => `refresh_token:${tokenId}`;
+
+/**
+ * @function issueRefreshToken
+ * @summary This function is used to issue a new refresh token for a session of the user.
+ * @description It generates a new token ID and tracks it in Redis, together with the session it belongs to.
+ * Every token rotated from the same login belongs to the same session, which acts as the token family.
+ * @param {IUser} user - The user for whom the token is issued.
+ * @param {string} sessionId - The ID of the session.
+ * @returns {Promise<string>} - The signed refresh token.
+ */
+const issueRefreshToken = async (user: IUser, sessionId: string): Promise<string> => {
+    const tokenId = randomUUID();
+
+    await redis.set(refreshTokenKey(tokenId), sessionId, 'EX', refreshTokenExpire);
+
+    return user.SignRefreshToken(tokenId, sessionId);
+}
+
+/**
+ * @function rotateRefreshToken
+ * @summary This function is used to consume a refresh token so that it can be exchanged for a new token pair.
+ * @description It verifies the refresh token and atomically removes its ID from Redis, so each token can only be used once.
+ * If the token ID is no longer tracked while its session is still active, the token has already been used,
+ * which means it was stolen or replayed. In that case the whole session, and with it the token family, is revoked,
+ * which logs out both the attacker and the legitimate user, and null is returned.
+ * Otherwise, the session is extended and its last-seen date is updated.
+ * @param {string} refreshToken - The refresh token sent by the client.
+ * @returns {Promise<IRefreshTokenPayload | null>} - The token payload, or null if the token cannot be used.
+ */
+export const rotateRefreshToken = async (refreshToken: string): Promise<IRefreshTokenPayload | null> => {
+    const decoded = jwt.verify(refreshToken, process.env.JWT_REFRESH_TOKEN as Secret || "") as JwtPayload;
+
+    if (!decoded || !decoded.id || !decoded.jti || !decoded.sid) {
+        return null;
+    }
+
+    const storedSessionId = await redis.getdel(refreshTokenKey(decoded.jti));
+    const session = await getSession(decoded.sid);
+
+    if (!session || session.userId !== String(decoded.id)) {
+        return null;
+    }
+
+    if (storedSessionId !== session.id) {
+        await revokeSession(session.userId, session.id);
+        return null;
+    }
+
+    await touchSession(session, true);
+
+    return { id: decoded.id, sid: session.id };
+}
+
+/**
+ * @function clearTokens
+ * @summary This function is used to remove the access and refresh token cookies from the client.
+ * @param {Response} res - The response object.
+ */
+export const clearTokens = (res: Response) => {
+    res.cookie('access_token', null, {
+        maxAge: 1,
+    });
+
+    res.cookie('refresh_token', null, {
+        maxAge: 1,
+    });
+}
+
 /**
  * @function sendToken
  * @summary This function is used to send JWT tokens to the client.
  * @description It generates an access token and a refresh token for the user, sets the options for the tokens, and sends them as cookies in the response. It also sends a JSON response with the success status, access token, and user data. Additionally, it stores the user data in Redis for session management.
+ * When a session ID is given, the tokens are issued for that existing session, which is what happens on refresh.
+ * Otherwise, a new session is created for the device that made the request.
  * @param {IUser} user - The user for whom the tokens are generated.
  * @param {number} statusCode - The status code of the response.
+ * @param {Request} req - The request object, used to record the device of a new session.
  * @param {Response} res - The response object.
+ * @param {string} [sessionId] - The ID of the session to continue, if any.
+ * @returns {Promise<void>}
  */
-export const sendToken = ( user: IUser, statusCode: number, res: Response ) => {
+export const sendToken = async ( user: IUser, statusCode: number, req: Request, res: Response, sessionId?: string ): Promise<void> => {
+    // Create a new session for the device, unless an existing session is being continued
+    if (!sessionId) {
+        sessionId = (await createSession(String(user._id), req)).id;
+    }
+
     // Generate access and refresh tokens for the user
-    const accessToken = user.SignAccessToken();
-    const refreshToken = user.SignRefreshToken();
+    const accessToken = user.SignAccessToken(sessionId);
+    const refreshToken = await issueRefreshToken(user, sessionId);
 
     // Store the user data in Redis for session management
-    redis.set(user._id, JSON.stringify(user as any));
-
-    // Set the expiry times for the access and refresh tokens
-    const accessTokenExpire = parseInt(process.env.JWT_ACCESS_TOKEN_EXPIRES_TIME || '300', 10)
-    const refreshTokenExpire = parseInt(process.env.JWT_REFRESH_TOKEN_EXPIRES_TIME || '1200', 10)
+    await redis.set(String(user._id), JSON.stringify(user as any));
 
     // Set the options for the access token
     const accessTokenOptions: ITokenOptions = {
@@ -70,9 +171,10 @@ export const sendToken = ( user: IUser, statusCode: number, res: Response ) => {
         sameSite: 'lax'
     };
 
-    // If the environment is production, set the secure option for the access token
+    // If the environment is production, set the secure option for both tokens
     if (process.env.NODE_ENV === 'production') {
         accessTokenOptions.secure = true;
+        refreshTokenOptions.secure = true;
     }
 
     // Send the access and refresh tokens as cookies in the response
@@ -85,4 +187,4 @@ export const sendToken = ( user: IUser, statusCode: number, res: Response ) => {
         accessToken,
         user
     });
-}
\ No newline at end of file
+}
@@ -0,0 +1,62 @@
+import { redis } from "./redis";
+
+/**
+ * @summary The settings of the login lockout.
+ * @description After `lockoutThreshold` failed logins in a row, the account is locked for `baseLockSeconds`,
+ * and every further failure doubles the lock, up to `maxLockSeconds`.
+ * The failure counter is kept for `failureWindowSeconds` after the last failure, and is cleared by a successful login.
+ */
+const lockoutThreshold = 5;
+const baseLockSeconds = 60;
+const maxLockSeconds = 60 * 60;
+const failureWindowSeconds = 24 * 60 * 60;
+
+/**
+ * @summary These functions build the Redis keys used by the login lockout.
+ * @description Emails are lowercased, so the lockout cannot be bypassed by changing the case of the email.
+ */
+const failuresKey = (email: string) => `login_failures:${email.toLowerCase()}`;
+const lockKey = (email: string) => `login_lock:${email.toLowerCase()}`;
+
+/**
+ * @function getLoginLock
+ * @summary This function is used to check whether an account is locked.
+ * @param {string} email - The email of the account.
+ * @returns {Promise<number>} - The number of seconds left before the account is unlocked, or 0 if it is not locked.
+ */
+export const getLoginLock = async (email: string): Promise<number> => {
+    const ttl = await redis.ttl(lockKey(email));
+
+    return ttl > 0 ? ttl : 0;
+}
+
+/**
+ * @function recordLoginFailure
+ * @summary This function is used to record a failed login, and to lock the account once there have been too many.
+ * @description Failures are recorded for unknown emails too, so the lockout does not reveal which emails are registered.
+ * @param {string} email - The email used in the failed login.
+ * @returns {Promise<number>} - The number of seconds the account is now locked for, or 0 if it is not locked.
+ */
+export const recordLoginFailure = async (email: string): Promise<number> => {
+    const failures = await redis.incr(failuresKey(email));
+    await redis.expire(failuresKey(email), failureWindowSeconds);
+
+    if (failures < lockoutThreshold) {
+        return 0;
+    }
+
+    const lockSeconds = Math.min(baseLockSeconds * 2 ** (failures - lockoutThreshold), maxLockSeconds);
+    await redis.set(lockKey(email), failures, 'EX', lockSeconds);
+
+    return lockSeconds;
+}
+
+/**
+ * @function clearLoginFailures
+ * @summary This function is used to reset the failed login counter of an account after a successful login.
+ * @param {string} email - The email of the account.
+ * @returns {Promise<void>}
+ */
+export const clearLoginFailures = async (email: string): Promise<void> => {
+    await redis.del(failuresKey(email), lockKey(email));
+}
@@ -0,0 +1,180 @@
+import { randomUUID } from "crypto";
+import { hostname } from "os";
+import { Redis } from "ioredis";
+import { redis } from "./redis";
+
+/**
+ * @summary This line of code loads the environment variables from a .env file into process.env.
+ */
+require('dotenv').config();
+
+/**
+ * @summary The Redis keys of the mail queue.
+ * @description Jobs ready to run are in the `mail:queue` list. Jobs being sent are moved to the `mail:processing:<worker ID>` list
+ * of the worker sending them, and only removed from it once they have been sent or rescheduled,
+ * so a job is not lost if the process stops while sending it.
+ * Jobs waiting for a retry are in the `mail:delayed` sorted set, scored by the time they can run again.
+ * Jobs that failed every attempt are moved to the `mail:dead` list, where they can be inspected.
+ */
+const queueKey = 'mail:queue';
+
+const delayedKey = 'mail:delayed';
+const deadKey = 'mail:dead';
+
+/**
+ * @summary The ID of the worker of this server instance, set by `MAIL_WORKER_ID`, which defaults to the host name.
+ * @description It must be unique per instance and stay the same across restarts,
+ * so an instance only takes back the jobs it was sending itself, and never the ones other live workers are sending.
+ */
+const workerId = process.env.MAIL_WORKER_ID || hostname();
+const processingKey = `mail:processing:${workerId}`;
+
+/**
+ * @summary The settings of the retries.
+ * @description A failed job is retried after `retryBaseDelay` milliseconds, and the delay doubles after every failure,
+ * until the job has been tried `MAIL_MAX_ATTEMPTS` times, which defaults to 5.
+ */
+const maxAttempts = parseInt(process.env.MAIL_MAX_ATTEMPTS || '5', 10);
+const retryBaseDelay = 2000;
+
+/**
+ * @summary How often the delayed jobs are checked, in milliseconds, and how long the worker blocks waiting for a job, in seconds.
+ */
+const delayedPollInterval = 1000;
+const blockTimeout = 5;
+
+/**
+ * @interface IMailJob
+ * @summary This interface represents a job of the mail queue.
+ * @property {string} id - The ID of the job.
+ * @property {T} data - The data of the job, which is the mail options passed to `sendMail`.
+ * @property {number} attempts - The number of times the job has been tried.
+ * @property {string} [lastError] - The error of the last failed attempt.
+ */
+export interface IMailJob<T = any> {
+    id: string;
+    data: T;
+    attempts: number;
+    lastError?: string;
+}
+
+/**
+ * @function enqueueMail
+ * @summary This function is used to add an email to the queue.
+ * @description The email is sent by the worker in the background, so the request that sends it does not wait for the mail server.
+ * @param {T} data - The mail options.
+ * @returns {Promise<string>} - The ID of the job.
+ */
+export const enqueueMail = async <T>(data: T): Promise<string> => {
+    const job: IMailJob<T> = { id: randomUUID(), data, attempts: 0 };
+
+    await redis.lpush(queueKey, JSON.stringify(job));
+
+    return job.id;
+}
+
+/**
+ * @function failJob
+ * @summary This function is used to handle a failed attempt of a job.
+ * @description The job is scheduled for a retry with an exponential backoff, or moved to the dead-letter list once it has been tried too many times.
+ * @param {IMailJob} job - The failed job.
+ * @param {Error} error - The error of the attempt.
+ * @returns {Promise<void>}
+ */
+const failJob = async (job: IMailJob, error: Error): Promise<void> => {
+    job.attempts += 1;
+    job.lastError = error.message;
+
+    if (job.attempts >= maxAttempts) {
+        await redis.lpush(deadKey, JSON.stringify({ ...job, failedAt: new Date().toISOString() }));
+        console.log(`Mail job ${job.id} failed ${job.attempts} times and was moved to the dead-letter list: ${error.message}`);
+        return;
+    }
+
+    const delay = retryBaseDelay * 2 ** (job.attempts - 1);
+    await redis.zadd(delayedKey, Date.now() + delay, JSON.stringify(job));
+}
+
+/**
+ * @function promoteDelayedJobs
+ * @summary This function is used to move the delayed jobs that are due back to the queue.
+ * @description Each job is only moved by the instance that manages to remove it from the sorted set, so it is never queued twice.
+ * @returns {Promise<void>}
+ */
+const promoteDelayedJobs = async (): Promise<void> => {
+    const jobs = await redis.zrangebyscore(delayedKey, 0, Date.now(), 'LIMIT', 0, 100);
+
+    for (const job of jobs) {
+        if (await redis.zrem(delayedKey, job)) {
+            await redis.lpush(queueKey, job);
+        }
+    }
+}
+
+/**
+ * @function requeueProcessingJobs
+ * @summary This function is used to put back in the queue the jobs this worker was sending when its process stopped.
+ * @description They are moved to the end of the queue the worker reads from, so they are sent before the newer jobs.
+ * A job may be sent twice if the process stopped after sending it but before removing it from the processing list.
+ * @returns {Promise<number>} - The number of jobs put back in the queue.
+ */
+const requeueProcessingJobs = async (): Promise<number> => {
+    let count = 0;
+
+    while (await redis.lmove(processingKey, queueKey, 'RIGHT', 'RIGHT')) {
+        count++;
+    }
+
+    return count;
+}
+
+/**
+ * @function startMailWorker
+ * @summary This function is used to start processing the mail queue in the background.
+ * @description It first puts back in the queue the jobs left in its processing list by a previous run of the same worker.
+ * Then it waits for jobs on a dedicated Redis connection, since blocking commands hold the connection they run on,
+ * moving each job to the processing list atomically while it is passed to the handler.
+ * If the handler rejects, the job is retried with an exponential backoff.
+ * The job is removed from the processing list once it has been sent, rescheduled, or moved to the dead-letter list.
+ * It must be called once, when the HTTP server starts.
+ * @param {Function} handler - The function that sends an email from its mail options.
+ * @returns {Promise<void>}
+ */
+export const startMailWorker = async <T>(handler: (data: T) => Promise<void>): Promise<void> => {
+    const blockingClient: Redis = redis.duplicate();
+
+    const timer = setInterval(() => {
+        promoteDelayedJobs().catch(error => console.log(error.message));
+    }, delayedPollInterval);
+
+    timer.unref();
+
+    const requeued = await requeueProcessingJobs();
+
+    if (requeued) {
+        console.log(`Requeued ${requeued} mail jobs left in processing`);
+    }
+
+    while (true) {
+        try {
+            const result = await blockingClient.blmove(queueKey, processingKey, 'RIGHT', 'LEFT', blockTimeout);
+
+            if (!result) {
+                continue;
+            }
+
+            const job = JSON.parse(result) as IMailJob<T>;
+
+            try {
+                await handler(job.data);
+            } catch (error:any) {
+                await failJob(job, error);
+            }
+
+            await redis.lrem(processingKey, 1, result);
+        } catch (error:any) {
+            console.log(error.message);
+            await new Promise(resolve => setTimeout(resolve, delayedPollInterval));
+        }
+    }
+}
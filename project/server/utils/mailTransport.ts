@@ -0,0 +1,139 @@
+import nodemailer, { Transporter } from "nodemailer";
+import { randomUUID } from "crypto";
+import fs from "fs";
+import path from "path";
+
+/**
+ * @summary This line of code loads the environment variables from a .env file into process.env.
+ */
+require('dotenv').config();
+
+/**
+ * @interface IMailAttachment
+ * @summary This interface represents a file attached to an email.
+ * @description The content is encoded in base64, so the attachment can be stored with the email in the mail queue.
+ * @property {string} filename - The name of the file.
+ * @property {string} content - The content of the file, encoded in base64.
+ * @property {string} contentType - The MIME type of the file.
+ */
+export interface IMailAttachment {
+    filename: string;
+    content: string;
+    contentType: string;
+}
+
+/**
+ * @interface IMailMessage
+ * @summary This interface represents a rendered email, ready to be sent by a transport.
+ * @property {string} from - The sender, as `"Name" <address>`.
+ * @property {string} to - The email address of the recipient.
+ * @property {string} subject - The subject of the email.
+ * @property {string} html - The HTML body of the email.
+ * @property {string} text - The plain-text alternative of the HTML body.
+ * @property {IMailAttachment[]} [attachments] - The files attached to the email.
+ */
+export interface IMailMessage {
+    from: string;
+    to: string;
+    subject: string;
+    html: string;
+    text: string;
+    attachments?: IMailAttachment[];
+}
+
+/**
+ * @interface IMailTransport
+ * @summary This interface is implemented by every mail transport.
+ * @property {string} name - The name of the transport.
+ * @method send - Sends a rendered email. It rejects when the email could not be sent, so the mail queue can retry it.
+ */
+export interface IMailTransport {
+    name: string;
+    send(message: IMailMessage): Promise<void>;
+}
+
+/**
+ * @class SmtpMailTransport
+ * @implements {IMailTransport}
+ * @summary This class sends emails through the SMTP server set in the environment variables.
+ * @description The nodemailer transporter is created on the first send and reused for every other send,
+ * so its pooled connections are shared instead of opening a new connection for each email.
+ */
+export class SmtpMailTransport implements IMailTransport {
+    readonly name = 'smtp';
+
+    private transporter?: Transporter;
+
+    async send(message: IMailMessage): Promise<void> {
+        if (!this.transporter) {
+            this.transporter = nodemailer.createTransport({
+                host: process.env.SMTP_MAIL_HOST,
+                port: Number(process.env.SMTP_MAIL_PORT || 587),
+                service: process.env.SMTP_MAIL_SERVICE,
+                pool: true,
+                auth: {
+                    user: process.env.SMTP_MAIL_USERNAME,
+                    pass: process.env.SMTP_MAIL_PASSWORD
+                }
+            });
+        }
+
+        await this.transporter.sendMail({
+            ...message,
+            attachments: message.attachments?.map(attachment => ({ ...attachment, encoding: 'base64' })),
+        });
+    }
+}
+
+/**
+ * @class OutboxMailTransport
+ * @implements {IMailTransport}
+ * @summary This class writes emails to disk instead of sending them, for development and tests.
+ * @description Each email is written to the `MAIL_OUTBOX_DIR` directory, which defaults to the `outbox` directory of the server,
+ * as a JSON file with the full message, an HTML file that can be opened in a browser, and a text file with the plain-text alternative.
+ * Attachments are written next to them, decoded, and left out of the JSON file.
+ */
+export class OutboxMailTransport implements IMailTransport {
+    readonly name = 'outbox';
+
+    readonly dir = path.resolve(process.env.MAIL_OUTBOX_DIR || path.join(__dirname, '../outbox'));
+
+    async send(message: IMailMessage): Promise<void> {
+        const fileName = `${Date.now()}-${randomUUID()}`;
+
+        await fs.promises.mkdir(this.dir, { recursive: true });
+        const { attachments = [], ...rest } = message;
+
+        await fs.promises.writeFile(path.join(this.dir, `${fileName}.json`), JSON.stringify(rest, null, 2));
+        await fs.promises.writeFile(path.join(this.dir, `${fileName}.html`), message.html);
+        await fs.promises.writeFile(path.join(this.dir, `${fileName}.txt`), message.text);
+
+        for (const attachment of attachments) {
+            await fs.promises.writeFile(path.join(this.dir, `${fileName}-${path.basename(attachment.filename)}`), Buffer.from(attachment.content, 'base64'));
+        }
+    }
+}
+
+/**
+ * @function createMailTransport
+ * @summary This function creates the mail transport selected by the `MAIL_TRANSPORT` environment variable.
+ * @description It defaults to the SMTP transport.
+ * @returns {IMailTransport} - The mail transport.
+ */
+const createMailTransport = (): IMailTransport => {
+    const transport = process.env.MAIL_TRANSPORT || 'smtp';
+
+    switch (transport) {
+        case 'smtp':
+            return new SmtpMailTransport();
+        case 'outbox':
+            return new OutboxMailTransport();
+        default:
+            throw new Error(`Unknown mail transport: ${transport}`);
+    }
+};
+
+/**
+ * @summary The mail transport used by the application, shared between every send.
+ */
+export const mailTransport: IMailTransport = createMailTransport();
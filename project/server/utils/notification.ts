@@ -0,0 +1,191 @@
+import { Request, Response } from "express";
+import { Redis } from "ioredis";
+import notificationModel, { INotification } from "../models/notification.model";
+import { redis } from "./redis";
+import { getSession } from "./session";
+
+/**
+ * @summary The Redis channel new notifications are published on.
+ * @description Every server instance subscribes to the channel and pushes the notifications to the clients connected to it,
+ * so a notification created on one instance reaches clients connected to any other.
+ */
+const notificationChannel = 'notifications';
+
+/**
+ * @summary The number of days read notifications are kept, and the interval of the cleanup job, in milliseconds.
+ */
+const readNotificationRetentionDays = 30;
+const cleanupInterval = 24 * 60 * 60 * 1000;
+
+/**
+ * @summary The interval of the keep-alive comments sent on open streams, in milliseconds.
+ * @description Proxies close idle connections, so streams send a comment regularly even when there is nothing to deliver.
+ * The session of the stream is checked at the same interval, so a revoked session stops receiving notifications within this delay.
+ */
+const heartbeatInterval = 25 * 1000;
+
+/**
+ * @interface IStreamClient
+ * @summary This interface represents a client connected to the notification stream of this server instance.
+ * @property {string} userId - The ID of the connected user.
+ * @property {boolean} isAdmin - Whether the connected user is an admin, who also receives the notifications without a target user.
+ * @property {Response} res - The response the events are written to.
+ */
+interface IStreamClient {
+    userId: string;
+    isAdmin: boolean;
+    res: Response;
+}
+
+/**
+ * @summary The clients connected to the notification stream of this server instance.
+ */
+const clients = new Set<IStreamClient>();
+
+/**
+ * @interface ICreateNotification
+ * @summary This interface represents a notification to create.
+ * @property {string} title - The title of the notification.
+ * @property {string} message - The message of the notification.
+ * @property {any} [user] - The ID of the target user. Leave it out to notify the admins.
+ */
+export interface ICreateNotification {
+    title: string;
+    message: string;
+    user?: any;
+}
+
+/**
+ * @function deliver
+ * @summary This function writes a notification to the connected clients it is for.
+ * @param {any} notification - The notification, as published on the Redis channel.
+ */
+const deliver = (notification: any) => {
+    const event = `event: notification\ndata: ${JSON.stringify(notification)}\n\n`;
+
+    clients.forEach(client => {
+        const isTarget = notification.user ? String(notification.user) === client.userId : client.isAdmin;
+
+        if (isTarget) {
+            client.res.write(event);
+        }
+    });
+};
+
+/**
+ * @function createNotification
+ * @summary This function is used to create a notification when a key event happens.
+ * @description It saves the notification, then publishes it on Redis, so it is pushed in real time to the target user,
+ * or to the admins, on every server instance. A failure to publish does not undo the notification,
+ * which the user still finds in their notification list.
+ * @param {ICreateNotification} data - The notification to create.
+ * @returns {Promise<INotification>} - The created notification.
+ */
+export const createNotification = async (data: ICreateNotification): Promise<INotification> => {
+    const notification = await notificationModel.create(data);
+
+    try {
+        await redis.publish(notificationChannel, JSON.stringify(notification));
+    } catch (error:any) {
+        console.log(error.message);
+    }
+
+    return notification;
+}
+
+/**
+ * @function openNotificationStream
+ * @summary This function is used to turn a request into a Server-Sent Events stream of the notifications of the authenticated user.
+ * @description It keeps the connection open, registers the client so new notifications are written to it,
+ * sends a keep-alive comment regularly, and unregisters the client when the connection is closed.
+ * Before every keep-alive comment, it checks that the session the stream was opened with is still active,
+ * and closes the stream otherwise, so logging out, revoking the session, or being suspended also ends the stream.
+ * If the session cannot be checked, the error is logged and the stream stays open until the next check.
+ * @param {Request} req - The request object, expected to contain the authenticated user and their session ID.
+ * @param {Response} res - The response object, kept open to write the events to.
+ */
+export const openNotificationStream = (req: Request, res: Response) => {
+    res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+    });
+    res.write(': connected\n\n');
+
+    const client: IStreamClient = {
+        userId: String(req.user?._id),
+        isAdmin: req.user?.role === 'admin',
+        res,
+    };
+
+    clients.add(client);
+
+    const close = () => {
+        clearInterval(heartbeat);
+        clients.delete(client);
+    };
+
+    const heartbeat = setInterval(() => {
+        getSession(String(req.sessionId))
+            .then(session => {
+                if (!session || session.userId !== client.userId) {
+                    close();
+                    res.end();
+                    return;
+                }
+
+                res.write(': ping\n\n');
+            })
+            .catch(error => console.log(error.message));
+    }, heartbeatInterval);
+
+    req.on('close', close);
+}
+
+/**
+ * @function startNotificationStream
+ * @summary This function is used to subscribe this server instance to the notifications published on Redis.
+ * @description Subscribed Redis connections cannot send other commands, so a dedicated connection is used.
+ * It must be called once, when the HTTP server starts.
+ * @returns {Promise<void>}
+ */
+export const startNotificationStream = async (): Promise<void> => {
+    const subscriber: Redis = redis.duplicate();
+
+    subscriber.on('message', (channel: string, message: string) => {
+        if (channel === notificationChannel) {
+            deliver(JSON.parse(message));
+        }
+    });
+
+    await subscriber.subscribe(notificationChannel);
+}
+
+/**
+ * @function purgeReadNotifications
+ * @summary This function is used to delete the read notifications older than 30 days.
+ * @returns {Promise<number>} - The number of deleted notifications.
+ */
+export const purgeReadNotifications = async (): Promise<number> => {
+    const threshold = new Date(Date.now() - readNotificationRetentionDays * 24 * 60 * 60 * 1000);
+
+    const result = await notificationModel.deleteMany({ status: 'read', createdAt: { $lt: threshold } });
+
+    return result.deletedCount;
+}
+
+/**
+ * @function scheduleNotificationCleanup
+ * @summary This function is used to schedule the purge of old read notifications once a day.
+ * @description The timer does not keep the process alive on its own, and errors are logged without stopping the schedule.
+ * It must be called once, when the HTTP server starts.
+ */
+export const scheduleNotificationCleanup = () => {
+    const timer = setInterval(() => {
+        purgeReadNotifications()
+            .then(count => console.log(`Purged ${count} read notifications`))
+            .catch(error => console.log(error.message));
+    }, cleanupInterval);
+
+    timer.unref();
+}
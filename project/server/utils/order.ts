@@ -0,0 +1,94 @@
+import orderModel, { IOrder } from "../models/order.model";
+import { releaseCoupon, restoreCoupon } from "./coupon";
+
+/**
+ * @summary The number of minutes a pending order can wait for its payment before it expires, and the interval of the expiry job.
+ * @description Expiring abandoned checkouts gives back the uses of coupons they reserved.
+ */
+const pendingOrderMinutes = Number(process.env.ORDER_PENDING_TTL) || 60;
+const expiryInterval = 5 * 60 * 1000;
+
+/**
+ * @function closeOrder
+ * @summary This function is used to close a pending order that will not be paid, as failed or expired.
+ * @description The order is updated atomically, so the use of its coupon is only given back once, even if the order is closed twice.
+ * @param {IOrder} order - The order to close.
+ * @param {string} status - The new status of the order, 'failed' or 'expired'.
+ * @returns {Promise<boolean>} - Whether the order was still pending, and has been closed.
+ */
+export const closeOrder = async (order: IOrder, status: 'failed' | 'expired'): Promise<boolean> => {
+    const { modifiedCount } = await orderModel.updateOne({ _id: order._id, status: 'pending' }, { status });
+
+    if (modifiedCount && order.coupon?.couponId) {
+        await releaseCoupon(order.coupon.couponId, order.userId);
+    }
+
+    return modifiedCount > 0;
+}
+
+/**
+ * @function expirePendingOrders
+ * @summary This function is used to expire the pending orders of a user for a course, when they check out the course again.
+ * @param {string} userId - The ID of the user.
+ * @param {string} courseId - The ID of the course.
+ * @returns {Promise<void>}
+ */
+export const expirePendingOrders = async (userId: string, courseId: string): Promise<void> => {
+    const orders = await orderModel.find({ userId, courseId, status: 'pending' }).select('userId coupon');
+
+    for (const order of orders) {
+        await closeOrder(order, 'expired');
+    }
+}
+
+/**
+ * @function expireStaleOrders
+ * @summary This function is used to expire the orders that have been pending for longer than `ORDER_PENDING_TTL` minutes.
+ * @returns {Promise<number>} - The number of expired orders.
+ */
+export const expireStaleOrders = async (): Promise<number> => {
+    const cutoff = new Date(Date.now() - pendingOrderMinutes * 60 * 1000);
+    const orders = await orderModel.find({ status: 'pending', createdAt: { $lt: cutoff } }).select('userId coupon');
+
+    let count = 0;
+
+    for (const order of orders) {
+        if (await closeOrder(order, 'expired')) {
+            count++;
+        }
+    }
+
+    return count;
+}
+
+/**
+ * @function reopenClosedOrder
+ * @summary This function is used to take back an expired or failed order whose payment succeeded after all, so the user gets what they paid for.
+ * @description The order is moved back to pending atomically, and the use of its coupon is counted again, even over the limits of the coupon,
+ * since the payment has already been made at the discounted price.
+ * @param {IOrder} order - The expired or failed order.
+ * @returns {Promise<void>}
+ */
+export const reopenClosedOrder = async (order: IOrder): Promise<void> => {
+    const { modifiedCount } = await orderModel.updateOne({ _id: order._id, status: { $in: ['expired', 'failed'] } }, { status: 'pending' });
+
+    if (modifiedCount && order.coupon?.couponId) {
+        await restoreCoupon(order.coupon.couponId, order.userId);
+    }
+}
+
+/**
+ * @function scheduleOrderExpiry
+ * @summary This function is used to schedule the expiry of the stale pending orders every few minutes.
+ * @description The timer does not keep the process alive on its own, and errors are logged without stopping the schedule.
+ * It must be called once, when the HTTP server starts.
+ */
+export const scheduleOrderExpiry = () => {
+    const timer = setInterval(() => {
+        expireStaleOrders()
+            .then(count => count && console.log(`Expired ${count} pending orders`))
+            .catch(error => console.log(error.message));
+    }, expiryInterval);
+
+    timer.unref();
+}
@@ -0,0 +1,135 @@
+import { createHmac, randomUUID, timingSafeEqual } from "crypto";
+import { IOrder } from "../models/order.model";
+
+/**
+ * @summary This line of code loads the environment variables from a .env file into process.env.
+ */
+require('dotenv').config();
+
+/**
+ * @interface IPaymentIntent
+ * @summary This interface represents a payment started at the payment provider for an order.
+ * @property {string} paymentId - The ID of the payment at the payment provider.
+ * @property {string} [checkoutUrl] - The URL where the user completes the payment, if the provider has one.
+ */
+export interface IPaymentIntent {
+    paymentId: string;
+    checkoutUrl?: string;
+}
+
+/**
+ * @interface IPaymentEvent
+ * @summary This interface represents a verified callback sent by the payment provider.
+ * @property {string} type - The type of the event.
+ * @property {string} paymentId - The ID of the payment the event is about.
+ */
+export interface IPaymentEvent {
+    type: 'payment.succeeded' | 'payment.failed';
+    paymentId: string;
+}
+
+/**
+ * @interface IPaymentProvider
+ * @summary This interface is implemented by every payment provider.
+ * @description A provider starts payments for orders, and verifies the signed webhook callbacks it sends back
+ * when a payment succeeds or fails. Enrollment is only finalized after a callback has been verified.
+ * @property {string} name - The name of the provider, stored on the orders it handles.
+ * @method createPayment - Starts a payment for an order.
+ * @method verifyWebhook - Checks the signature of a callback and returns its event, or null if the signature is not valid.
+ */
+export interface IPaymentProvider {
+    name: string;
+    createPayment(order: IOrder): Promise<IPaymentIntent>;
+    verifyWebhook(rawBody: Buffer, signature: string | undefined): IPaymentEvent | null;
+}
+
+/**
+ * @class FakePaymentProvider
+ * @implements {IPaymentProvider}
+ * @summary This class is a local payment provider for development and tests.
+ * @description It never charges anything. Its callbacks are signed like the ones of a real provider,
+ * with an HMAC-SHA256 of the timestamp and the body, using the `PAYMENT_WEBHOOK_SECRET` environment variable.
+ * The signature header has the format `t=<timestamp>,v1=<signature>`,
+ * and callbacks older than the tolerance are rejected to prevent replays.
+ */
+export class FakePaymentProvider implements IPaymentProvider {
+    readonly name = 'fake';
+
+    private readonly tolerance = 5 * 60;
+
+    private get secret(): string {
+        return process.env.PAYMENT_WEBHOOK_SECRET || '';
+    }
+
+    async createPayment(order: IOrder): Promise<IPaymentIntent> {
+        return { paymentId: `fake_${randomUUID()}` };
+    }
+
+    /**
+     * @summary Signs an event the way the provider would, so that it can be sent to the webhook route.
+     * @param {IPaymentEvent} event - The event to sign.
+     * @returns {{ payload: string, signature: string }} - The body and the signature header of the callback.
+     */
+    signEvent(event: IPaymentEvent): { payload: string, signature: string } {
+        const payload = JSON.stringify(event);
+        const timestamp = Math.floor(Date.now() / 1000);
+
+        return {
+            payload,
+            signature: `t=${timestamp},v1=${this.sign(timestamp, payload)}`
+        };
+    }
+
+    verifyWebhook(rawBody: Buffer, signature: string | undefined): IPaymentEvent | null {
+        if (!this.secret || !signature) {
+            return null;
+        }
+
+        const parts: { [key: string]: string } = {};
+
+        signature.split(',').forEach(part => {
+            const [key, value] = part.split('=');
+            parts[key] = value;
+        });
+        const timestamp = Number(parts.t);
+
+        if (!timestamp || !parts.v1 || Math.abs(Date.now() / 1000 - timestamp) > this.tolerance) {
+            return null;
+        }
+
+        const expected = Buffer.from(this.sign(timestamp, rawBody.toString('utf8')));
+        const received = Buffer.from(parts.v1);
+
+        if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+            return null;
+        }
+
+        return JSON.parse(rawBody.toString('utf8')) as IPaymentEvent;
+    }
+
+    private sign(timestamp: number, payload: string): string {
+        return createHmac('sha256', this.secret).update(`${timestamp}.${payload}`).digest('hex');
+    }
+}
+
+/**
+ * @function createPaymentProvider
+ * @summary This function creates the payment provider selected by the `PAYMENT_PROVIDER` environment variable.
+ * @description It defaults to the fake provider. New providers are added by implementing IPaymentProvider and registering them here.
+ * @returns {IPaymentProvider} - The payment provider.
+ */
+const createPaymentProvider = (): IPaymentProvider => {
+    const provider = process.env.PAYMENT_PROVIDER || 'fake';
+
+    switch (provider) {
+        case 'fake':
+            return new FakePaymentProvider();
+        default:
+            throw new Error(`Unknown payment provider: ${provider}`);
+    }
+};
+
+/**
+ * @summary The payment provider used by the application.
+ */
+export const paymentProvider: IPaymentProvider = createPaymentProvider();
@@ -0,0 +1,65 @@
+import puppeteer, { Browser } from "puppeteer";
+
+/**
+ * @summary This line of code loads the environment variables from a .env file into process.env.
+ */
+require('dotenv').config();
+
+/**
+ * @summary The shared headless browser, launched on the first render.
+ * Launching a browser takes a few seconds, so it is kept open and reused by every render.
+ */
+let browser: Promise<Browser> | null = null;
+
+/**
+ * @function getBrowser
+ * @summary This function returns the shared headless browser, launching it if needed.
+ * @description The sandbox of Chrome can be disabled with `PDF_NO_SANDBOX`, which is required in most containers.
+ * The path of the browser can be set with `PUPPETEER_EXECUTABLE_PATH`, which is read by Puppeteer itself.
+ * If the browser crashes, the next render launches a new one.
+ * @returns {Promise<Browser>} - The browser.
+ */
+const getBrowser = (): Promise<Browser> => {
+    if (!browser) {
+        browser = puppeteer.launch({
+            headless: true,
+            args: process.env.PDF_NO_SANDBOX === 'true' ? ['--no-sandbox', '--disable-setuid-sandbox'] : [],
+        }).then(instance => {
+            instance.on('disconnected', () => {
+                browser = null;
+            });
+
+            return instance;
+        }).catch(error => {
+            browser = null;
+            throw error;
+        });
+    }
+
+    return browser;
+}
+
+/**
+ * @function renderPdf
+ * @summary This function prints an HTML document to a PDF in A4 landscape.
+ * @description Every render gets its own page, which is closed afterwards, so renders can run concurrently.
+ * @param {string} html - The HTML document.
+ * @returns {Promise<Buffer>} - The PDF.
+ */
+export const renderPdf = async (html: string): Promise<Buffer> => {
+    const page = await (await getBrowser()).newPage();
+
+    try {
+        await page.setContent(html, { waitUntil: 'load' });
+
+        const pdf = await page.pdf({
+            format: 'A4',
+            landscape: true,
+            printBackground: true,
+        });
+
+        return Buffer.from(pdf);
+    } finally {
+        await page.close();
+    }
+}
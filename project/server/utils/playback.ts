@@ -0,0 +1,83 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+/**
+ * @summary This line of code loads the environment variables from a .env file into process.env.
+ */
+require('dotenv').config();
+
+/**
+ * @summary How long a playback URL is valid, in seconds.
+ * @description It is set by the `VIDEO_URL_EXPIRES_TIME` environment variable, and defaults to 1 hour,
+ * which leaves time to watch a lesson, since the player keeps requesting ranges of the video from the same URL.
+ */
+export const playbackUrlExpire = parseInt(process.env.VIDEO_URL_EXPIRES_TIME || '3600', 10);
+
+/**
+ * @interface IPlaybackParams
+ * @summary This interface represents the signed parameters of a playback URL.
+ * @property {string} courseId - The ID of the course.
+ * @property {string} lessonId - The ID of the lesson.
+ * @property {string} userId - The ID of the user the URL was issued to.
+ * @property {number} expires - The expiry of the URL, as a Unix timestamp in seconds.
+ */
+export interface IPlaybackParams {
+    courseId: string;
+    lessonId: string;
+    userId: string;
+    expires: number;
+}
+
+/**
+ * @function sign
+ * @summary This function computes the signature of the parameters of a playback URL.
+ * @description It is an HMAC-SHA256 keyed with the access token secret, so the URLs cannot be forged without it.
+ * @param {IPlaybackParams} params - The parameters.
+ * @returns {string} - The signature, in hexadecimal.
+ */
+const sign = (params: IPlaybackParams): string => {
+    return createHmac('sha256', process.env.JWT_ACCESS_TOKEN || '')
+        .update(`playback:${params.courseId}:${params.lessonId}:${params.userId}:${params.expires}`)
+        .digest('hex');
+}
+
+/**
+ * @function createPlaybackUrl
+ * @summary This function creates a signed playback URL for a lesson video.
+ * @param {string} courseId - The ID of the course.
+ * @param {string} lessonId - The ID of the lesson.
+ * @param {string} userId - The ID of the user the URL is issued to.
+ * @returns {{ url: string, expiresAt: Date }} - The URL, relative to the API, and its expiry.
+ */
+export const createPlaybackUrl = (courseId: string, lessonId: string, userId: string): { url: string, expiresAt: Date } => {
+    const expires = Math.floor(Date.now() / 1000) + playbackUrlExpire;
+    const signature = sign({ courseId, lessonId, userId, expires });
+    const query = new URLSearchParams({ user: userId, expires: String(expires), signature });
+
+    return {
+        url: `/api/v1/videos/${courseId}/${lessonId}?${query.toString()}`,
+        expiresAt: new Date(expires * 1000),
+    };
+}
+
+/**
+ * @function verifyPlaybackSignature
+ * @summary This function checks the signature and the expiry of a playback URL.
+ * @description URLs with a missing or repeated parameter are not valid, since the parameters of the query string are then not strings.
+ * @param {IPlaybackParams} params - The parameters of the URL.
+ * @param {string} signature - The signature of the URL.
+ * @returns {boolean} - Whether the URL is valid.
+ */
+export const verifyPlaybackSignature = (params: IPlaybackParams, signature: string): boolean => {
+    if (typeof signature !== 'string' || typeof params.userId !== 'string') {
+        return false;
+    }
+
+    if (!params.expires || params.expires < Date.now() / 1000) {
+        return false;
+    }
+
+    const expected = Buffer.from(sign(params));
+    const received = Buffer.from(signature);
+
+    return expected.length === received.length && timingSafeEqual(expected, received);
+}
@@ -0,0 +1,100 @@
+import { ICourse } from "../models/course.model";
+import progressModel, { IProgress } from "../models/progress.model";
+import quizModel from "../models/quiz.model";
+
+/**
+ * @function findOrCreateProgress
+ * @summary This function is used to get the progress of a user in a course, creating it the first time.
+ * @description The progress is created with an atomic upsert, so two concurrent first updates of the same user and course
+ * share one progress document instead of racing on its unique index.
+ * @param {string} userId - The ID of the user.
+ * @param {string} courseId - The ID of the course.
+ * @returns {Promise<IProgress>} - The progress.
+ */
+export const findOrCreateProgress = async (userId: string, courseId: string): Promise<IProgress> => {
+    return await progressModel.findOneAndUpdate(
+        { userId, courseId },
+        { $setOnInsert: { lessons: [], passedQuizzes: [] } },
+        { upsert: true, new: true, setDefaultsOnInsert: true }
+    ) as IProgress;
+}
+
+/**
+ * @function getLessonIds
+ * @summary This function is used to list the IDs of every lesson of a course, in order.
+ * @param {ICourse} course - The course.
+ * @returns {string[]} - The IDs of the lessons.
+ */
+export const getLessonIds = (course: ICourse): string[] => {
+    return course.sections.reduce((ids: string[], section) => {
+        return ids.concat(section.lessons.map(lesson => String(lesson._id)));
+    }, []);
+}
+
+/**
+ * @function getQuizIds
+ * @summary This function is used to list the IDs of the quizzes of a course.
+ * @description Quizzes attached to a section that has been removed from the course are left out.
+ * @param {ICourse} course - The course.
+ * @returns {Promise<string[]>} - The IDs of the quizzes.
+ */
+export const getQuizIds = async (course: ICourse): Promise<string[]> => {
+    const sectionIds = course.sections.map(section => String(section._id));
+
+    const quizzes = await quizModel.find({ courseId: String(course._id), sectionId: { $in: sectionIds } }).select('_id');
+
+    return quizzes.map(quiz => String(quiz._id));
+}
+
+/**
+ * @function calculateProgress
+ * @summary This function is used to recalculate the completion percentage of a progress document.
+ * @description Every lesson and every quiz of the course counts as one item: a lesson once it is completed, and a quiz once it is passed.
+ * Only items that still exist in the course are counted, so removing a lesson or a quiz never pushes the percentage over 100.
+ * When the percentage reaches 100 for the first time, the course is marked as complete with the current date.
+ * The completion date is kept if lessons or quizzes are added to the course later.
+ * @param {IProgress} progress - The progress document to update. It is modified in place and not saved.
+ * @param {ICourse} course - The course the progress is about.
+ * @param {string[]} quizIds - The IDs of the quizzes of the course, from `getQuizIds`.
+ * @returns {boolean} - Whether the course has just been completed.
+ */
+export const calculateProgress = (progress: IProgress, course: ICourse, quizIds: string[]): boolean => {
+    const lessonIds = getLessonIds(course);
+
+    const completedLessons = progress.lessons.filter(lesson => lesson.completed && lessonIds.includes(lesson.lessonId)).length;
+    const passedQuizzes = (progress.passedQuizzes || []).filter(quizId => quizIds.includes(quizId)).length;
+
+    const total = lessonIds.length + quizIds.length;
+
+    progress.percentage = total ? Math.floor((completedLessons + passedQuizzes) / total * 100) : 0;
+
+    if (progress.percentage === 100 && !progress.completedAt) {
+        progress.completedAt = new Date();
+        return true;
+    }
+
+    return false;
+}
+
+/**
+ * @function updateProgressPercentage
+ * @summary This function is used to recalculate the completion percentage of a progress document and save it atomically.
+ * @description Only the percentage and the completion date are written, so concurrent updates of other lessons or quizzes are not overwritten.
+ * The earliest completion date is kept, so a course completed by two concurrent updates keeps a single completion date.
+ * @param {IProgress} progress - The progress document, as updated by the caller.
+ * @param {ICourse} course - The course the progress is about.
+ * @param {string[]} quizIds - The IDs of the quizzes of the course, from `getQuizIds`.
+ * @returns {Promise<IProgress>} - The saved progress.
+ */
+export const updateProgressPercentage = async (progress: IProgress, course: ICourse, quizIds: string[]): Promise<IProgress> => {
+    calculateProgress(progress, course, quizIds);
+
+    return await progressModel.findOneAndUpdate(
+        { _id: progress._id },
+        {
+            $set: { percentage: progress.percentage },
+            ...(progress.completedAt && { $min: { completedAt: progress.completedAt } }),
+        },
+        { new: true }
+    ) as IProgress;
+}
@@ -0,0 +1,154 @@
+import courseModel from "../models/course.model";
+import progressModel, { IProgress } from "../models/progress.model";
+import { IQuiz, IQuizQuestion } from "../models/quiz.model";
+import quizAttemptModel, { IQuizAnswer, IQuizResult } from "../models/quizAttempt.model";
+import { IUser } from "../models/user.model";
+import { issueCertificate } from "./certificate";
+import { findOrCreateProgress, getQuizIds, updateProgressPercentage } from "./progress";
+
+/**
+ * @summary The number of seconds an attempt can still be submitted after its time limit,
+ * so an answer sent just before the limit is not rejected because of network latency.
+ */
+export const quizSubmitGrace = 30;
+
+/**
+ * @interface IQuizGrade
+ * @summary This interface represents the grade of an attempt.
+ * @property {IQuizResult[]} results - The grade of each question, in the order of the quiz.
+ * @property {number} points - The points the answers earned.
+ * @property {number} maxPoints - The points the quiz is worth.
+ * @property {number} score - The score, in percent, rounded down.
+ * @property {boolean} passed - Whether the score reached the passing score of the quiz.
+ */
+export interface IQuizGrade {
+    results: IQuizResult[];
+    points: number;
+    maxPoints: number;
+    score: number;
+    passed: boolean;
+}
+
+/**
+ * @function normalizeAnswer
+ * @summary This function normalizes a short answer, so answers are compared regardless of case, spacing and accents.
+ * @param {string} text - The answer.
+ * @returns {string} - The normalized answer.
+ */
+const normalizeAnswer = (text: string): string => {
+    return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * @function isCorrect
+ * @summary This function checks the answer to a question.
+ * @description A multiple-choice question is correct when the only selected option is the correct one,
+ * a multi-select question when exactly the correct options are selected, and a short-answer question
+ * when the text matches one of the accepted answers.
+ * @param {IQuizQuestion} question - The question, with its answers.
+ * @param {IQuizAnswer | undefined} answer - The answer of the user, or undefined if they left the question unanswered.
+ * @returns {boolean} - Whether the answer is correct.
+ */
+const isCorrect = (question: IQuizQuestion, answer: IQuizAnswer | undefined): boolean => {
+    if (!answer) {
+        return false;
+    }
+
+    if (question.type === 'short') {
+        const text = normalizeAnswer(answer.text || '');
+
+        return text !== '' && question.acceptedAnswers.some(accepted => normalizeAnswer(accepted) === text);
+    }
+
+    const selected = Array.from(new Set(answer.options || []));
+    const correct = question.options.filter(option => option.correct).map(option => String(option._id));
+
+    if (question.type === 'single' && selected.length !== 1) {
+        return false;
+    }
+
+    return selected.length === correct.length && selected.every(optionId => correct.includes(optionId));
+}
+
+/**
+ * @function gradeQuiz
+ * @summary This function grades the answers of a user to a quiz.
+ * @description Each question earns all of its points when it is answered correctly, and none otherwise.
+ * Answers to questions that are not in the quiz are ignored.
+ * @param {IQuiz} quiz - The quiz, loaded with its answers.
+ * @param {IQuizAnswer[]} answers - The answers of the user.
+ * @returns {IQuizGrade} - The grade.
+ */
+export const gradeQuiz = (quiz: IQuiz, answers: IQuizAnswer[]): IQuizGrade => {
+    const results = quiz.questions.map(question => {
+        const answer = answers.find(item => item.questionId === String(question._id));
+        const correct = isCorrect(question, answer);
+
+        return { questionId: String(question._id), correct, points: correct ? question.points : 0 };
+    });
+
+    const points = results.reduce((sum, result) => sum + result.points, 0);
+    const maxPoints = quiz.questions.reduce((sum, question) => sum + question.points, 0);
+    const score = maxPoints ? Math.floor(points / maxPoints * 100) : 0;
+
+    return { results, points, maxPoints, score, passed: score >= quiz.passingScore };
+}
+
+/**
+ * @function expireAttempts
+ * @summary This function closes the attempts of a user whose time limit has run out, grading them as failed.
+ * @description It is called before attempts are read or started, so an abandoned attempt never stays in progress.
+ * @param {string} quizId - The ID of the quiz.
+ * @param {string} userId - The ID of the user.
+ * @returns {Promise<void>}
+ */
+export const expireAttempts = async (quizId: string, userId: string): Promise<void> => {
+    await quizAttemptModel.updateMany(
+        {
+            quizId,
+            userId,
+            status: 'in_progress',
+            expiresAt: { $lt: new Date(Date.now() - quizSubmitGrace * 1000) },
+        },
+        [{ $set: { status: 'expired', submittedAt: '$expiresAt', points: 0, score: 0, passed: false } }]
+    );
+}
+
+/**
+ * @function recordQuizPass
+ * @summary This function records that a user has passed a quiz in their progress in the course.
+ * @description The quiz is added to the passed quizzes atomically, then the completion percentage of the course is recalculated, and when the quiz was the last item left,
+ * the course is marked as complete and the certificate of the user is issued in the background.
+ * Once the course is complete, the certificate is issued again on every pass, which sends it if it could not be emailed before.
+ * @param {IUser} user - The user who passed the quiz.
+ * @param {IQuiz} quiz - The quiz.
+ * @returns {Promise<IProgress | null>} - The progress of the user, or null if the course no longer exists.
+ */
+export const recordQuizPass = async (user: IUser, quiz: IQuiz): Promise<IProgress | null> => {
+    const userId = String(user._id);
+    const courseId = quiz.courseId;
+
+    const course = await courseModel.findById(courseId);
+
+    if (!course) {
+        return null;
+    }
+
+    await findOrCreateProgress(userId, courseId);
+
+    const updated = await progressModel.findOneAndUpdate(
+        { userId, courseId },
+        { $addToSet: { passedQuizzes: String(quiz._id) } },
+        { new: true }
+    ) as IProgress;
+
+    const progress = await updateProgressPercentage(updated, course, await getQuizIds(course));
+
+    if (progress.completedAt) {
+        issueCertificate(user, course, progress.completedAt as Date).catch((error:any) => {
+            console.log(error.message);
+        });
+    }
+
+    return progress;
+}
@@ -0,0 +1,214 @@
+import {Request} from "express";
+import {randomUUID} from "crypto";
+import {redis} from "./redis";
+import {IUser} from "../models/user.model";
+
+/**
+ * @summary This line of code loads the environment variables from a .env file into process.env.
+ */
+require('dotenv').config();
+
+/**
+ * @interface ISession
+ * @summary This interface represents a login session of a user on one device.
+ * @description The session ID is also the ID of the refresh token family issued for the login,
+ * so revoking a session also invalidates every refresh token rotated from it.
+ * @property {string} id - The ID of the session.
+ * @property {string} userId - The ID of the user the session belongs to.
+ * @property {string} userAgent - The user agent of the device that created the session.
+ * @property {string} ip - The IP address of the device that created the session.
+ * @property {string} createdAt - The date the session was created, as an ISO string.
+ * @property {string} lastSeen - The date the session was last used, as an ISO string.
+ */
+export interface ISession {
+    id: string;
+    userId: string;
+    userAgent: string;
+    ip: string;
+    createdAt: string;
+    lastSeen: string;
+}
+
+/**
+ * @summary The lifetime of a session, in seconds.
+ * @description A session lives as long as the refresh token issued for it, and is extended every time the token is rotated.
+ */
+const sessionExpire = parseInt(process.env.JWT_REFRESH_TOKEN_EXPIRES_TIME || '1200', 10);
+
+/**
+ * @summary The minimum time between two updates of the last-seen date of a session, in milliseconds.
+ * @description This avoids writing to Redis on every authenticated request.
+ */
+const lastSeenInterval = 60 * 1000;
+
+/**
+ * @summary These functions build the Redis keys used to store sessions.
+ * @description Every session is stored under `session:<id>`,
+ * and the IDs of the sessions of a user are stored in the set `user_sessions:<userId>`.
+ */
+const sessionKey = (sessionId: string) => `session:${sessionId}`;
+const userSessionsKey = (userId: string) => `user_sessions:${userId}`;
+
+/**
+ * @function createSession
+ * @summary This function is used to create a new session for a user that has just logged in.
+ * @description It records the user agent and IP address of the request, stores the session in Redis,
+ * and adds it to the set of sessions of the user.
+ * @param {string} userId - The ID of the user.
+ * @param {Request} req - The request object of the login.
+ * @returns {Promise<ISession>} - The created session.
+ */
+export const createSession = async (userId: string, req: Request): Promise<ISession> => {
+    const now = new Date().toISOString();
+
+    const session: ISession = {
+        id: randomUUID(),
+        userId,
+        userAgent: req.headers['user-agent'] || 'Unknown',
+        ip: req.ip || '',
+        createdAt: now,
+        lastSeen: now
+    };
+
+    await redis.set(sessionKey(session.id), JSON.stringify(session), 'EX', sessionExpire);
+    await redis.sadd(userSessionsKey(userId), session.id);
+
+    return session;
+}
+
+/**
+ * @function getSession
+ * @summary This function is used to load a session from Redis.
+ * @param {string} sessionId - The ID of the session.
+ * @returns {Promise<ISession | null>} - The session, or null if it does not exist or has expired.
+ */
+export const getSession = async (sessionId: string): Promise<ISession | null> => {
+    const session = await redis.get(sessionKey(sessionId));
+
+    return session ? JSON.parse(session) as ISession : null;
+}
+
+/**
+ * @function touchSession
+ * @summary This function is used to update the last-seen date of a session.
+ * @description To limit writes, the date is only updated when it is older than a minute, unless the session is being extended.
+ * When the session is extended, which happens when its refresh token is rotated, its expiry is reset as well.
+ * @param {ISession} session - The session to update.
+ * @param {boolean} [extend=false] - Whether the expiry of the session should be reset.
+ * @returns {Promise<void>}
+ */
+export const touchSession = async (session: ISession, extend: boolean = false): Promise<void> => {
+    if (!extend && Date.now() - new Date(session.lastSeen).getTime() < lastSeenInterval) {
+        return;
+    }
+
+    session.lastSeen = new Date().toISOString();
+
+    if (extend) {
+        await redis.set(sessionKey(session.id), JSON.stringify(session), 'EX', sessionExpire);
+    } else {
+        await redis.set(sessionKey(session.id), JSON.stringify(session), 'KEEPTTL');
+    }
+}
+
+/**
+ * @function listSessions
+ * @summary This function is used to list the active sessions of a user.
+ * @description It loads every session in the set of sessions of the user.
+ * Sessions that have expired are removed from the set.
+ * @param {string} userId - The ID of the user.
+ * @returns {Promise<ISession[]>} - The active sessions of the user.
+ */
+export const listSessions = async (userId: string): Promise<ISession[]> => {
+    const sessionIds = await redis.smembers(userSessionsKey(userId));
+
+    if (!sessionIds.length) {
+        return [];
+    }
+
+    const values = await redis.mget(sessionIds.map(sessionKey));
+    const sessions: ISession[] = [];
+    const expired: string[] = [];
+
+    values.forEach((value, index) => {
+        if (value) {
+            sessions.push(JSON.parse(value));
+        } else {
+            expired.push(sessionIds[index]);
+        }
+    });
+
+    if (expired.length) {
+        await redis.srem(userSessionsKey(userId), ...expired);
+    }
+
+    return sessions;
+}
+
+/**
+ * @function revokeSession
+ * @summary This function is used to revoke a session of a user.
+ * @description It deletes the session from Redis, which also invalidates the access and refresh tokens issued for it.
+ * When the user has no active sessions left, the cached user data written by `sendToken` is deleted as well.
+ * @param {string} userId - The ID of the user.
+ * @param {string} sessionId - The ID of the session to revoke.
+ * @returns {Promise<void>}
+ */
+export const revokeSession = async (userId: string, sessionId: string): Promise<void> => {
+    await redis.del(sessionKey(sessionId));
+    await redis.srem(userSessionsKey(userId), sessionId);
+
+    const remaining = await listSessions(userId);
+
+    if (!remaining.length) {
+        await redis.del(userId, userSessionsKey(userId));
+    }
+}
+
+/**
+ * @function revokeAllSessions
+ * @summary This function is used to log a user out of every device.
+ * @description It deletes every session of the user, the set of sessions, and the cached user data written by `sendToken`.
+ * @param {string} userId - The ID of the user.
+ * @returns {Promise<void>}
+ */
+export const revokeAllSessions = async (userId: string): Promise<void> => {
+    const sessionIds = await redis.smembers(userSessionsKey(userId));
+
+    if (sessionIds.length) {
+        await redis.del(...sessionIds.map(sessionKey));
+    }
+
+    await redis.del(userId, userSessionsKey(userId));
+}
+
+/**
+ * @function updateCachedUser
+ * @summary This function is used to keep the user data cached in Redis by `sendToken` in sync with the database.
+ * @description It only overwrites the cached copy when it exists, which is when the user has at least one active session.
+ * It must be called after every change to a user document, so that `req.user` reflects the change on the next request.
+ * @param {IUser} user - The updated user.
+ * @returns {Promise<void>}
+ */
+export const updateCachedUser = async (user: IUser): Promise<void> => {
+    await redis.set(String(user._id), JSON.stringify(user as any), 'XX');
+}
+
+/**
+ * @function countActiveSessions
+ * @summary This function is used to count the active sessions of every user.
+ * @description It scans the session keys in batches, so it does not block Redis on large key spaces.
+ * @returns {Promise<number>} - The number of active sessions.
+ */
+export const countActiveSessions = async (): Promise<number> => {
+    let cursor = '0';
+    let count = 0;
+
+    do {
+        const [nextCursor, keys] = await redis.scan(cursor, 'MATCH', sessionKey('*'), 'COUNT', 1000);
+        cursor = nextCursor;
+        count += keys.length;
+    } while (cursor !== '0');
+
+    return count;
+}
@@ -0,0 +1,196 @@
+import jwt, { JwtPayload } from "jsonwebtoken";
+import { createPublicKey, JsonWebKey, KeyObject } from "crypto";
+
+/**
+ * @summary This line of code loads the environment variables from a .env file into process.env.
+ */
+require('dotenv').config();
+
+/**
+ * @interface ISocialIdentity
+ * @summary This interface represents an identity verified by a social login provider.
+ * @property {string} provider - The name of the provider.
+ * @property {string} subject - The ID of the user at the provider, which never changes.
+ * @property {string} name - The name of the user.
+ * @property {string} email - The email of the user, verified by the provider.
+ * @property {string} [avatar] - The URL of the picture of the user.
+ */
+export interface ISocialIdentity {
+    provider: string;
+    subject: string;
+    name: string;
+    email: string;
+    avatar?: string;
+}
+
+/**
+ * @interface ISocialAuthProvider
+ * @summary This interface is implemented by every social login provider.
+ * @property {string} name - The name of the provider, as sent by the client.
+ * @method verify - Verifies a credential issued by the provider to the client, and resolves to the identity it proves.
+ * It rejects when the credential is invalid, expired, issued for another client, or when the email is not verified.
+ */
+export interface ISocialAuthProvider {
+    name: string;
+    verify(credential: string): Promise<ISocialIdentity>;
+}
+
+/**
+ * @interface IOpenIdConnectOptions
+ * @summary This interface represents the settings of an OpenID Connect provider.
+ * @property {string} issuer - The URL of the issuer, such as `https://accounts.google.com`.
+ * @property {string} clientId - The client ID of the application at the issuer, which must be the audience of the ID tokens.
+ */
+export interface IOpenIdConnectOptions {
+    issuer: string;
+    clientId: string;
+}
+
+/**
+ * @summary The signature algorithms accepted for ID tokens.
+ */
+const idTokenAlgorithms: jwt.Algorithm[] = ['RS256', 'RS384', 'RS512', 'ES256', 'ES384', 'ES512'];
+
+/**
+ * @summary The minimum time between two loads of the signing keys of an issuer, in milliseconds.
+ * @description Tokens with an unknown key ID reload the keys, which is limited so forged tokens cannot make the server fetch them over and over.
+ */
+const keysReloadInterval = 60 * 1000;
+
+/**
+ * @class OpenIdConnectProvider
+ * @implements {ISocialAuthProvider}
+ * @summary This class verifies the ID tokens of an OpenID Connect issuer.
+ * @description The signing keys are found through the discovery document of the issuer, `/.well-known/openid-configuration`,
+ * and cached until a token is signed with a key that is not in the cache, which happens when the issuer rotates its keys.
+ * Any issuer that implements discovery works, including a local mock issuer for development and tests.
+ */
+export class OpenIdConnectProvider implements ISocialAuthProvider {
+    private keys = new Map<string, KeyObject>();
+    private keysLoadedAt = 0;
+    private keysLoading?: Promise<void>;
+
+    constructor(readonly name: string, private readonly options: IOpenIdConnectOptions) {}
+
+    /**
+     * @method fetchJson
+     * @summary This method fetches a JSON document of the issuer.
+     * @param {string} url - The URL of the document.
+     * @returns {Promise<any>} - The document.
+     */
+    private async fetchJson(url: string): Promise<any> {
+        const response = await fetch(url);
+
+        if (!response.ok) {
+            throw new Error(`The ${this.name} provider could not be reached.`);
+        }
+
+        return response.json();
+    }
+
+    /**
+     * @method loadKeys
+     * @summary This method loads the signing keys of the issuer from its JSON Web Key Set.
+     * @returns {Promise<void>}
+     */
+    private async loadKeys(): Promise<void> {
+        this.keysLoadedAt = Date.now();
+
+        const issuer = this.options.issuer.replace(/\/$/, '');
+        const configuration = await this.fetchJson(`${issuer}/.well-known/openid-configuration`);
+        const jwks = await this.fetchJson(configuration.jwks_uri);
+
+        this.keys = new Map(
+            (jwks.keys as JsonWebKey[])
+                .filter(key => key.use !== 'enc')
+                .map(key => [key.kid as string, createPublicKey({ key, format: 'jwk' })])
+        );
+    }
+
+    /**
+     * @method getKey
+     * @summary This method finds the signing key of a token, reloading the keys of the issuer if it is unknown.
+     * @description The keys are reloaded at most once every `keysReloadInterval`, so an unknown key is rejected until then.
+     * Concurrent tokens wait for the same load.
+     * @param {string} [kid] - The ID of the key, from the header of the token.
+     * @returns {Promise<KeyObject>} - The public key.
+     */
+    private async getKey(kid?: string): Promise<KeyObject> {
+        if ((!kid || !this.keys.has(kid)) && (this.keysLoading || Date.now() - this.keysLoadedAt >= keysReloadInterval)) {
+            this.keysLoading = this.keysLoading || this.loadKeys().finally(() => {
+                this.keysLoading = undefined;
+            });
+
+            await this.keysLoading;
+        }
+
+        const key = kid ? this.keys.get(kid) : this.keys.size === 1 ? [...this.keys.values()][0] : undefined;
+
+        if (!key) {
+            throw new Error("The signing key of the token is unknown.");
+        }
+
+        return key;
+    }
+
+    async verify(idToken: string): Promise<ISocialIdentity> {
+        const decoded = jwt.decode(idToken, { complete: true });
+
+        if (!decoded) {
+            throw new Error("The token is malformed.");
+        }
+
+        const key = await this.getKey(decoded.header.kid);
+
+        const claims = jwt.verify(idToken, key, {
+            algorithms: idTokenAlgorithms,
+            issuer: this.options.issuer,
+            audience: this.options.clientId,
+        }) as JwtPayload;
+
+        if (!claims.sub || !claims.email || claims.email_verified !== true) {
+            throw new Error("The email of the account is not verified.");
+        }
+
+        return {
+            provider: this.name,
+            subject: claims.sub,
+            name: claims.name || claims.email.split('@')[0],
+            email: String(claims.email).toLowerCase(),
+            avatar: claims.picture,
+        };
+    }
+}
+
+/**
+ * @function createSocialProviders
+ * @summary This function creates the providers listed in the `SOCIAL_AUTH_PROVIDERS` environment variable.
+ * @description Each provider is an OpenID Connect issuer set by the `OIDC_<NAME>_ISSUER` and `OIDC_<NAME>_CLIENT_ID` environment variables,
+ * such as `OIDC_GOOGLE_ISSUER` for the `google` provider.
+ * A listed provider whose variables are not set is skipped with a warning, so the server still starts without it.
+ * @returns {Map<string, ISocialAuthProvider>} - The providers, by name.
+ */
+const createSocialProviders = (): Map<string, ISocialAuthProvider> => {
+    const providers = new Map<string, ISocialAuthProvider>();
+    const names = (process.env.SOCIAL_AUTH_PROVIDERS || '').split(',').map(name => name.trim()).filter(Boolean);
+
+    for (const name of names) {
+        const prefix = `OIDC_${name.toUpperCase()}`;
+        const issuer = process.env[`${prefix}_ISSUER`];
+        const clientId = process.env[`${prefix}_CLIENT_ID`];
+
+        if (!issuer || !clientId) {
+            console.log(`Skipping the ${name} social login provider: ${prefix}_ISSUER or ${prefix}_CLIENT_ID is not set.`);
+            continue;
+        }
+
+        providers.set(name, new OpenIdConnectProvider(name, { issuer, clientId }));
+    }
+
+    return providers;
+};
+
+/**
+ * @summary The social login providers enabled for the application, by name.
+ */
+export const socialProviders = createSocialProviders();
@@ -0,0 +1,113 @@
+import { randomUUID } from "crypto";
+import fs from "fs";
+import path from "path";
+
+/**
+ * @summary This line of code loads the environment variables from a .env file into process.env.
+ */
+require('dotenv').config();
+
+/**
+ * @interface IStoredFile
+ * @summary This interface represents a file stored by a storage driver.
+ * @description It has the same shape as the `avatar` and `thumbnail` fields of the models, so it can be saved on them directly.
+ * @property {string} public_id - The ID of the file in the storage, used to delete it later.
+ * @property {string} url - The URL the file can be downloaded from.
+ */
+export interface IStoredFile {
+    public_id: string;
+    url: string;
+}
+
+/**
+ * @interface IUploadOptions
+ * @summary This interface represents the options of an upload.
+ * @property {string} folder - The folder the file is stored in, such as `avatars`.
+ * @property {string} extension - The extension of the file, without the dot.
+ */
+export interface IUploadOptions {
+    folder: string;
+    extension: string;
+}
+
+/**
+ * @interface IStorageDriver
+ * @summary This interface is implemented by every storage driver.
+ * @property {string} name - The name of the driver.
+ * @method upload - Stores a file and returns its public ID and URL.
+ * @method remove - Deletes a stored file by its public ID. Deleting a file that does not exist is not an error.
+ */
+export interface IStorageDriver {
+    name: string;
+    upload(buffer: Buffer, options: IUploadOptions): Promise<IStoredFile>;
+    remove(publicId: string): Promise<void>;
+}
+
+/**
+ * @class LocalStorageDriver
+ * @implements {IStorageDriver}
+ * @summary This class stores files on the local disk.
+ * @description Files are written under the `STORAGE_LOCAL_ROOT` directory, which defaults to the `uploads` directory of the server,
+ * and are served by the application under `STORAGE_PUBLIC_URL`, which defaults to `/uploads`.
+ */
+export class LocalStorageDriver implements IStorageDriver {
+    readonly name = 'local';
+
+    readonly root = path.resolve(process.env.STORAGE_LOCAL_ROOT || path.join(__dirname, '../uploads'));
+
+    readonly publicUrl = process.env.STORAGE_PUBLIC_URL || '/uploads';
+
+    async upload(buffer: Buffer, options: IUploadOptions): Promise<IStoredFile> {
+        const publicId = `${options.folder}/${randomUUID()}.${options.extension}`;
+        const filePath = this.resolve(publicId);
+
+        await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.promises.writeFile(filePath, buffer);
+
+        return {
+            public_id: publicId,
+            url: `${this.publicUrl}/${publicId}`
+        };
+    }
+
+    async remove(publicId: string): Promise<void> {
+        await fs.promises.rm(this.resolve(publicId), { force: true });
+    }
+
+    /**
+     * @summary Resolves the path of a file from its public ID, refusing IDs that point outside the storage root.
+     * @param {string} publicId - The public ID of the file.
+     * @returns {string} - The absolute path of the file.
+     */
+    resolve(publicId: string): string {
+        const filePath = path.resolve(this.root, publicId);
+
+        if (!filePath.startsWith(this.root + path.sep)) {
+            throw new Error(`Invalid file ID: ${publicId}`);
+        }
+
+        return filePath;
+    }
+}
+
+/**
+ * @function createStorageDriver
+ * @summary This function creates the storage driver selected by the `STORAGE_DRIVER` environment variable.
+ * @description It defaults to the local disk driver. New drivers are added by implementing IStorageDriver and registering them here.
+ * @returns {IStorageDriver} - The storage driver.
+ */
+const createStorageDriver = (): IStorageDriver => {
+    const driver = process.env.STORAGE_DRIVER || 'local';
+
+    switch (driver) {
+        case 'local':
+            return new LocalStorageDriver();
+        default:
+            throw new Error(`Unknown storage driver: ${driver}`);
+    }
+};
+
+/**
+ * @summary The storage driver used by the application.
+ */
+export const storage: IStorageDriver = createStorageDriver();
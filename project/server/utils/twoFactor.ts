@@ -0,0 +1,270 @@
+import { createHash, createHmac, randomBytes, randomUUID, timingSafeEqual } from "crypto";
+import { Response } from "express";
+import { redis } from "./redis";
+import { IUser } from "../models/user.model";
+
+/**
+ * @summary This line of code loads the environment variables from a .env file into process.env.
+ */
+require('dotenv').config();
+
+/**
+ * @summary The settings of the one-time passwords, which are the defaults of authenticator apps (RFC 6238).
+ * @description Codes have 6 digits and change every 30 seconds.
+ * The code of the previous and next period is accepted too, to allow for clock drift between the server and the phone.
+ */
+const totpDigits = 6;
+const totpPeriod = 30;
+const totpWindow = 1;
+
+/**
+ * @summary The number of recovery codes generated for a user.
+ */
+const recoveryCodeCount = 10;
+
+/**
+ * @summary The settings of the login challenges.
+ * @description A challenge is valid for 5 minutes, and is deleted after 5 wrong codes.
+ */
+export const challengeExpire = 5 * 60;
+const challengeMaxAttempts = 5;
+
+/**
+ * @summary How long a pending enrollment waits for its first code, in seconds.
+ */
+export const enrollmentExpire = 10 * 60;
+
+/**
+ * @summary The Redis keys of the pending enrollments, of the login challenges, and of the codes already used.
+ */
+export const enrollmentKey = (userId: string) => `two_factor_enrollment:${userId}`;
+const challengeKey = (token: string) => `two_factor_challenge:${token}`;
+const usedCodeKey = (userId: string, counter: number) => `totp_used:${userId}:${counter}`;
+
+/**
+ * @summary The alphabet of the base32 encoding used by authenticator apps for secrets (RFC 4648).
+ */
+const base32Alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/**
+ * @function base32Encode
+ * @summary This function encodes a buffer in base32, without padding.
+ * @param {Buffer} buffer - The buffer.
+ * @returns {string} - The base32 string.
+ */
+const base32Encode = (buffer: Buffer): string => {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+
+    for (const byte of buffer) {
+        value = (value << 8) | byte;
+        bits += 8;
+
+        while (bits >= 5) {
+            output += base32Alphabet[(value >>> (bits - 5)) & 31];
+            bits -= 5;
+        }
+    }
+
+    if (bits > 0) {
+        output += base32Alphabet[(value << (5 - bits)) & 31];
+    }
+
+    return output;
+}
+
+/**
+ * @function base32Decode
+ * @summary This function decodes a base32 string, ignoring padding.
+ * @param {string} input - The base32 string.
+ * @returns {Buffer} - The decoded buffer.
+ */
+const base32Decode = (input: string): Buffer => {
+    let bits = 0;
+    let value = 0;
+    const bytes: number[] = [];
+
+    for (const char of input.replace(/=+$/, '').toUpperCase()) {
+        value = (value << 5) | base32Alphabet.indexOf(char);
+        bits += 5;
+
+        if (bits >= 8) {
+            bytes.push((value >>> (bits - 8)) & 255);
+            bits -= 8;
+        }
+    }
+
+    return Buffer.from(bytes);
+}
+
+/**
+ * @function generateCode
+ * @summary This function computes the one-time password of a secret for a time step (RFC 4226).
+ * @param {string} secret - The base32 secret.
+ * @param {number} counter - The time step.
+ * @returns {string} - The code, padded with zeros.
+ */
+const generateCode = (secret: string, counter: number): string => {
+    const message = Buffer.alloc(8);
+    message.writeUInt32BE(Math.floor(counter / 2 ** 32), 0);
+    message.writeUInt32BE(counter % 2 ** 32, 4);
+
+    const hmac = createHmac('sha1', base32Decode(secret)).update(message).digest();
+    const offset = hmac[hmac.length - 1] & 15;
+    const code = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** totpDigits;
+
+    return code.toString().padStart(totpDigits, '0');
+}
+
+/**
+ * @function generateTotpSecret
+ * @summary This function generates a new random secret for an authenticator app.
+ * @returns {string} - The base32 secret.
+ */
+export const generateTotpSecret = (): string => {
+    return base32Encode(randomBytes(20));
+}
+
+/**
+ * @function getProvisioningUri
+ * @summary This function builds the `otpauth://` URI of a secret, which authenticator apps read from a QR code.
+ * @param {string} secret - The base32 secret.
+ * @param {string} email - The email of the user, which labels the account in the app.
+ * @returns {string} - The provisioning URI.
+ */
+export const getProvisioningUri = (secret: string, email: string): string => {
+    const issuer = process.env.APP_NAME || 'LMS';
+    const label = encodeURIComponent(`${issuer}:${email}`);
+    const params = new URLSearchParams({
+        secret,
+        issuer,
+        algorithm: 'SHA1',
+        digits: String(totpDigits),
+        period: String(totpPeriod),
+    });
+
+    return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+/**
+ * @function verifyTotp
+ * @summary This function checks a one-time password against a secret.
+ * @description Each code can only be used once: the time step of an accepted code is recorded in Redis until it cannot be valid anymore,
+ * so a code seen by someone else cannot be replayed.
+ * @param {string} userId - The ID of the user.
+ * @param {string} secret - The base32 secret of the user.
+ * @param {string} code - The code entered by the user.
+ * @returns {Promise<boolean>} - Whether the code is valid.
+ */
+export const verifyTotp = async (userId: string, secret: string, code: string): Promise<boolean> => {
+    const current = Math.floor(Date.now() / 1000 / totpPeriod);
+
+    for (let counter = current - totpWindow; counter <= current + totpWindow; counter++) {
+        const expected = Buffer.from(generateCode(secret, counter));
+
+        if (expected.length === code.length && timingSafeEqual(expected, Buffer.from(code))) {
+            const isUnused = await redis.set(usedCodeKey(userId, counter), 1, 'EX', totpPeriod * (2 * totpWindow + 1), 'NX');
+            return isUnused === 'OK';
+        }
+    }
+
+    return false;
+}
+
+/**
+ * @function hashRecoveryCode
+ * @summary This function hashes a recovery code, ignoring case, spaces and dashes.
+ * @description Recovery codes are random, so a fast hash is enough, and it lets the hash be looked up directly in the database.
+ * @param {string} code - The recovery code.
+ * @returns {string} - The SHA-256 hash of the code.
+ */
+export const hashRecoveryCode = (code: string): string => {
+    return createHash('sha256').update(code.toLowerCase().replace(/[\s-]/g, '')).digest('hex');
+}
+
+/**
+ * @function generateRecoveryCodes
+ * @summary This function generates a new set of recovery codes.
+ * @returns {{ codes: string[], hashes: string[] }} - The codes, to show to the user once, and their hashes, to store.
+ */
+export const generateRecoveryCodes = (): { codes: string[], hashes: string[] } => {
+    const codes = Array.from({ length: recoveryCodeCount }, () => {
+        const code = randomBytes(5).toString('hex');
+        return `${code.slice(0, 5)}-${code.slice(5)}`;
+    });
+
+    return { codes, hashes: codes.map(hashRecoveryCode) };
+}
+
+/**
+ * @function createLoginChallenge
+ * @summary This function creates the challenge of a login that still needs a second factor.
+ * @description The challenge is stored in Redis with the ID of the user and the number of attempts, and expires after `challengeExpire` seconds.
+ * @param {string} userId - The ID of the user who entered a correct password.
+ * @returns {Promise<string>} - The challenge token, to send back with the code.
+ */
+const createLoginChallenge = async (userId: string): Promise<string> => {
+    const token = randomUUID();
+
+    await redis.multi()
+        .hset(challengeKey(token), { userId, attempts: 0 })
+        .expire(challengeKey(token), challengeExpire)
+        .exec();
+
+    return token;
+}
+
+/**
+ * @function getLoginChallenge
+ * @summary This function counts an attempt of a login challenge and finds the user it was issued to.
+ * @description The challenge is deleted once it has had too many attempts, so the password must be entered again.
+ * @param {string} token - The challenge token.
+ * @returns {Promise<string | null>} - The ID of the user, or null if the challenge is invalid, expired or exhausted.
+ */
+export const getLoginChallenge = async (token: string): Promise<string | null> => {
+    const userId = await redis.hget(challengeKey(token), 'userId');
+
+    if (!userId) {
+        return null;
+    }
+
+    const attempts = await redis.hincrby(challengeKey(token), 'attempts', 1);
+
+    if (attempts > challengeMaxAttempts) {
+        await redis.del(challengeKey(token));
+        return null;
+    }
+
+    return userId;
+}
+
+/**
+ * @function clearLoginChallenge
+ * @summary This function deletes a login challenge once it has been completed.
+ * @param {string} token - The challenge token.
+ * @returns {Promise<void>}
+ */
+export const clearLoginChallenge = async (token: string): Promise<void> => {
+    await redis.del(challengeKey(token));
+}
+
+/**
+ * @function sendLoginChallenge
+ * @summary This function answers a login of a user who enabled two-factor authentication.
+ * @description Instead of signing the user in, it creates a login challenge and sends its token,
+ * which must be sent back with a code of the authenticator app, or a recovery code, to finish the login.
+ * @param {IUser} user - The user who logged in.
+ * @param {Response} res - The response object.
+ * @returns {Promise<void>}
+ */
+export const sendLoginChallenge = async (user: IUser, res: Response): Promise<void> => {
+    const challengeToken = await createLoginChallenge(String(user._id));
+
+    res.status(200).json({
+        success: true,
+        twoFactorRequired: true,
+        challengeToken,
+        expiresIn: challengeExpire,
+    });
+}
@@ -0,0 +1,118 @@
+import fs from "fs";
+import path from "path";
+import { Readable } from "stream";
+
+/**
+ * @summary This line of code loads the environment variables from a .env file into process.env.
+ */
+require('dotenv').config();
+
+/**
+ * @interface IVideoInfo
+ * @summary This interface represents the metadata of a stored video.
+ * @property {number} size - The size of the video, in bytes.
+ * @property {string} contentType - The MIME type of the video.
+ */
+export interface IVideoInfo {
+    size: number;
+    contentType: string;
+}
+
+/**
+ * @interface IVideoStorageDriver
+ * @summary This interface is implemented by every video storage driver.
+ * @description Lesson videos are private: unlike the uploads of the storage driver, they are never served directly,
+ * and can only be streamed through the signed playback URLs of the video routes.
+ * @property {string} name - The name of the driver.
+ * @method stat - Resolves to the metadata of a video, or null if it does not exist.
+ * @method createReadStream - Reads a video, or the byte range of it from `start` to `end` included.
+ */
+export interface IVideoStorageDriver {
+    name: string;
+    stat(videoId: string): Promise<IVideoInfo | null>;
+    createReadStream(videoId: string, range?: { start: number, end: number }): Readable;
+}
+
+/**
+ * @summary The MIME types of the supported video files, by extension.
+ */
+const videoContentTypes: { [extension: string]: string } = {
+    '.mp4': 'video/mp4',
+    '.m4v': 'video/mp4',
+    '.webm': 'video/webm',
+    '.ogv': 'video/ogg',
+    '.mov': 'video/quicktime',
+};
+
+/**
+ * @class LocalVideoStorageDriver
+ * @implements {IVideoStorageDriver}
+ * @summary This class reads lesson videos from the local disk.
+ * @description Videos are read from the `VIDEO_LOCAL_ROOT` directory, which defaults to the `videos` directory of the server.
+ * The ID of a video is its path in this directory, such as `typescript/generics.mp4`.
+ */
+export class LocalVideoStorageDriver implements IVideoStorageDriver {
+    readonly name = 'local';
+
+    readonly root = path.resolve(process.env.VIDEO_LOCAL_ROOT || path.join(__dirname, '../videos'));
+
+    async stat(videoId: string): Promise<IVideoInfo | null> {
+        const contentType = videoContentTypes[path.extname(videoId).toLowerCase()];
+
+        if (!contentType) {
+            return null;
+        }
+
+        try {
+            const stats = await fs.promises.stat(this.resolve(videoId));
+            return stats.isFile() ? { size: stats.size, contentType } : null;
+        } catch (error:any) {
+            if (error.code === 'ENOENT') {
+                return null;
+            }
+
+            throw error;
+        }
+    }
+
+    createReadStream(videoId: string, range?: { start: number, end: number }): Readable {
+        return fs.createReadStream(this.resolve(videoId), range);
+    }
+
+    /**
+     * @summary Resolves the path of a video from its ID, refusing IDs that point outside the video root.
+     * @param {string} videoId - The ID of the video.
+     * @returns {string} - The absolute path of the video.
+     */
+    resolve(videoId: string): string {
+        const filePath = path.resolve(this.root, videoId);
+
+        if (!filePath.startsWith(this.root + path.sep)) {
+            throw new Error(`Invalid video ID: ${videoId}`);
+        }
+
+        return filePath;
+    }
+}
+
+/**
+ * @function createVideoStorageDriver
+ * @summary This function creates the video storage driver selected by the `VIDEO_STORAGE_DRIVER` environment variable.
+ * @description It defaults to the local disk driver. New drivers are added by implementing IVideoStorageDriver and registering them here.
+ * @returns {IVideoStorageDriver} - The video storage driver.
+ */
+const createVideoStorageDriver = (): IVideoStorageDriver => {
+    const driver = process.env.VIDEO_STORAGE_DRIVER || 'local';
+
+    switch (driver) {
+        case 'local':
+            return new LocalVideoStorageDriver();
+        default:
+            throw new Error(`Unknown video storage driver: ${driver}`);
+    }
+};
+
+/**
+ * @summary The video storage driver used by the application.
+ */
+export const videoStorage: IVideoStorageDriver = createVideoStorageDriver();
@@ -0,0 +1,66 @@
+/**
+ * @file This file defines the validation schemas of the admin routes.
+ * @description Each schema describes the request a route accepts, and is attached to the route with the `validate` middleware.
+ */
+
+import { IRequestSchema, ValidationSchema } from "../middleware/validate";
+import { userRoles } from "../models/user.model";
+
+/**
+ * @summary The rules of the pagination parameters of the query string.
+ */
+const paginationFields: ValidationSchema = {
+    page: { type: 'number', integer: true, min: 1 },
+    limit: { type: 'number', integer: true, min: 1, max: 100 },
+};
+
+/**
+ * @summary The schema of the requests that target a user by its ID.
+ */
+export const userIdSchema: IRequestSchema = {
+    params: {
+        id: { type: 'objectId', required: true },
+    },
+};
+
+/**
+ * @summary The schema of the list users request.
+ */
+export const getAllUsersSchema: IRequestSchema = {
+    query: {
+        ...paginationFields,
+        search: { type: 'string', max: 100 },
+        role: { type: 'string', enum: userRoles },
+        isVerified: { type: 'boolean' },
+    },
+};
+
+/**
+ * @summary The schema of the update user role request, see IUpdateUserRoleRequest.
+ */
+export const updateUserRoleSchema: IRequestSchema = {
+    params: userIdSchema.params,
+    body: {
+        role: { type: 'string', required: true, enum: userRoles },
+    },
+};
+
+/**
+ * @summary The schema of the update user suspension request, see IUpdateUserSuspensionRequest.
+ */
+export const updateUserSuspensionSchema: IRequestSchema = {
+    params: userIdSchema.params,
+    body: {
+        suspended: { type: 'boolean', required: true },
+    },
+};
+
+/**
+ * @summary The schema of the list audit logs request.
+ */
+export const getAuditLogsSchema: IRequestSchema = {
+    query: {
+        ...paginationFields,
+        target: { type: 'objectId' },
+    },
+};
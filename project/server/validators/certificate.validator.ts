@@ -0,0 +1,20 @@
+/**
+ * @file This file defines the validation schemas of the certificate routes.
+ * @description Each schema describes the request a route accepts, and is attached to the route with the `validate` middleware.
+ */
+
+import { IRequestSchema } from "../middleware/validate";
+
+/**
+ * @summary The schema of the requests about a single certificate, identified by its serial.
+ */
+export const certificateSerialSchema: IRequestSchema = {
+    params: {
+        serial: {
+            type: 'string',
+            required: true,
+            pattern: /^[2-9A-HJ-NP-Z]{4}(-[2-9A-HJ-NP-Z]{4}){3}$/,
+            message: "serial must be a valid certificate serial.",
+        },
+    },
+};
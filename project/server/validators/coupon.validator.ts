@@ -0,0 +1,111 @@
+/**
+ * @file This file defines the validation schemas of the coupon routes.
+ * @description Each schema describes the request a route accepts, and is attached to the route with the `validate` middleware.
+ */
+
+import { IRequestSchema, ValidationSchema } from "../middleware/validate";
+import { couponTypes } from "../models/coupon.model";
+
+/**
+ * @summary The rules of the pagination parameters of the query string.
+ */
+const paginationFields: ValidationSchema = {
+    page: { type: 'number', integer: true, min: 1 },
+    limit: { type: 'number', integer: true, min: 1, max: 100 },
+};
+
+/**
+ * @summary The rules of the date range of a report.
+ */
+const dateRangeFields: ValidationSchema = {
+    from: { type: 'date' },
+    to: { type: 'date' },
+};
+
+/**
+ * @function couponFields
+ * @summary This function builds the rules of the fields of a coupon.
+ * @description The same fields are used to create and to update a coupon, but only the creation requires them.
+ * @param {boolean} required - Whether the main fields of the coupon are required.
+ * @returns {ValidationSchema} - The rules of the fields of a coupon.
+ */
+const couponFields = (required: boolean): ValidationSchema => ({
+    code: {
+        type: 'string',
+        required,
+        pattern: /^[A-Za-z0-9_-]{3,50}$/,
+        message: "code must be 3 to 50 letters, digits, dashes or underscores.",
+    },
+    description: { type: 'string', max: 500 },
+    type: { type: 'string', required, enum: couponTypes },
+    value: { type: 'number', required, min: 0 },
+    startsAt: { type: 'date' },
+    expiresAt: { type: 'date' },
+    maxUses: { type: 'number', integer: true, min: 0 },
+    maxUsesPerUser: { type: 'number', integer: true, min: 0 },
+    courses: { type: 'array', items: { type: 'objectId', required: true } },
+    active: { type: 'boolean' },
+});
+
+/**
+ * @summary The schema of the requests that target a coupon by its ID.
+ */
+export const couponIdSchema: IRequestSchema = {
+    params: {
+        couponId: { type: 'objectId', required: true },
+    },
+};
+
+/**
+ * @summary The schema of the preview coupon request, see IPreviewCouponRequest.
+ */
+export const previewCouponSchema: IRequestSchema = {
+    body: {
+        code: { type: 'string', required: true, max: 50 },
+        courseId: { type: 'objectId', required: true },
+    },
+};
+
+/**
+ * @summary The schema of the create coupon request.
+ */
+export const createCouponSchema: IRequestSchema = {
+    body: couponFields(true),
+};
+
+/**
+ * @summary The schema of the update coupon request.
+ */
+export const updateCouponSchema: IRequestSchema = {
+    params: couponIdSchema.params,
+    body: couponFields(false),
+};
+
+/**
+ * @summary The schema of the list coupons request.
+ */
+export const getAllCouponsSchema: IRequestSchema = {
+    query: {
+        ...paginationFields,
+        search: { type: 'string', max: 50 },
+        active: { type: 'boolean' },
+    },
+};
+
+/**
+ * @summary The schema of the coupons report request.
+ */
+export const getCouponsReportSchema: IRequestSchema = {
+    query: dateRangeFields,
+};
+
+/**
+ * @summary The schema of the coupon redemptions report request.
+ */
+export const getCouponRedemptionsSchema: IRequestSchema = {
+    params: couponIdSchema.params,
+    query: {
+        ...paginationFields,
+        ...dateRangeFields,
+    },
+};
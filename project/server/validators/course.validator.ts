@@ -0,0 +1,164 @@
+/**
+ * @file This file defines the validation schemas of the course routes, including their questions and reviews.
+ * @description Each schema describes the request a route accepts, and is attached to the route with the `validate` middleware.
+ */
+
+import { IRequestSchema, ValidationSchema } from "../middleware/validate";
+import { courseLevels } from "../models/course.model";
+import { courseSearchSorts } from "../utils/courseSearch";
+
+/**
+ * @summary The rules of an uploaded file, such as the course thumbnail.
+ */
+const fileFields: ValidationSchema = {
+    public_id: { type: 'string' },
+    url: { type: 'string', required: true },
+};
+
+/**
+ * @summary The rules of a lesson of a course section.
+ */
+const lessonFields: ValidationSchema = {
+    title: { type: 'string', required: true, max: 200 },
+    description: { type: 'string' },
+    videoUrl: { type: 'string' },
+    video: { type: 'string', pattern: /^[\w-]+(\/[\w-]+)*\.\w+$/, message: "video must be the path of a video in the video storage." },
+    videoLength: { type: 'number', min: 0 },
+    links: {
+        type: 'array',
+        items: { type: 'object', fields: { title: { type: 'string', required: true }, url: { type: 'string', required: true } } },
+    },
+};
+
+/**
+ * @function courseFields
+ * @summary This function builds the rules of the fields of a course.
+ * @description The same fields are used to create and to update a course, but only the creation requires them.
+ * @param {boolean} required - Whether the main fields of the course are required.
+ * @returns {ValidationSchema} - The rules of the fields of a course.
+ */
+const courseFields = (required: boolean): ValidationSchema => ({
+    title: { type: 'string', required, max: 200 },
+    description: { type: 'string', required },
+    price: { type: 'number', required, min: 0 },
+    estimatedPrice: { type: 'number', min: 0 },
+    sale: {
+        type: 'object',
+        fields: {
+            price: { type: 'number', required: true, min: 0 },
+            startsAt: { type: 'date' },
+            endsAt: { type: 'date', required: true },
+        },
+    },
+    thumbnail: { type: 'object', fields: fileFields },
+    tags: { type: 'array', items: { type: 'string' } },
+    instructor: { type: 'objectId' },
+    level: { type: 'string', enum: courseLevels },
+    demoUrl: { type: 'string' },
+    benefits: { type: 'array', items: { type: 'object', fields: { title: { type: 'string', required: true } } } },
+    prerequisites: { type: 'array', items: { type: 'object', fields: { title: { type: 'string', required: true } } } },
+    sections: {
+        type: 'array',
+        items: {
+            type: 'object',
+            fields: {
+                title: { type: 'string', required: true, max: 200 },
+                lessons: { type: 'array', items: { type: 'object', fields: lessonFields } },
+            },
+        },
+    },
+});
+
+/**
+ * @summary The schema of the requests that target a course by its ID.
+ */
+export const courseIdSchema: IRequestSchema = {
+    params: {
+        id: { type: 'objectId', required: true },
+    },
+};
+
+/**
+ * @summary The schema of the course search request, see ICourseSearchParams.
+ */
+export const searchCoursesSchema: IRequestSchema = {
+    query: {
+        q: { type: 'string', max: 200 },
+        level: { type: 'string', enum: courseLevels },
+        minPrice: { type: 'number', min: 0 },
+        maxPrice: { type: 'number', min: 0 },
+        minRating: { type: 'number', min: 0, max: 5 },
+        sort: { type: 'string', enum: courseSearchSorts },
+        limit: { type: 'number', integer: true, min: 1, max: 50 },
+        cursor: { type: 'string', max: 500 },
+    },
+};
+
+/**
+ * @summary The schema of the create course request.
+ */
+export const createCourseSchema: IRequestSchema = {
+    body: courseFields(true),
+};
+
+/**
+ * @summary The schema of the update course request.
+ */
+export const updateCourseSchema: IRequestSchema = {
+    params: courseIdSchema.params,
+    body: courseFields(false),
+};
+
+/**
+ * @summary The schema of the reject course request, see IRejectCourseRequest.
+ */
+export const rejectCourseSchema: IRequestSchema = {
+    params: courseIdSchema.params,
+    body: {
+        reason: { type: 'string', required: true, max: 2000 },
+    },
+};
+
+/**
+ * @summary The schema of the requests that target a lesson of a course.
+ */
+export const lessonIdSchema: IRequestSchema = {
+    params: {
+        id: { type: 'objectId', required: true },
+        lessonId: { type: 'objectId', required: true },
+    },
+};
+
+/**
+ * @summary The schema of the add question request, see IAddQuestionRequest.
+ */
+export const addQuestionSchema: IRequestSchema = {
+    params: lessonIdSchema.params,
+    body: {
+        question: { type: 'string', required: true, max: 2000 },
+    },
+};
+
+/**
+ * @summary The schema of the add reply request, see IAddReplyRequest.
+ */
+export const addReplySchema: IRequestSchema = {
+    params: {
+        id: { type: 'objectId', required: true },
+        questionId: { type: 'objectId', required: true },
+    },
+    body: {
+        answer: { type: 'string', required: true, max: 2000 },
+    },
+};
+
+/**
+ * @summary The schema of the add review request, see IAddReviewRequest.
+ */
+export const addReviewSchema: IRequestSchema = {
+    params: courseIdSchema.params,
+    body: {
+        rating: { type: 'number', required: true, integer: true, min: 1, max: 5 },
+        comment: { type: 'string', required: true, max: 2000 },
+    },
+};
@@ -0,0 +1,50 @@
+/**
+ * @file This file defines the validation schemas of the instructor routes.
+ * @description Each schema describes the request a route accepts, and is attached to the route with the `validate` middleware.
+ */
+
+import { IRequestSchema } from "../middleware/validate";
+import { instructorApplicationStatuses } from "../models/instructorApplication.model";
+
+/**
+ * @summary The schema of the instructor stats request, with the optional date range of the orders.
+ */
+export const getInstructorStatsSchema: IRequestSchema = {
+    query: {
+        from: { type: 'date' },
+        to: { type: 'date' },
+    },
+};
+
+/**
+ * @summary The schema of the instructor application request, see IInstructorApplicationRequest.
+ */
+export const applyForInstructorSchema: IRequestSchema = {
+    body: {
+        motivation: { type: 'string', required: true, max: 2000 },
+        expertise: { type: 'string', required: true, max: 2000 },
+    },
+};
+
+/**
+ * @summary The schema of the list instructor applications request.
+ */
+export const getInstructorApplicationsSchema: IRequestSchema = {
+    query: {
+        page: { type: 'number', integer: true, min: 1 },
+        limit: { type: 'number', integer: true, min: 1, max: 100 },
+        status: { type: 'string', enum: instructorApplicationStatuses },
+    },
+};
+
+/**
+ * @summary The schema of the approve and reject instructor application requests, see IReviewInstructorApplicationRequest.
+ */
+export const reviewInstructorApplicationSchema: IRequestSchema = {
+    params: {
+        applicationId: { type: 'objectId', required: true },
+    },
+    body: {
+        note: { type: 'string', max: 2000 },
+    },
+};
@@ -0,0 +1,21 @@
+/**
+ * @file This file defines the validation schemas of the mail routes.
+ * @description Each schema describes the request a route accepts, and is attached to the route with the `validate` middleware.
+ */
+
+import { IRequestSchema } from "../middleware/validate";
+import { supportedLocales } from "../utils/i18n";
+
+/**
+ * @summary The schema of the preview mail request.
+ * @description The template name only allows the characters of a file name, so it cannot point outside of the `mails` directory.
+ */
+export const previewMailSchema: IRequestSchema = {
+    params: {
+        template: { type: 'string', required: true, pattern: /^[\w-]+$/, message: "template must be the name of a template." },
+    },
+    query: {
+        locale: { type: 'string', enum: supportedLocales },
+        format: { type: 'string', enum: ['html', 'text', 'json'] },
+    },
+};
@@ -0,0 +1,24 @@
+/**
+ * @file This file defines the validation schemas of the notification routes.
+ * @description Each schema describes the request a route accepts, and is attached to the route with the `validate` middleware.
+ */
+
+import { IRequestSchema } from "../middleware/validate";
+
+/**
+ * @summary The schema of the list notifications request.
+ */
+export const getNotificationsSchema: IRequestSchema = {
+    query: {
+        status: { type: 'string', enum: ['unread', 'read'] },
+    },
+};
+
+/**
+ * @summary The schema of the requests that target a notification by its ID.
+ */
+export const notificationIdSchema: IRequestSchema = {
+    params: {
+        id: { type: 'objectId', required: true },
+    },
+};
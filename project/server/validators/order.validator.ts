@@ -0,0 +1,25 @@
+/**
+ * @file This file defines the validation schemas of the order routes.
+ * @description Each schema describes the request a route accepts, and is attached to the route with the `validate` middleware.
+ */
+
+import { IRequestSchema } from "../middleware/validate";
+
+/**
+ * @summary The schema of the create order request, see ICreateOrderRequest.
+ */
+export const createOrderSchema: IRequestSchema = {
+    body: {
+        courseId: { type: 'objectId', required: true },
+        couponCode: { type: 'string', max: 50 },
+    },
+};
+
+/**
+ * @summary The schema of the fake payment confirmation request.
+ */
+export const confirmFakePaymentSchema: IRequestSchema = {
+    params: {
+        paymentId: { type: 'string', required: true },
+    },
+};
@@ -0,0 +1,29 @@
+/**
+ * @file This file defines the validation schemas of the progress routes.
+ * @description Each schema describes the request a route accepts, and is attached to the route with the `validate` middleware.
+ */
+
+import { IRequestSchema } from "../middleware/validate";
+
+/**
+ * @summary The schema of the course progress request.
+ */
+export const courseProgressSchema: IRequestSchema = {
+    params: {
+        courseId: { type: 'objectId', required: true },
+    },
+};
+
+/**
+ * @summary The schema of the lesson progress request, see ILessonProgressRequest.
+ */
+export const lessonProgressSchema: IRequestSchema = {
+    params: {
+        courseId: { type: 'objectId', required: true },
+        lessonId: { type: 'objectId', required: true },
+    },
+    body: {
+        position: { type: 'number', min: 0 },
+        completed: { type: 'boolean' },
+    },
+};
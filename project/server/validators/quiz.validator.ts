@@ -0,0 +1,99 @@
+/**
+ * @file This file defines the validation schemas of the quiz routes.
+ * @description Each schema describes the request a route accepts, and is attached to the route with the `validate` middleware.
+ * Whether each question can be answered correctly is checked by the Quiz model, which knows the rules of each question type.
+ */
+
+import { IRequestSchema, ValidationSchema } from "../middleware/validate";
+import { quizQuestionTypes } from "../models/quiz.model";
+
+/**
+ * @summary The rules of a question of a quiz.
+ */
+const questionFields: ValidationSchema = {
+    type: { type: 'string', required: true, enum: quizQuestionTypes },
+    prompt: { type: 'string', required: true, max: 2000 },
+    options: {
+        type: 'array',
+        max: 20,
+        items: {
+            type: 'object',
+            fields: {
+                text: { type: 'string', required: true, max: 500 },
+                correct: { type: 'boolean' },
+            },
+        },
+    },
+    acceptedAnswers: { type: 'array', max: 20, items: { type: 'string', required: true, max: 200 } },
+    explanation: { type: 'string', max: 2000 },
+    points: { type: 'number', integer: true, min: 1, max: 100 },
+};
+
+/**
+ * @function quizFields
+ * @summary This function builds the rules of the fields of a quiz.
+ * @description The same fields are used to create and to update a quiz, but only the creation requires them.
+ * @param {boolean} required - Whether the main fields of the quiz are required.
+ * @returns {ValidationSchema} - The rules of the fields of a quiz.
+ */
+const quizFields = (required: boolean): ValidationSchema => ({
+    sectionId: { type: 'objectId', required },
+    title: { type: 'string', required, max: 200 },
+    description: { type: 'string', max: 2000 },
+    questions: { type: 'array', required, min: 1, max: 100, items: { type: 'object', fields: questionFields } },
+    passingScore: { type: 'number', min: 0, max: 100 },
+    maxAttempts: { type: 'number', integer: true, min: 0 },
+    timeLimit: { type: 'number', integer: true, min: 0 },
+});
+
+/**
+ * @summary The schema of the requests that target a quiz by its ID.
+ */
+export const quizIdSchema: IRequestSchema = {
+    params: {
+        quizId: { type: 'objectId', required: true },
+    },
+};
+
+/**
+ * @summary The schema of the create quiz request, see IQuizRequest.
+ */
+export const createQuizSchema: IRequestSchema = {
+    params: {
+        id: { type: 'objectId', required: true },
+    },
+    body: quizFields(true),
+};
+
+/**
+ * @summary The schema of the update quiz request, see IQuizRequest.
+ */
+export const updateQuizSchema: IRequestSchema = {
+    params: quizIdSchema.params,
+    body: quizFields(false),
+};
+
+/**
+ * @summary The schema of the submit quiz attempt request, see ISubmitQuizRequest.
+ */
+export const submitQuizAttemptSchema: IRequestSchema = {
+    params: {
+        quizId: { type: 'objectId', required: true },
+        attemptId: { type: 'objectId', required: true },
+    },
+    body: {
+        answers: {
+            type: 'array',
+            required: true,
+            max: 100,
+            items: {
+                type: 'object',
+                fields: {
+                    questionId: { type: 'objectId', required: true },
+                    options: { type: 'array', max: 20, items: { type: 'objectId', required: true } },
+                    text: { type: 'string', max: 500 },
+                },
+            },
+        },
+    },
+};
@@ -0,0 +1,34 @@
+/**
+ * @file This file defines the validation schemas of the two-factor authentication routes.
+ * @description Each schema describes the request a route accepts, and is attached to the route with the `validate` middleware.
+ */
+
+import { IRequestSchema } from "../middleware/validate";
+
+/**
+ * @summary The schema of the enable request, see ITwoFactorCodeRequest.
+ */
+export const enableTwoFactorSchema: IRequestSchema = {
+    body: {
+        code: { type: 'string', required: true, pattern: /^\d{6}$/, message: "code must be a 6-digit code." },
+    },
+};
+
+/**
+ * @summary The schema of the disable request, see ITwoFactorCodeRequest.
+ */
+export const disableTwoFactorSchema: IRequestSchema = {
+    body: {
+        code: { type: 'string', required: true, max: 20 },
+    },
+};
+
+/**
+ * @summary The schema of the second step of a login, see ILoginChallengeRequest.
+ */
+export const loginChallengeSchema: IRequestSchema = {
+    body: {
+        challenge_token: { type: 'string', required: true, pattern: /^[0-9a-f-]{36}$/, message: "challenge_token must be a valid challenge token." },
+        code: { type: 'string', required: true, max: 20 },
+    },
+};
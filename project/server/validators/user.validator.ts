@@ -0,0 +1,112 @@
+/**
+ * @file This file defines the validation schemas of the user routes.
+ * @description Each schema describes the request a route accepts, and is attached to the route with the `validate` middleware.
+ */
+
+import { IRequestSchema } from "../middleware/validate";
+import { supportedLocales } from "../utils/i18n";
+
+/**
+ * @summary The rules of a new password, matching the ones of the User schema.
+ */
+const passwordRule = { type: 'string', required: true, min: 6 } as const;
+
+/**
+ * @summary The schema of the registration request, see IRegistrationBody.
+ */
+export const registrationSchema: IRequestSchema = {
+    body: {
+        name: { type: 'string', required: true, max: 50 },
+        email: { type: 'email', required: true },
+        password: passwordRule,
+        locale: { type: 'string', enum: supportedLocales },
+    },
+};
+
+/**
+ * @summary The schema of the activation request, see IActivationRequest.
+ */
+export const activationSchema: IRequestSchema = {
+    body: {
+        activation_token: { type: 'string', required: true },
+        activation_code: { type: 'string', required: true, pattern: /^\d{4}$/, message: "activation_code must be a 4-digit code." },
+    },
+};
+
+/**
+ * @summary The schema of the login request, see ILoginRequest.
+ */
+export const loginSchema: IRequestSchema = {
+    body: {
+        email: { type: 'email', required: true },
+        password: { type: 'string', required: true },
+    },
+};
+
+/**
+ * @summary The schema of the social login request, see ISocialAuthRequest.
+ */
+export const socialAuthSchema: IRequestSchema = {
+    body: {
+        provider: { type: 'string', required: true },
+        id_token: { type: 'string', required: true },
+    },
+};
+
+/**
+ * @summary The schema of the requests that target a session by its ID.
+ */
+export const sessionIdSchema: IRequestSchema = {
+    params: {
+        id: { type: 'string', required: true, pattern: /^[0-9a-f-]{36}$/, message: "id must be a valid session ID." },
+    },
+};
+
+/**
+ * @summary The schema of the forgot password request, see IForgotPasswordRequest.
+ */
+export const forgotPasswordSchema: IRequestSchema = {
+    body: {
+        email: { type: 'email', required: true },
+    },
+};
+
+/**
+ * @summary The schema of the reset password request, see IResetPasswordRequest.
+ */
+export const resetPasswordSchema: IRequestSchema = {
+    body: {
+        email: { type: 'email', required: true },
+        reset_code: { type: 'string', required: true, pattern: /^\d{6}$/, message: "reset_code must be a 6-digit code." },
+        password: passwordRule,
+    },
+};
+
+/**
+ * @summary The schema of the update user info request, see IUpdateUserInfoRequest.
+ */
+export const updateUserInfoSchema: IRequestSchema = {
+    body: {
+        name: { type: 'string', max: 50 },
+        locale: { type: 'string', enum: supportedLocales },
+    },
+};
+
+/**
+ * @summary The schema of the update password request, see IUpdatePasswordRequest.
+ */
+export const updatePasswordSchema: IRequestSchema = {
+    body: {
+        oldPassword: { type: 'string' },
+        newPassword: passwordRule,
+    },
+};
+
+/**
+ * @summary The schema of the update avatar request, see IUpdateAvatarRequest.
+ */
+export const updateAvatarSchema: IRequestSchema = {
+    body: {
+        avatar: { type: 'string', required: true },
+    },
+};
@@ -0,0 +1,31 @@
+/**
+ * @file This file defines the validation schemas of the video routes.
+ * @description Each schema describes the request a route accepts, and is attached to the route with the `validate` middleware.
+ */
+
+import { IRequestSchema } from "../middleware/validate";
+
+/**
+ * @summary The schema of the playback URL request.
+ */
+export const playbackUrlSchema: IRequestSchema = {
+    params: {
+        id: { type: 'objectId', required: true },
+        lessonId: { type: 'objectId', required: true },
+    },
+};
+
+/**
+ * @summary The schema of the stream request, with the signed parameters of the playback URL.
+ */
+export const streamVideoSchema: IRequestSchema = {
+    params: {
+        courseId: { type: 'objectId', required: true },
+        lessonId: { type: 'objectId', required: true },
+    },
+    query: {
+        user: { type: 'objectId', required: true },
+        expires: { type: 'number', required: true, integer: true },
+        signature: { type: 'string', required: true, pattern: /^[0-9a-f]{64}$/, message: "signature must be a valid signature." },
+    },
+};